@@ -1,34 +1,73 @@
-import { useState, useRef, useEffect, useCallback, type FormEvent, type ChangeEvent, type KeyboardEvent, type TouchEvent as ReactTouchEvent } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo, type FormEvent, type ChangeEvent, type KeyboardEvent, type TouchEvent as ReactTouchEvent } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import rehypeHighlight from 'rehype-highlight';
+import { renderToStaticMarkup } from 'react-dom/server';
 import {
   generateResponse,
   buildEffectiveSystemPrompt,
-  DEFAULT_GOOGLE_MODELS,
-  DEFAULT_OPENROUTER_MODELS,
-  DEFAULT_SAMBA_MODELS,
-  DEFAULT_GOOGLE_KEYS,
-  DEFAULT_OPENROUTER_KEY,
-  DEFAULT_SAMBA_KEY,
+  resolveChatPrompt,
+  resolveGenerationParams,
   DEFAULT_SYSTEM_PROMPT,
-  DEFAULT_THEME,
   AUTO_MODES,
   isAutoMode,
-  isGoogleModel,
-  isSambaModel,
   isImageCapableModel,
+  getModelProvider,
   getModelShortName,
   getModelDotColor,
   type ThemeMode,
   type ThemeConfig,
   type ChatMessage,
   type ChatSession,
+  type ChatFolder,
   type AppConfig,
+  type CustomEndpoint,
+  type ChatPrompt,
+  type ChatSummary,
+  type GenerationParams,
   type LogEntry,
+  type ModelPrice,
+  type PromptPreset,
+  type ToolInvocation,
+  type ToolRun,
 } from './api';
+import {
+  listProviders,
+  isProviderConfigured,
+  parseHeaderLines,
+  formatHeaderLines,
+  type ProviderDefinition,
+} from './providers';
+import {
+  DEFAULT_MODEL_PRICES,
+  dailyUsage,
+  formatCost,
+  formatTokens,
+  getModelPrice,
+  sessionUsage,
+  totalTokens,
+  totalUsage,
+  usageByModel,
+  usageCost,
+  type UsageTotals,
+} from './usage';
+import { createBackup, createPartialBackup, defaultConfig, formatFieldErrors, loadConfig, readBackup, saveConfig, type BackupPart, type ConfigFieldError } from './config';
+import { decryptBackup, encryptBackup, isEncryptedBackup, MIN_PASSPHRASE_LENGTH, type EncryptedBackup } from './encryption';
+import { buildContext, type ContextPlan } from './context';
+import { isSummaryCurrent, SUMMARY_RESERVE_TOKENS, summaryTokens, updateSummary, withSummary } from './summary';
+import { formatBytes, getStorageInfo, loadSessions, saveSessions, type StorageInfo } from './storage';
+import { parseSourcesFromContent, parseThinkContent } from './content';
+import { chatsToMarkdown, downloadFile, exportFileName, exportMessages, formatExportDate, htmlDocument, openPrintWindow, type ExportFormat } from './export';
+import { importForeignChats } from './importers';
+import { generateChatTitle, truncatedTitle } from './titles';
+import { enabledTools, getTool, listTools } from './tools';
+import './builtinTools';
+import { daysLeft, isTrashed, purgeExpired, restoreSessions, TRASH_RETENTION_OPTIONS, trashSessions } from './trash';
+import { parseQuery, SearchIndex } from './search';
+import { applyImport, planImport, type ImportAction, type ImportItem } from './merge';
+import { activePath, appendToBranch, childrenMap, latestLeaf, pendingComparison, pickComparisonWinner, switchBranch, updateMessage } from './tree';
 
 // =============================================================================
 // SVG Icons
@@ -69,9 +108,33 @@ function IconUser({ className = 'w-5 h-5' }: { className?: string }) {
 function IconStop({ className = 'w-5 h-5' }: { className?: string }) {
   return <svg className={className} viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>;
 }
+function IconColumns({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" /><line x1="9" x2="9" y1="3" y2="21" /><line x1="15" x2="15" y1="3" y2="21" /></svg>;
+}
 function IconNewChat({ className = 'w-5 h-5' }: { className?: string }) {
   return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9" /><path d="M16.376 3.622a1 1 0 0 1 3.002 3.002L7.368 18.635a2 2 0 0 1-.855.506l-2.872.838a.5.5 0 0 1-.62-.62l.838-2.872a2 2 0 0 1 .506-.854z" /></svg>;
 }
+function IconFolder({ className = 'w-4 h-4' }: { className?: string }) {
+  return <I d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z" className={className} />;
+}
+function IconPin({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M12 17v5" /><path d="M9 10.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24V16a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V7a1 1 0 0 1 1-1 2 2 0 0 0 0-4H8a2 2 0 0 0 0 4 1 1 0 0 1 1 1z" /></svg>;
+}
+function IconTag({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" /><circle cx="7.5" cy="7.5" r=".5" fill="currentColor" /></svg>;
+}
+function IconArchive({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><rect width="20" height="5" x="2" y="3" rx="1" /><path d="M4 8v11a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8" /><path d="M10 12h4" /></svg>;
+}
+function IconUndo({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M9 14 4 9l5-5" /><path d="M4 9h10.5a5.5 5.5 0 0 1 5.5 5.5a5.5 5.5 0 0 1-5.5 5.5H11" /></svg>;
+}
+function IconWrench({ className = 'w-4 h-4' }: { className?: string }) {
+  return <I d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z" className={className} />;
+}
+function IconLock({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="11" width="18" height="11" rx="2" /><path d="M7 11V7a5 5 0 0 1 10 0v4" /></svg>;
+}
 function IconKey({ className = 'w-5 h-5' }: { className?: string }) {
   return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="m15.5 7.5 2.3 2.3a1 1 0 0 0 1.4 0l2.1-2.1a1 1 0 0 0 0-1.4L19 4" /><path d="m21 2-9.6 9.6" /><circle cx="7.5" cy="15.5" r="5.5" /></svg>;
 }
@@ -157,6 +220,32 @@ function IconSearch({ className = 'w-4 h-4' }: { className?: string }) {
   return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8" /><path d="m21 21-4.3-4.3" /></svg>;
 }
 
+function IconSliders({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><line x1="4" x2="4" y1="21" y2="14" /><line x1="4" x2="4" y1="10" y2="3" /><line x1="12" x2="12" y1="21" y2="12" /><line x1="12" x2="12" y1="8" y2="3" /><line x1="20" x2="20" y1="21" y2="16" /><line x1="20" x2="20" y1="12" y2="3" /><line x1="2" x2="6" y1="14" y2="14" /><line x1="10" x2="14" y1="8" y2="8" /><line x1="18" x2="22" y1="16" y2="16" /></svg>;
+}
+function IconChart({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><line x1="18" x2="18" y1="20" y2="10" /><line x1="12" x2="12" y1="20" y2="4" /><line x1="6" x2="6" y1="20" y2="14" /></svg>;
+}
+function IconAnthropic({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="currentColor"><path d="M13.83 3h-3.66L3.5 21h3.77l1.37-3.78h6.72L16.73 21h3.77L13.83 3zm-4.04 11.1L12 8.02l2.21 6.08H9.79z" /></svg>;
+}
+function IconServer({ className = 'w-4 h-4' }: { className?: string }) {
+  return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><rect width="20" height="8" x="2" y="2" rx="2" /><rect width="20" height="8" x="2" y="14" rx="2" /><line x1="6" x2="6.01" y1="6" y2="6" /><line x1="6" x2="6.01" y1="18" y2="18" /></svg>;
+}
+
+// Provider icons — unknown icon keys fall back to the chip icon
+const PROVIDER_ICONS: Record<string, typeof IconChip> = {
+  google: IconGoogle,
+  anthropic: IconAnthropic,
+  sambanova: IconSamba,
+  openrouter: IconDeepSeek,
+  server: IconServer,
+};
+function ProviderIcon({ provider, className = 'w-4 h-4' }: { provider: ProviderDefinition; className?: string }) {
+  const Ic = (provider.icon && PROVIDER_ICONS[provider.icon]) || IconChip;
+  return <Ic className={className} />;
+}
+
 // DophyAI Logo
 function DophyLogo({ className = 'w-8 h-8' }: { className?: string }) {
   const [fallback, setFallback] = useState(0);
@@ -234,49 +323,9 @@ function Toggle({ enabled, onChange, label, description, icon }: {
 // =============================================================================
 // Constants & Persistence
 // =============================================================================
-const LS_CONFIG = 'dophy-config-v4';
-const LS_SESSIONS = 'dophy-sessions';
 const LS_ACTIVE = 'dophy-active';
 const LS_MODEL = 'dophy-model';
 
-function loadConfig(): AppConfig {
-  try {
-    const raw = localStorage.getItem(LS_CONFIG);
-    if (raw) {
-      const p = JSON.parse(raw);
-      return {
-        googleKeys: Array.isArray(p.googleKeys) ? p.googleKeys : [...DEFAULT_GOOGLE_KEYS],
-        openrouterKey: typeof p.openrouterKey === 'string' ? p.openrouterKey : DEFAULT_OPENROUTER_KEY,
-        sambaKey: typeof p.sambaKey === 'string' ? p.sambaKey : DEFAULT_SAMBA_KEY,
-        systemPrompt: typeof p.systemPrompt === 'string' ? p.systemPrompt : DEFAULT_SYSTEM_PROMPT,
-        googleModels: Array.isArray(p.googleModels) ? p.googleModels : [...DEFAULT_GOOGLE_MODELS],
-        openrouterModels: Array.isArray(p.openrouterModels) ? p.openrouterModels : [...DEFAULT_OPENROUTER_MODELS],
-        sambaModels: Array.isArray(p.sambaModels) ? p.sambaModels : [...DEFAULT_SAMBA_MODELS],
-        theme: (p.theme && p.theme.mode) ? { mode: p.theme.mode } : { ...DEFAULT_THEME },
-        includeTime: typeof p.includeTime === 'boolean' ? p.includeTime : false,
-        includeDate: typeof p.includeDate === 'boolean' ? p.includeDate : false,
-        memories: Array.isArray(p.memories) ? p.memories : [],
-      };
-    }
-  } catch { /* ignore */ }
-  return {
-    googleKeys: [...DEFAULT_GOOGLE_KEYS],
-    openrouterKey: DEFAULT_OPENROUTER_KEY,
-    sambaKey: DEFAULT_SAMBA_KEY,
-    systemPrompt: DEFAULT_SYSTEM_PROMPT,
-    googleModels: [...DEFAULT_GOOGLE_MODELS],
-    openrouterModels: [...DEFAULT_OPENROUTER_MODELS],
-    sambaModels: [...DEFAULT_SAMBA_MODELS],
-    theme: { ...DEFAULT_THEME },
-    includeTime: false,
-    includeDate: false,
-    memories: [],
-  };
-}
-
-function saveConfig(c: AppConfig) { localStorage.setItem(LS_CONFIG, JSON.stringify(c)); }
-function loadSessions(): ChatSession[] { try { const r = localStorage.getItem(LS_SESSIONS); if (r) return JSON.parse(r); } catch {} return []; }
-function saveSessions(s: ChatSession[]) { localStorage.setItem(LS_SESSIONS, JSON.stringify(s)); }
 function loadActiveId(): string | null { return localStorage.getItem(LS_ACTIVE); }
 function saveActiveId(id: string | null) { if (id) localStorage.setItem(LS_ACTIVE, id); else localStorage.removeItem(LS_ACTIVE); }
 function loadModel(): string { return localStorage.getItem(LS_MODEL) || 'auto-gemini-flash'; }
@@ -284,10 +333,17 @@ function saveModel(m: string) { localStorage.setItem(LS_MODEL, m); }
 
 function uid(): string { return Date.now().toString(36) + Math.random().toString(36).slice(2, 8); }
 
-function generateTitle(messages: ChatMessage[]): string {
-  const first = messages.find(m => m.role === 'user');
-  if (!first) return 'New Chat';
-  return first.content.slice(0, 50) + (first.content.length > 50 ? '...' : '');
+function planContext(history: ChatMessage[], model: string, config: AppConfig, systemPrompt: string, session?: ChatSession | null): ContextPlan {
+  const { maxOutputTokens } = resolveGenerationParams(config, model, session?.params);
+  const plan = buildContext(history, model, config, systemPrompt, maxOutputTokens, summaryTokens(session?.summary));
+  // First overflow: make room for the summary that is about to be written
+  if (plan.dropped > 0 && !session?.summary) return buildContext(history, model, config, systemPrompt, maxOutputTokens, SUMMARY_RESERVE_TOKENS);
+  return plan;
+}
+
+function logContextPlan(plan: ContextPlan, addLog: (e: LogEntry) => void) {
+  if (plan.dropped === 0 && !plan.truncated) return;
+  addLog({ timestamp: Date.now(), level: 'info', message: `Context: ${plan.messages.length} msgs, ~${formatTokens(plan.used)}/${formatTokens(plan.window)} tok — ${plan.dropped} older dropped${plan.truncated ? ', oldest truncated' : ''}` });
 }
 
 function relTime(ts: number): string {
@@ -414,10 +470,316 @@ function MarkdownContent({ content }: { content: string }) {
   );
 }
 
+// =============================================================================
+// Chat Export — static markup for the HTML file and the print view
+// =============================================================================
+const EXPORT_FORMATS: [ExportFormat, string][] = [['md', 'Markdown'], ['html', 'HTML'], ['print', 'Print / PDF']];
+
+function ExportedChat({ session }: { session: ChatSession }) {
+  return (
+    <article>
+      <h1 className="title">{session.title}</h1>
+      <p className="meta">{formatExportDate(session.createdAt)} · exported from DophyAI</p>
+      {exportMessages(session).map(({ message, author, thinking, body, sources, images }) => (
+        <section key={message.id} className={message.role}>
+          <p className="author">{author}</p>
+          {thinking && <details><summary>Thinking</summary><MarkdownContent content={thinking} /></details>}
+          {images.length > 0 && <div className="images">{images.map((src, i) => <img key={i} src={src} alt="" />)}</div>}
+          {body && <div className="content">{message.role === 'user' ? body : <MarkdownContent content={body} />}</div>}
+          {sources.length > 0 && <ol className="sources">{sources.map((s, i) => <li key={i}><a href={s.url}>{s.title}</a></li>)}</ol>}
+        </section>
+      ))}
+    </article>
+  );
+}
+
+/** Downloads Markdown or HTML, or opens the print view; `name` titles the file */
+async function exportChats(sessions: ChatSession[], format: ExportFormat, name: string): Promise<void> {
+  if (format === 'md') { downloadFile(chatsToMarkdown(sessions), exportFileName(name, 'md'), 'text/markdown'); return; }
+  const show = format === 'print' ? openPrintWindow() : null;
+  const body = renderToStaticMarkup(<>{sessions.map(s => <ExportedChat key={s.id} session={s} />)}</>);
+  const html = await htmlDocument(sessions.length === 1 ? sessions[0].title : 'DophyAI chats', body, format === 'print');
+  if (show) show(html); else downloadFile(html, exportFileName(name, 'html'), 'text/html');
+}
+
+function ExportPanel({ session, onClose }: { session: ChatSession; onClose: () => void }) {
+  const [error, setError] = useState<string | null>(null);
+  const run = (format: ExportFormat) => {
+    setError(null);
+    exportChats([session], format, session.title).then(onClose, err => setError(err instanceof Error ? err.message : 'Export failed'));
+  };
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2">
+        {EXPORT_FORMATS.map(([format, label]) => (
+          <button key={format} onClick={() => run(format)} className="rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3 py-2 text-xs font-medium text-[var(--c-text2)] hover:border-[var(--c-accent-border)] hover:bg-[var(--c-accent-bg)] active:scale-[0.98] touch-manipulation">{label}</button>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </>
+  );
+}
+
+// =============================================================================
+// Custom Endpoint Editor
+// =============================================================================
+function EndpointCard({ endpoint, onChange, onRemove }: {
+  endpoint: CustomEndpoint;
+  onChange: (patch: Partial<CustomEndpoint>) => void;
+  onRemove: () => void;
+}) {
+  const [headersText, setHeadersText] = useState(() => formatHeaderLines(endpoint.headers));
+  const [newModel, setNewModel] = useState('');
+  const inputCls = 'w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)]';
+
+  const addModel = () => { const m = newModel.trim(); if (m && !endpoint.models.includes(m)) { onChange({ models: [...endpoint.models, m] }); setNewModel(''); } };
+
+  return (
+    <div className="space-y-2 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] p-3">
+      <div className="flex items-center gap-2">
+        <input type="text" value={endpoint.name} onChange={e => onChange({ name: e.target.value })} placeholder="Name (e.g. Home GPU)" className={`${inputCls} font-medium`} />
+        <button onClick={() => { if (confirm('Remove this endpoint?')) onRemove(); }} className="shrink-0 rounded p-2 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 active:scale-95 touch-manipulation" title="Remove endpoint"><IconTrash className="w-3.5 h-3.5" /></button>
+      </div>
+      <input type="text" value={endpoint.baseUrl} onChange={e => onChange({ baseUrl: e.target.value })} placeholder="http://localhost:8080/v1" className={`${inputCls} font-mono`} />
+      <input type="text" value={endpoint.apiKey} onChange={e => onChange({ apiKey: e.target.value })} placeholder="Bearer key (optional)" className={`${inputCls} font-mono`} />
+      <textarea value={headersText} onChange={e => setHeadersText(e.target.value)} onBlur={() => onChange({ headers: parseHeaderLines(headersText) })} rows={2} placeholder="Extra headers, one per line (Header: value)" className={`${inputCls} resize-none font-mono text-xs`} />
+      <div className="space-y-1">
+        {endpoint.models.map((m, i) => (
+          <div key={m} className="group flex items-center gap-2 rounded-lg bg-[var(--c-bg2)] px-3 py-2">
+            <span className="flex-1 truncate text-xs font-mono text-[var(--c-text2)]">{m}</span>
+            <button onClick={() => onChange({ models: endpoint.models.filter((_, j) => j !== i) })} className="rounded p-1 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3 h-3" /></button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input type="text" value={newModel} onChange={e => setNewModel(e.target.value)} onKeyDown={e => e.key === 'Enter' && addModel()} placeholder="model-id" className={`${inputCls} flex-1 font-mono`} />
+        <button onClick={addModel} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" /></button>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Generation Parameters Editor
+// =============================================================================
+type NumericParam = Exclude<keyof GenerationParams, 'stopSequences'>;
+
+const PARAM_FIELDS: { key: NumericParam; label: string; step: number; min?: number; max?: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.1, min: 0, max: 2 },
+  { key: 'topP', label: 'Top P', step: 0.05, min: 0, max: 1 },
+  { key: 'topK', label: 'Top K', step: 1, min: 0 },
+  { key: 'maxOutputTokens', label: 'Max tokens', step: 256, min: 1 },
+  { key: 'seed', label: 'Seed', step: 1 },
+  { key: 'presencePenalty', label: 'Presence penalty', step: 0.1, min: -2, max: 2 },
+  { key: 'frequencyPenalty', label: 'Frequency penalty', step: 0.1, min: -2, max: 2 },
+];
+
+function hasParams(p?: GenerationParams): boolean {
+  return !!p && Object.keys(p).length > 0;
+}
+
+/** Empty fields are left unset so the next layer (model, then provider default) applies */
+function ParamsEditor({ params, onChange, inherited }: {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  inherited?: GenerationParams;
+}) {
+  const [stopText, setStopText] = useState(() => (params.stopSequences || []).join('\n'));
+  const inputCls = 'w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-2.5 py-1.5 text-xs text-[var(--c-text)] placeholder-[var(--c-text4)] outline-none focus:border-[var(--c-accent-border)] font-mono';
+
+  const setField = (key: NumericParam, raw: string) => {
+    const next = { ...params };
+    if (raw.trim() === '') delete next[key];
+    else {
+      const n = Number(raw);
+      if (!Number.isFinite(n)) return;
+      next[key] = n;
+    }
+    onChange(next);
+  };
+
+  const commitStop = () => {
+    const stops = stopText.split('\n').map(s => s.trim()).filter(Boolean);
+    const next = { ...params };
+    if (stops.length) next.stopSequences = stops; else delete next.stopSequences;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {PARAM_FIELDS.map(f => (
+          <label key={f.key} className="block">
+            <span className="mb-1 block text-[10px] text-[var(--c-text3)]">{f.label}</span>
+            <input type="number" step={f.step} min={f.min} max={f.max} value={params[f.key] ?? ''} onChange={e => setField(f.key, e.target.value)} placeholder={inherited?.[f.key] !== undefined ? String(inherited[f.key]) : 'default'} className={inputCls} />
+          </label>
+        ))}
+      </div>
+      <label className="block">
+        <span className="mb-1 block text-[10px] text-[var(--c-text3)]">Stop sequences (one per line)</span>
+        <textarea value={stopText} onChange={e => setStopText(e.target.value)} onBlur={commitStop} rows={2} placeholder={inherited?.stopSequences?.join(' · ') || 'none'} className={`${inputCls} resize-none`} />
+      </label>
+      {hasParams(params) && (
+        <button onClick={() => { setStopText(''); onChange({}); }} className="text-[10px] text-[var(--c-text3)] hover:text-red-400 touch-manipulation">Clear overrides</button>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Prompt Presets
+// =============================================================================
+function PromptPresetCard({ preset, onChange, onDuplicate, onRemove }: {
+  preset: PromptPreset;
+  onChange: (patch: Partial<PromptPreset>) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const inputCls = 'w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)]';
+
+  return (
+    <div className="rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)]">
+      <div className="group flex items-center gap-2 px-3 py-2.5">
+        <button onClick={() => setOpen(o => !o)} className="flex flex-1 items-center gap-2 min-w-0 text-left touch-manipulation">
+          <IconChevron className={`w-3.5 h-3.5 shrink-0 text-[var(--c-text3)] transition-transform ${open ? 'rotate-180' : ''}`} />
+          <span className="truncate text-sm text-[var(--c-text)]">{preset.name || 'Untitled'}</span>
+        </button>
+        <button onClick={onDuplicate} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text)] sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation" title="Duplicate"><IconCopy className="w-3.5 h-3.5" /></button>
+        <button onClick={() => { if (confirm(`Delete preset "${preset.name || 'Untitled'}"?`)) onRemove(); }} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation" title="Delete"><IconTrash className="w-3.5 h-3.5" /></button>
+      </div>
+      {open && (
+        <div className="space-y-2 border-t border-[var(--c-border)] p-3">
+          <input type="text" value={preset.name} onChange={e => onChange({ name: e.target.value })} placeholder="Name (e.g. Translator)" className={`${inputCls} font-medium`} />
+          <textarea value={preset.prompt} onChange={e => onChange({ prompt: e.target.value })} rows={6} placeholder="System prompt..." className={`${inputCls} resize-none font-mono leading-relaxed`} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Header panel for pinning a persona on the active chat */
+function ChatPromptPicker({ value, presets, onChange }: {
+  value?: ChatPrompt;
+  presets: PromptPreset[];
+  onChange: (prompt: ChatPrompt | undefined) => void;
+}) {
+  const [customText, setCustomText] = useState(value?.kind === 'custom' ? value.text : '');
+  const optionCls = (active: boolean) => `rounded-lg border px-3 py-1.5 text-xs transition-all active:scale-95 touch-manipulation ${active ? 'border-[var(--c-accent)] bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'border-[var(--c-border)] text-[var(--c-text2)] hover:bg-[var(--c-surface)]'}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => onChange(undefined)} className={optionCls(!value)}>Default</button>
+        {presets.map(p => (
+          <button key={p.id} onClick={() => onChange({ kind: 'preset', presetId: p.id })} className={optionCls(value?.kind === 'preset' && value.presetId === p.id)}>{p.name || 'Untitled'}</button>
+        ))}
+        <button onClick={() => onChange({ kind: 'custom', text: customText })} className={optionCls(value?.kind === 'custom')}>Custom</button>
+      </div>
+      {value?.kind === 'custom' && (
+        <textarea value={customText} onChange={e => setCustomText(e.target.value)} onBlur={() => onChange({ kind: 'custom', text: customText })} rows={4} placeholder="System prompt for this chat only..." className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-xs leading-relaxed text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] resize-none font-mono" />
+      )}
+      {presets.length === 0 && <p className="text-[10px] text-[var(--c-text4)]">Create presets in Settings → Prompt.</p>}
+    </div>
+  );
+}
+
+// =============================================================================
+// Usage Dashboard
+// =============================================================================
+function UsageSummary({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <div className="rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3 py-2.5">
+      <p className="text-[10px] uppercase tracking-widest text-[var(--c-text3)]">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-[var(--c-text)]">{formatTokens(totalTokens(totals))} <span className="text-xs font-normal text-[var(--c-text3)]">tok</span></p>
+      <p className="text-xs text-[var(--c-text2)]">{formatCost(totals.cost)}{totals.unpriced > 0 && <span className="text-[var(--c-text4)]"> · {totals.unpriced} unpriced</span>}</p>
+    </div>
+  );
+}
+
+function UsageDashboard({ config, sessions, update }: {
+  config: AppConfig;
+  sessions: ChatSession[];
+  update: (patch: Partial<AppConfig>) => void;
+}) {
+  const days = dailyUsage(config, sessions, 14);
+  const byModel = usageByModel(config, sessions);
+  const allTime = totalUsage(config, sessions);
+  const maxDay = Math.max(1, ...days.map(d => totalTokens(d.totals)));
+
+  // Every configured model plus anything that shows up in history
+  const priceModels = [...new Set([...listProviders(config).flatMap(p => p.models.get(config)), ...Object.keys(byModel)])];
+
+  const setPrice = (model: string, field: keyof ModelPrice, raw: string) => {
+    const current = getModelPrice(config, model) || { input: 0, output: 0 };
+    const n = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(n) || n < 0) return;
+    update({ modelPrices: { ...config.modelPrices, [model]: { ...current, [field]: n } } });
+  };
+  const resetPrice = (model: string) => { const next = { ...config.modelPrices }; delete next[model]; update({ modelPrices: next }); };
+  const priceInputCls = 'w-16 rounded-md border border-[var(--c-border)] bg-[var(--c-input-bg)] px-1.5 py-1 text-right text-xs text-[var(--c-text)] placeholder-[var(--c-text4)] outline-none focus:border-[var(--c-accent-border)] font-mono';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-2">
+        <UsageSummary label="Today" totals={days[0].totals} />
+        <UsageSummary label="All time" totals={allTime} />
+      </div>
+
+      <div>
+        <label className="mb-3 block text-sm font-semibold text-[var(--c-text)]">Last 14 days</label>
+        <div className="space-y-1">
+          {days.map(d => (
+            <div key={d.day} className="flex items-center gap-2 text-[11px]">
+              <span className="w-20 shrink-0 font-mono text-[var(--c-text3)]">{d.day.slice(5)}</span>
+              <div className="h-2 flex-1 rounded-full bg-[var(--c-surface)]">
+                <div className="h-2 rounded-full bg-[var(--c-accent)]" style={{ width: `${(totalTokens(d.totals) / maxDay) * 100}%` }} />
+              </div>
+              <span className="w-14 shrink-0 text-right text-[var(--c-text2)]">{formatTokens(totalTokens(d.totals))}</span>
+              <span className="w-14 shrink-0 text-right text-[var(--c-text3)]">{formatCost(d.totals.cost)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-[var(--c-border)]" />
+
+      <div>
+        <label className="mb-1 block text-sm font-semibold text-[var(--c-text)]">Models &amp; prices</label>
+        <p className="mb-3 text-xs text-[var(--c-text3)]">USD per 1M tokens (input / output). Thinking tokens are billed as output; <span className="font-mono">~</span> marks locally estimated counts.</p>
+        <div className="space-y-1">
+          {priceModels.map(m => {
+            const price = getModelPrice(config, m);
+            const t = byModel[m];
+            const overridden = !!config.modelPrices[m];
+            return (
+              <div key={m} className="flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-xs text-[var(--c-text)]">{getModelShortName(m)}</p>
+                  <p className="text-[10px] text-[var(--c-text4)]">{t ? `${formatTokens(totalTokens(t))} tok · ${t.responses} replies${price ? ` · ${formatCost(t.cost)}` : ''}` : 'unused'}</p>
+                </div>
+                <input type="number" min={0} step={0.01} value={price?.input ?? ''} placeholder="—" onChange={e => setPrice(m, 'input', e.target.value)} className={priceInputCls} title="Input" />
+                <input type="number" min={0} step={0.01} value={price?.output ?? ''} placeholder="—" onChange={e => setPrice(m, 'output', e.target.value)} className={priceInputCls} title="Output" />
+                <button onClick={() => resetPrice(m)} disabled={!overridden} className="rounded p-1 text-[var(--c-text3)] hover:text-[var(--c-text)] disabled:opacity-20 touch-manipulation" title={DEFAULT_MODEL_PRICES[m] ? 'Reset to list price' : 'Clear price'}><IconRefresh className="w-3 h-3" /></button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // Settings Panel
 // =============================================================================
-type SettingsTab = 'keys' | 'models' | 'theme' | 'prompt' | 'data' | 'logs';
+const IMPORT_STATUS_STYLES: Record<ImportItem['status'], string> = {
+  new: 'bg-emerald-500/10 text-emerald-400',
+  changed: 'bg-sky-500/10 text-sky-400',
+  conflict: 'bg-amber-500/10 text-amber-400',
+};
+
+type SettingsTab = 'keys' | 'models' | 'theme' | 'prompt' | 'usage' | 'data' | 'logs';
 
 interface SettingsPanelProps {
   open: boolean;
@@ -433,16 +795,25 @@ interface SettingsPanelProps {
 
 function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sessions, setSessions, setActiveSessionId }: SettingsPanelProps) {
   const [tab, setTab] = useState<SettingsTab>('keys');
-  const [newKey, setNewKey] = useState('');
-  const [newGoogleModel, setNewGoogleModel] = useState('');
-  const [newOrModel, setNewOrModel] = useState('');
-  const [newSambaModel, setNewSambaModel] = useState('');
+  const [newKeys, setNewKeys] = useState<Record<string, string>>({});
+  const [newModels, setNewModels] = useState<Record<string, string>>({});
+  const [discoverStatus, setDiscoverStatus] = useState<Record<string, string>>({});
+  const [paramsModel, setParamsModel] = useState<string | null>(null);
   const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
+  const [encParts, setEncParts] = useState<BackupPart[]>(['keys', 'settings', 'chats', 'memories']);
+  const [encPass, setEncPass] = useState('');
+  const [encPass2, setEncPass2] = useState('');
+  const [encBusy, setEncBusy] = useState(false);
+  const [pendingEncrypted, setPendingEncrypted] = useState<EncryptedBackup | null>(null);
+  const [importPass, setImportPass] = useState('');
+  const [importPlan, setImportPlan] = useState<{ items: ImportItem[]; choices: Record<string, ImportAction>; errors: ConfigFieldError[] } | null>(null);
   const [newMemory, setNewMemory] = useState('');
   const logsEndRef = useRef<HTMLDivElement>(null);
   const importFileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => { if (tab === 'logs' && logsEndRef.current) logsEndRef.current.scrollIntoView({ behavior: 'smooth' }); }, [logs, tab]);
+  useEffect(() => { if (open && tab === 'data') getStorageInfo().then(setStorageInfo); }, [open, tab, sessions]);
 
   const update = useCallback((patch: Partial<AppConfig>) => {
     const u = { ...config, ...patch };
@@ -450,15 +821,32 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
     saveConfig(u);
   }, [config, setConfig]);
 
-  const addGoogleKey = () => { const k = newKey.trim(); if (k && !config.googleKeys.includes(k)) { update({ googleKeys: [...config.googleKeys, k] }); setNewKey(''); } };
-  const removeGoogleKey = (i: number) => update({ googleKeys: config.googleKeys.filter((_, j) => j !== i) });
+  const addKey = (p: ProviderDefinition) => { const keys = p.keys!.get(config); const k = (newKeys[p.id] || '').trim(); if (k && !keys.includes(k)) { update(p.keys!.set([...keys, k], config)); setNewKeys(s => ({ ...s, [p.id]: '' })); } };
+  const removeKey = (p: ProviderDefinition, i: number) => update(p.keys!.set(p.keys!.get(config).filter((_, j) => j !== i), config));
 
-  const addGoogleModel = () => { const m = newGoogleModel.trim(); if (m && !config.googleModels.includes(m)) { update({ googleModels: [...config.googleModels, m] }); setNewGoogleModel(''); } };
-  const removeGoogleModel = (i: number) => update({ googleModels: config.googleModels.filter((_, j) => j !== i) });
-  const addOrModel = () => { const m = newOrModel.trim(); if (m && !config.openrouterModels.includes(m)) { update({ openrouterModels: [...config.openrouterModels, m] }); setNewOrModel(''); } };
-  const removeOrModel = (i: number) => update({ openrouterModels: config.openrouterModels.filter((_, j) => j !== i) });
-  const addSambaModel = () => { const m = newSambaModel.trim(); if (m && !config.sambaModels.includes(m)) { update({ sambaModels: [...config.sambaModels, m] }); setNewSambaModel(''); } };
-  const removeSambaModel = (i: number) => update({ sambaModels: config.sambaModels.filter((_, j) => j !== i) });
+  const addModel = (p: ProviderDefinition) => { const models = p.models.get(config); const m = (newModels[p.id] || '').trim(); if (m && !models.includes(m)) { update(p.models.set([...models, m], config)); setNewModels(s => ({ ...s, [p.id]: '' })); } };
+  const discoverModels = async (p: ProviderDefinition) => {
+    if (!p.models.discover) return;
+    setDiscoverStatus(s => ({ ...s, [p.id]: 'Detecting...' }));
+    try {
+      const found = await p.models.discover(config);
+      update(p.models.set(found, config));
+      setDiscoverStatus(s => ({ ...s, [p.id]: `Found ${found.length} model${found.length === 1 ? '' : 's'}` }));
+    } catch (err) {
+      setDiscoverStatus(s => ({ ...s, [p.id]: `Error: ${err instanceof Error ? err.message : 'Request failed'}` }));
+    }
+    setTimeout(() => setDiscoverStatus(s => { const n = { ...s }; delete n[p.id]; return n; }), 4000);
+  };
+  const setModelParams = (model: string, params: GenerationParams) => {
+    const next = { ...config.modelParams };
+    if (hasParams(params)) next[model] = params; else delete next[model];
+    update({ modelParams: next });
+  };
+  const removeModel = (p: ProviderDefinition, i: number) => update(p.models.set(p.models.get(config).filter((_, j) => j !== i), config));
+
+  const addEndpoint = () => update({ customEndpoints: [...config.customEndpoints, { id: uid(), name: '', baseUrl: 'http://localhost:8080/v1', apiKey: '', headers: {}, models: [] }] });
+  const updateEndpoint = (id: string, patch: Partial<CustomEndpoint>) => update({ customEndpoints: config.customEndpoints.map(e => e.id === id ? { ...e, ...patch } : e) });
+  const removeEndpoint = (id: string) => update({ customEndpoints: config.customEndpoints.filter(e => e.id !== id) });
 
   const updateTheme = (mode: ThemeMode) => { const t: ThemeConfig = { mode }; update({ theme: t }); applyThemeToDOM(t); };
 
@@ -471,57 +859,118 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
   };
   const removeMemory = (i: number) => update({ memories: config.memories.filter((_, j) => j !== i) });
 
-  const exportData = useCallback((type: 'all' | 'chats' | 'keys') => {
-    const data: Record<string, unknown> = { exportedAt: new Date().toISOString(), version: 4, app: 'DophyAI' };
-    if (type === 'all' || type === 'chats') data.sessions = sessions;
-    if (type === 'all' || type === 'keys') data.config = { googleKeys: config.googleKeys, openrouterKey: config.openrouterKey, sambaKey: config.sambaKey, systemPrompt: config.systemPrompt, googleModels: config.googleModels, openrouterModels: config.openrouterModels, sambaModels: config.sambaModels, theme: config.theme, includeTime: config.includeTime, includeDate: config.includeDate, memories: config.memories };
+  const addPreset = (from?: PromptPreset) => update({ promptPresets: [...config.promptPresets, { id: uid(), name: from ? `${from.name} (copy)` : '', prompt: from ? from.prompt : config.systemPrompt }] });
+  const updatePreset = (id: string, patch: Partial<PromptPreset>) => update({ promptPresets: config.promptPresets.map(p => p.id === id ? { ...p, ...patch } : p) });
+  const removePreset = (id: string) => update({ promptPresets: config.promptPresets.filter(p => p.id !== id) });
+
+  const exportData = useCallback((type: 'all' | 'chats' | 'keys' | 'presets') => {
+    const data = createBackup({
+      sessions: type === 'all' || type === 'chats' ? sessions : undefined,
+      config: type === 'all' || type === 'keys' ? config : type === 'chats' ? { chatFolders: config.chatFolders } : undefined,
+      promptPresets: type === 'presets' ? config.promptPresets : undefined,
+    });
+    downloadJson(data, type);
+    setImportStatus(`Exported ${type}`); setTimeout(() => setImportStatus(null), 3000);
+  }, [sessions, config]);
+
+  const trashCount = sessions.filter(isTrashed).length;
+  const archivedCount = sessions.filter(s => s.archived && !isTrashed(s)).length;
+
+  const exportAllChats = (format: ExportFormat) => {
+    const chats = sessions.filter(s => !isTrashed(s));
+    exportChats(chats, format, 'chats').then(
+      () => setImportStatus(format === 'print' ? 'Opened print view' : `Exported ${chats.length} chats`),
+      err => setImportStatus(`Error: ${err instanceof Error ? err.message : 'Export failed'}`),
+    ).finally(() => setTimeout(() => setImportStatus(null), 3000));
+  };
+
+  const downloadJson = (data: unknown, name: string) => {
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const a = document.createElement('a'); a.href = URL.createObjectURL(blob);
-    a.download = `dophy-${type}-${new Date().toISOString().slice(0, 10)}.json`;
+    a.download = `dophy-${name}-${new Date().toISOString().slice(0, 10)}.json`;
     a.click(); URL.revokeObjectURL(a.href);
-    setImportStatus(`Exported ${type}`); setTimeout(() => setImportStatus(null), 3000);
+  };
+
+  const exportEncrypted = async () => {
+    if (encPass !== encPass2) { setImportStatus('Error: passphrases do not match'); setTimeout(() => setImportStatus(null), 3000); return; }
+    setEncBusy(true);
+    try {
+      downloadJson(await encryptBackup(createPartialBackup(config, sessions, encParts), encPass), 'encrypted');
+      setEncPass(''); setEncPass2('');
+      setImportStatus(`Exported encrypted ${encParts.join(', ')}`);
+    } catch (err) { setImportStatus(`Error: ${err instanceof Error ? err.message : 'Encryption failed'}`); }
+    setEncBusy(false);
+    setTimeout(() => setImportStatus(null), 3000);
+  };
+
+  const applyBackup = useCallback((raw: unknown) => {
+    try {
+      const foreign = importForeignChats(raw);
+      if (foreign) {
+        const messages = foreign.sessions.reduce((n, s) => n + s.messages.length, 0);
+        const items = planImport({ config, sessions }, { sessions: foreign.sessions });
+        const skipped = foreign.skipped.length ? `; skipped ${foreign.skipped.join(', ')}` : '';
+        if (items.length > 0) setImportPlan({ items, choices: {}, errors: [] });
+        setImportStatus(`Found ${foreign.sessions.length} chats (${messages} messages) from ${foreign.source}${items.length === 0 && foreign.sessions.length > 0 ? ', all imported before' : ''}${skipped}`);
+        setTimeout(() => setImportStatus(null), 8000);
+        return;
+      }
+      const data = readBackup(raw);
+      const items = planImport({ config, sessions }, data);
+      // Nothing is written until the preview is confirmed
+      if (items.length > 0) { setImportPlan({ items, choices: {}, errors: data.errors }); return; }
+      setImportStatus(data.errors.length ? `No new data; skipped ${data.errors.length} invalid (${formatFieldErrors(data.errors)})` : 'No new data');
+    } catch (err) { setImportStatus(`Error: ${err instanceof Error ? err.message : 'Invalid file'}`); }
+    setTimeout(() => setImportStatus(null), 5000);
   }, [sessions, config]);
 
+  const confirmImport = () => {
+    if (!importPlan) return;
+    const { items, choices, errors } = importPlan;
+    const taken = items.filter(i => (choices[i.id] ?? i.actions[0]) !== 'keep');
+    const next = applyImport({ config, sessions }, items, choices);
+    if (taken.some(i => i.kind === 'chat')) setSessions(next.sessions);
+    if (taken.some(i => i.kind !== 'chat')) {
+      setConfig(next.config); saveConfig(next.config);
+      if (next.config.theme !== config.theme) applyThemeToDOM(next.config.theme);
+    }
+    setImportPlan(null);
+    const summary = taken.length ? `Imported ${taken.length} of ${items.length} changes` : 'Nothing imported';
+    setImportStatus(errors.length ? `${summary}; skipped ${errors.length} invalid (${formatFieldErrors(errors)})` : summary);
+    setTimeout(() => setImportStatus(null), 5000);
+  };
+
   const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]; if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
-      try {
-        const data = JSON.parse(ev.target?.result as string);
-        const imported: string[] = [];
-        if (data.sessions && Array.isArray(data.sessions)) {
-          const ids = new Set(sessions.map(s => s.id));
-          const newS = data.sessions.filter((s: ChatSession) => !ids.has(s.id));
-          if (newS.length > 0) { const m = [...sessions, ...newS]; setSessions(m); saveSessions(m); imported.push(`${newS.length} chats`); }
-        }
-        if (data.config) {
-          const nc = { ...config };
-          if (Array.isArray(data.config.googleKeys)) { const nk = data.config.googleKeys.filter((k: string) => !config.googleKeys.includes(k)); if (nk.length) { nc.googleKeys = [...config.googleKeys, ...nk]; imported.push(`${nk.length} API keys`); } }
-          if (typeof data.config.openrouterKey === 'string' && data.config.openrouterKey) { nc.openrouterKey = data.config.openrouterKey; imported.push('OR key'); }
-          if (typeof data.config.sambaKey === 'string' && data.config.sambaKey) { nc.sambaKey = data.config.sambaKey; imported.push('Samba key'); }
-          if (typeof data.config.systemPrompt === 'string') { nc.systemPrompt = data.config.systemPrompt; imported.push('prompt'); }
-          if (Array.isArray(data.config.googleModels)) { const nm = data.config.googleModels.filter((m: string) => !config.googleModels.includes(m)); if (nm.length) { nc.googleModels = [...config.googleModels, ...nm]; imported.push(`${nm.length} Google models`); } }
-          if (Array.isArray(data.config.openrouterModels)) { const nm = data.config.openrouterModels.filter((m: string) => !config.openrouterModels.includes(m)); if (nm.length) { nc.openrouterModels = [...config.openrouterModels, ...nm]; imported.push(`${nm.length} OR models`); } }
-          if (Array.isArray(data.config.sambaModels)) { const nm = data.config.sambaModels.filter((m: string) => !config.sambaModels.includes(m)); if (nm.length) { nc.sambaModels = [...config.sambaModels, ...nm]; imported.push(`${nm.length} Samba models`); } }
-          if (data.config.theme && data.config.theme.mode) { nc.theme = { mode: data.config.theme.mode }; applyThemeToDOM(nc.theme); imported.push('theme'); }
-          if (typeof data.config.includeTime === 'boolean') { nc.includeTime = data.config.includeTime; }
-          if (typeof data.config.includeDate === 'boolean') { nc.includeDate = data.config.includeDate; }
-          if (Array.isArray(data.config.memories)) { const nm = data.config.memories.filter((m: string) => !config.memories.includes(m)); if (nm.length) { nc.memories = [...config.memories, ...nm]; imported.push(`${nm.length} memories`); } }
-          setConfig(nc); saveConfig(nc);
-        }
-        setImportStatus(imported.length ? `Imported: ${imported.join(', ')}` : 'No new data');
-      } catch (err) { setImportStatus(`Error: ${err instanceof Error ? err.message : 'Invalid file'}`); }
-      setTimeout(() => setImportStatus(null), 5000);
+      let data: unknown;
+      try { data = JSON.parse(ev.target?.result as string); } catch { setImportStatus('Error: Invalid file'); setTimeout(() => setImportStatus(null), 5000); return; }
+      // Encrypted files wait for the passphrase below the import button
+      if (isEncryptedBackup(data)) { setPendingEncrypted(data); setImportPass(''); return; }
+      applyBackup(data);
     };
     reader.readAsText(file);
     if (importFileRef.current) importFileRef.current.value = '';
-  }, [sessions, config, setConfig, setSessions]);
+  }, [applyBackup]);
+
+  const decryptPending = async () => {
+    if (!pendingEncrypted) return;
+    setEncBusy(true);
+    try {
+      const data = await decryptBackup(pendingEncrypted, importPass);
+      setPendingEncrypted(null); setImportPass('');
+      applyBackup(data);
+    } catch (err) { setImportStatus(`Error: ${err instanceof Error ? err.message : 'Decryption failed'}`); setTimeout(() => setImportStatus(null), 5000); }
+    setEncBusy(false);
+  };
 
   const tabs: { id: SettingsTab; icon: React.ReactNode; label: string }[] = [
     { id: 'keys', icon: <IconKey className="w-4 h-4" />, label: 'API' },
     { id: 'models', icon: <IconChip className="w-4 h-4" />, label: 'Models' },
     { id: 'theme', icon: <IconSun className="w-4 h-4" />, label: 'Theme' },
     { id: 'prompt', icon: <IconPrompt className="w-4 h-4" />, label: 'Prompt' },
+    { id: 'usage', icon: <IconChart className="w-4 h-4" />, label: 'Usage' },
     { id: 'data', icon: <IconDatabase className="w-4 h-4" />, label: 'Data' },
     { id: 'logs', icon: <IconTerminal className="w-4 h-4" />, label: 'Logs' },
   ];
@@ -550,51 +999,79 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
           {/* ====== API Keys ====== */}
           {tab === 'keys' && (
             <div className="space-y-6">
-              <div>
-                <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
-                  <IconGoogle className="w-4 h-4 text-blue-400" /> Google Gemini Keys
-                  <span className="ml-auto rounded-full bg-[var(--c-accent-bg)] px-2 py-0.5 text-xs text-[var(--c-accent-t)]">{config.googleKeys.length}</span>
-                </label>
-                {config.googleKeys.length === 0 && (
-                  <div className="mb-3 rounded-xl border border-amber-500/20 bg-amber-500/5 p-3 text-xs text-amber-400 flex items-start gap-2">
-                    <IconWarning className="w-4 h-4 shrink-0 mt-0.5" />
-                    <span>No API keys. Get one free at <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="underline font-medium">aistudio.google.com</a></span>
-                  </div>
-                )}
-                <div className="space-y-1.5">
-                  {config.googleKeys.map((key, i) => (
-                    <div key={i} className="group flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2.5">
-                      <code className="flex-1 truncate text-xs text-[var(--c-text2)] font-mono">{key.slice(0, 10)}...{key.slice(-4)}</code>
-                      <button onClick={() => removeGoogleKey(i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-3 flex gap-2">
-                  <input type="text" value={newKey} onChange={e => setNewKey(e.target.value)} onKeyDown={e => e.key === 'Enter' && addGoogleKey()} placeholder="AIzaSy..." className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
-                  <button onClick={addGoogleKey} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" />Add</button>
-                </div>
-              </div>
-              <div className="border-t border-[var(--c-border)]" />
-              <div>
-                <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconDeepSeek className="w-4 h-4 text-emerald-400" /> OpenRouter Key</label>
-                {!config.openrouterKey && (
-                  <div className="mb-3 rounded-xl border border-emerald-500/20 bg-emerald-500/5 p-3 text-xs text-emerald-400 flex items-start gap-2">
-                    <IconKey className="w-4 h-4 shrink-0 mt-0.5" />
-                    <span>Get a free API key at <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="underline font-medium">openrouter.ai/keys</a></span>
+              {listProviders().filter(p => p.keys || p.connection).map((p, idx) => {
+                const spec = p.keys;
+                const keys = spec ? spec.get(config) : [];
+                return (
+                  <div key={p.id} className="space-y-6">
+                    {idx > 0 && <div className="border-t border-[var(--c-border)]" />}
+                    {!spec ? (
+                      <div>
+                        <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><ProviderIcon provider={p} className={`w-4 h-4 ${p.style.text}`} /> {p.label} URL</label>
+                        {p.connection?.hint && (
+                          <div className={`mb-3 rounded-xl border p-3 text-xs flex items-start gap-2 ${p.style.hint}`}>
+                            <IconServer className="w-4 h-4 shrink-0 mt-0.5" />
+                            <span>{p.connection.hint}</span>
+                          </div>
+                        )}
+                        <input type="text" value={p.connection?.get(config) || ''} onChange={e => update(p.connection!.set(e.target.value, config))} placeholder={p.connection?.placeholder} className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
+                        <p className="mt-1 text-xs text-[var(--c-text3)]">No API key needed. Leave empty to disable.</p>
+                      </div>
+                    ) : spec.kind === 'list' ? (
+                      <div>
+                        <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
+                          <ProviderIcon provider={p} className={`w-4 h-4 ${p.style.text}`} /> {p.label} Keys
+                          <span className={`ml-auto rounded-full px-2 py-0.5 text-xs ${p.style.pill}`}>{keys.length}</span>
+                        </label>
+                        {keys.length === 0 && spec.helpUrl && (
+                          <div className={`mb-3 rounded-xl border p-3 text-xs flex items-start gap-2 ${p.style.hint}`}>
+                            <IconWarning className="w-4 h-4 shrink-0 mt-0.5" />
+                            <span>No API keys. Get one free at <a href={spec.helpUrl} target="_blank" rel="noopener noreferrer" className="underline font-medium">{spec.helpLabel}</a></span>
+                          </div>
+                        )}
+                        <div className="space-y-1.5">
+                          {keys.map((key, i) => (
+                            <div key={i} className="group flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2.5">
+                              <code className="flex-1 truncate text-xs text-[var(--c-text2)] font-mono">{key.slice(0, 10)}...{key.slice(-4)}</code>
+                              <button onClick={() => removeKey(p, i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="mt-3 flex gap-2">
+                          <input type="text" value={newKeys[p.id] || ''} onChange={e => setNewKeys(s => ({ ...s, [p.id]: e.target.value }))} onKeyDown={e => e.key === 'Enter' && addKey(p)} placeholder={spec.placeholder} className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
+                          <button onClick={() => addKey(p)} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" />Add</button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><ProviderIcon provider={p} className={`w-4 h-4 ${p.style.text}`} /> {p.label} Key</label>
+                        {keys.length === 0 && spec.helpUrl && (
+                          <div className={`mb-3 rounded-xl border p-3 text-xs flex items-start gap-2 ${p.style.hint}`}>
+                            <IconKey className="w-4 h-4 shrink-0 mt-0.5" />
+                            <span>Get a free API key at <a href={spec.helpUrl} target="_blank" rel="noopener noreferrer" className="underline font-medium">{spec.helpLabel}</a></span>
+                          </div>
+                        )}
+                        <input type="text" value={keys[0] || ''} onChange={e => update(spec.set([e.target.value], config))} placeholder={spec.placeholder} className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
+                      </div>
+                    )}
                   </div>
-                )}
-                <input type="text" value={config.openrouterKey} onChange={e => update({ openrouterKey: e.target.value })} placeholder="sk-or-..." className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
-              </div>
+                );
+              })}
               <div className="border-t border-[var(--c-border)]" />
               <div>
-                <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconSamba className="w-4 h-4 text-orange-400" /> SambaNova Key</label>
-                {!config.sambaKey && (
-                  <div className="mb-3 rounded-xl border border-orange-500/20 bg-orange-500/5 p-3 text-xs text-orange-400 flex items-start gap-2">
-                    <IconKey className="w-4 h-4 shrink-0 mt-0.5" />
-                    <span>Get a free API key at <a href="https://cloud.sambanova.ai/apis" target="_blank" rel="noopener noreferrer" className="underline font-medium">cloud.sambanova.ai</a></span>
+                <div className="mb-3 flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconServer className="w-4 h-4 text-sky-400" /> Custom Endpoints <span className="rounded-full bg-sky-500/10 px-2 py-0.5 text-xs text-sky-400">{config.customEndpoints.length}</span></label>
+                  <button onClick={addEndpoint} className="flex items-center gap-1.5 rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation"><IconPlus className="w-3 h-3" />Add</button>
+                </div>
+                {config.customEndpoints.length === 0 ? (
+                  <p className="text-xs text-[var(--c-text3)]">Any OpenAI-compatible server: llama.cpp, vLLM, Ollama (<code className="font-mono">/v1</code>), LM Studio. The server must allow CORS from this page.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {config.customEndpoints.map(ep => (
+                      <EndpointCard key={ep.id} endpoint={ep} onChange={patch => updateEndpoint(ep.id, patch)} onRemove={() => removeEndpoint(ep.id)} />
+                    ))}
                   </div>
                 )}
-                <input type="text" value={config.sambaKey} onChange={e => update({ sambaKey: e.target.value })} placeholder="api key..." className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
               </div>
             </div>
           )}
@@ -602,63 +1079,46 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
           {/* ====== Models ====== */}
           {tab === 'models' && (
             <div className="space-y-6">
-              <div>
-                <div className="mb-3 flex items-center justify-between">
-                  <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconGoogle className="w-4 h-4 text-blue-400" /> Google <span className="rounded-full bg-[var(--c-accent-bg)] px-2 py-0.5 text-xs text-[var(--c-accent-t)]">{config.googleModels.length}</span></label>
-                  <button onClick={() => update({ googleModels: [...DEFAULT_GOOGLE_MODELS] })} className="rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation">Reset</button>
-                </div>
-                <div className="space-y-1">
-                  {config.googleModels.map((m, i) => (
-                    <div key={i} className="group flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2.5">
-                      <span className="flex-1 truncate text-sm text-[var(--c-text)]">{m}</span>
-                      {isImageCapableModel(m) && <span className="rounded bg-violet-500/20 px-1 py-0.5 text-[9px] font-bold text-violet-400">IMG</span>}
-                      <button onClick={() => removeGoogleModel(i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-2 flex gap-2">
-                  <input type="text" value={newGoogleModel} onChange={e => setNewGoogleModel(e.target.value)} onKeyDown={e => e.key === 'Enter' && addGoogleModel()} placeholder="gemini-..." className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)]" />
-                  <button onClick={addGoogleModel} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" /></button>
-                </div>
-              </div>
-              <div className="border-t border-[var(--c-border)]" />
-              <div>
-                <div className="mb-3 flex items-center justify-between">
-                  <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconSamba className="w-4 h-4 text-orange-400" /> SambaNova <span className="rounded-full bg-orange-500/10 px-2 py-0.5 text-xs text-orange-400">{config.sambaModels.length}</span></label>
-                  <button onClick={() => update({ sambaModels: [...DEFAULT_SAMBA_MODELS] })} className="rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation">Reset</button>
-                </div>
-                <div className="space-y-1">
-                  {config.sambaModels.map((m, i) => (
-                    <div key={i} className="group flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2.5">
-                      <span className="flex-1 truncate text-sm text-[var(--c-text)]">{m}</span>
-                      <button onClick={() => removeSambaModel(i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-2 flex gap-2">
-                  <input type="text" value={newSambaModel} onChange={e => setNewSambaModel(e.target.value)} onKeyDown={e => e.key === 'Enter' && addSambaModel()} placeholder="Model-Name" className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)]" />
-                  <button onClick={addSambaModel} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" /></button>
-                </div>
-              </div>
-              <div className="border-t border-[var(--c-border)]" />
-              <div>
-                <div className="mb-3 flex items-center justify-between">
-                  <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconDeepSeek className="w-4 h-4 text-emerald-400" /> OpenRouter <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-xs text-emerald-400">{config.openrouterModels.length}</span></label>
-                  <button onClick={() => update({ openrouterModels: [...DEFAULT_OPENROUTER_MODELS] })} className="rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation">Reset</button>
-                </div>
-                <div className="space-y-1">
-                  {config.openrouterModels.map((m, i) => (
-                    <div key={i} className="group flex items-center gap-2 rounded-lg bg-[var(--c-surface)] px-3 py-2.5">
-                      <span className="flex-1 truncate text-sm text-[var(--c-text)]">{getModelShortName(m)}</span>
-                      <button onClick={() => removeOrModel(i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
+              {listProviders(config).map((p, idx) => {
+                const models = p.models.get(config);
+                return (
+                  <div key={p.id} className="space-y-6">
+                    {idx > 0 && <div className="border-t border-[var(--c-border)]" />}
+                    <div>
+                      <div className="mb-3 flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><ProviderIcon provider={p} className={`w-4 h-4 ${p.style.text}`} /> {p.label} <span className={`rounded-full px-2 py-0.5 text-xs ${p.style.pill}`}>{models.length}</span></label>
+                        {p.models.discover ? (
+                          <button onClick={() => discoverModels(p)} className="flex items-center gap-1 rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation"><IconRefresh className="w-3 h-3" />Detect</button>
+                        ) : (
+                          <button onClick={() => update(p.models.set([...p.models.defaults], config))} className="rounded-lg border border-[var(--c-border)] px-2.5 py-1 text-[10px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation">Reset</button>
+                        )}
+                      </div>
+                      {discoverStatus[p.id] && <p className={`mb-2 text-xs ${discoverStatus[p.id].startsWith('Error') ? 'text-red-400' : 'text-[var(--c-text3)]'}`}>{discoverStatus[p.id]}</p>}
+                      <div className="space-y-1">
+                        {models.map((m, i) => (
+                          <div key={i} className="rounded-lg bg-[var(--c-surface)]">
+                            <div className="group flex items-center gap-2 px-3 py-2.5">
+                              <span className="flex-1 truncate text-sm text-[var(--c-text)]">{getModelShortName(m)}</span>
+                              {p.capabilities.imageOutput && isImageCapableModel(m) && <span className="rounded bg-violet-500/20 px-1 py-0.5 text-[9px] font-bold text-violet-400">IMG</span>}
+                              <button onClick={() => setParamsModel(paramsModel === m ? null : m)} className={`rounded p-1.5 transition-all active:scale-95 touch-manipulation ${hasParams(config.modelParams[m]) ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text3)] sm:opacity-0 sm:group-hover:opacity-100'} hover:bg-[var(--c-surface-h)]`} title="Generation parameters"><IconSliders className="w-3.5 h-3.5" /></button>
+                              <button onClick={() => removeModel(p, i)} className="rounded p-1.5 text-[var(--c-text3)] transition-all hover:bg-red-500/20 hover:text-red-400 sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation"><IconTrash className="w-3.5 h-3.5" /></button>
+                            </div>
+                            {paramsModel === m && (
+                              <div className="border-t border-[var(--c-border)] px-3 py-3">
+                                <ParamsEditor params={config.modelParams[m] || {}} onChange={params => setModelParams(m, params)} />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="mt-2 flex gap-2">
+                        <input type="text" value={newModels[p.id] || ''} onChange={e => setNewModels(s => ({ ...s, [p.id]: e.target.value }))} onKeyDown={e => e.key === 'Enter' && addModel(p)} placeholder={p.models.placeholder} className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)]" />
+                        <button onClick={() => addModel(p)} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" /></button>
+                      </div>
                     </div>
-                  ))}
-                </div>
-                <div className="mt-2 flex gap-2">
-                  <input type="text" value={newOrModel} onChange={e => setNewOrModel(e.target.value)} onKeyDown={e => e.key === 'Enter' && addOrModel()} placeholder="provider/model:free" className="flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2.5 text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none focus:border-[var(--c-accent-border)] font-mono" />
-                  <button onClick={addOrModel} className="flex items-center gap-1.5 rounded-lg bg-[var(--c-accent)] px-3 py-2.5 text-sm font-medium text-white hover:opacity-90 active:scale-95 touch-manipulation"><IconPlus className="w-3.5 h-3.5" /></button>
-                </div>
-              </div>
+                  </div>
+                );
+              })}
             </div>
           )}
 
@@ -705,6 +1165,31 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
 
               <div className="border-t border-[var(--c-border)]" />
 
+              <div>
+                <input ref={importFileRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+                <div className="mb-1 flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
+                    <IconPrompt className="w-4 h-4 text-[var(--c-accent-t)]" />
+                    Presets
+                    {config.promptPresets.length > 0 && <span className="rounded-full bg-[var(--c-accent-bg)] px-2 py-0.5 text-xs text-[var(--c-accent-t)]">{config.promptPresets.length}</span>}
+                  </label>
+                  <div className="flex gap-1">
+                    <button onClick={() => importFileRef.current?.click()} className="rounded-lg p-1.5 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title="Import presets"><IconUpload className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => exportData('presets')} disabled={config.promptPresets.length === 0} className="rounded-lg p-1.5 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] disabled:opacity-30 active:scale-95 touch-manipulation" title="Export presets"><IconDownload className="w-3.5 h-3.5" /></button>
+                  </div>
+                </div>
+                <p className="text-xs text-[var(--c-text3)] mb-3">Named personas you can pin on individual chats from the header.</p>
+                {importStatus && <p className={`mb-2 text-xs ${importStatus.includes('Error') ? 'text-red-400' : 'text-emerald-400'}`}>{importStatus}</p>}
+                <div className="space-y-1.5 mb-2">
+                  {config.promptPresets.map(p => (
+                    <PromptPresetCard key={p.id} preset={p} onChange={patch => updatePreset(p.id, patch)} onDuplicate={() => addPreset(p)} onRemove={() => removePreset(p.id)} />
+                  ))}
+                </div>
+                <button onClick={() => addPreset()} className="flex w-full items-center justify-center gap-2 rounded-xl border-2 border-dashed border-[var(--c-border)] px-4 py-2.5 text-xs text-[var(--c-text3)] transition-all hover:border-[var(--c-accent-border)] hover:bg-[var(--c-accent-bg)] active:scale-[0.98] touch-manipulation"><IconPlus className="w-3.5 h-3.5" /> New preset from current prompt</button>
+              </div>
+
+              <div className="border-t border-[var(--c-border)]" />
+
               <div>
                 <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
                   <IconClockLg className="w-4 h-4 text-[var(--c-accent-t)]" />
@@ -731,6 +1216,46 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
 
               <div className="border-t border-[var(--c-border)]" />
 
+              <div>
+                <label className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
+                  <IconChat className="w-4 h-4 text-[var(--c-accent-t)]" />
+                  Chats
+                </label>
+                <Toggle
+                  enabled={config.autoTitles}
+                  onChange={(v) => update({ autoTitles: v })}
+                  label="Automatic Titles"
+                  description="A fast model names new chats after the first reply (needs a Google or Anthropic key)"
+                  icon={<IconWand className="w-4 h-4 text-[var(--c-accent-t)]" />}
+                />
+              </div>
+
+              {listTools().length > 0 && (
+                <>
+                  <div className="border-t border-[var(--c-border)]" />
+                  <div>
+                    <label className="mb-1 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
+                      <IconWrench className="w-4 h-4 text-[var(--c-accent-t)]" />
+                      Tools
+                    </label>
+                    <p className="mb-3 text-xs text-[var(--c-text3)]">Offered to Gemini and OpenAI-compatible models, which decide when to call them. Models without tool support reject such requests, so turn these on only for models that have it.</p>
+                    <div className="space-y-2">
+                      {listTools().map(t => (
+                        <Toggle
+                          key={t.name}
+                          enabled={config.enabledTools.includes(t.name)}
+                          onChange={(v) => update({ enabledTools: v ? [...config.enabledTools, t.name] : config.enabledTools.filter(n => n !== t.name) })}
+                          label={t.label}
+                          description={`${t.summary || t.description}${t.sensitive ? ' · asks before running' : ''}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="border-t border-[var(--c-border)]" />
+
               <div>
                 <label className="mb-1 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]">
                   <IconBrain className="w-4 h-4 text-violet-400" />
@@ -801,11 +1326,27 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
             </div>
           )}
 
+          {/* ====== Usage ====== */}
+          {tab === 'usage' && <UsageDashboard config={config} sessions={sessions} update={update} />}
+
           {/* ====== Data ====== */}
           {tab === 'data' && (
             <div className="space-y-6">
               <input ref={importFileRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
               {importStatus && <div className={`rounded-xl px-4 py-3 text-sm font-medium ${importStatus.includes('Error') ? 'bg-red-500/10 border border-red-500/20 text-red-400' : 'bg-emerald-500/10 border border-emerald-500/20 text-emerald-400'}`}>{importStatus}</div>}
+              {storageInfo && (
+                <div className="rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-4 py-3">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-medium text-[var(--c-text2)]">Storage <span className="font-normal text-[var(--c-text3)]">· {storageInfo.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage (fallback)'}</span></span>
+                    <span className="text-[var(--c-text3)]">{storageInfo.usage !== null ? formatBytes(storageInfo.usage) : '—'}{storageInfo.quota ? ` of ${formatBytes(storageInfo.quota)}` : ''}</span>
+                  </div>
+                  {storageInfo.usage !== null && storageInfo.quota ? (
+                    <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-[var(--c-border)]">
+                      <div className={`h-full rounded-full ${storageInfo.usage / storageInfo.quota > 0.9 ? 'bg-red-400' : 'bg-[var(--c-accent)]'}`} style={{ width: `${Math.max(1, Math.min(100, storageInfo.usage / storageInfo.quota * 100))}%` }} />
+                    </div>
+                  ) : null}
+                </div>
+              )}
               <div>
                 <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconDownload className="w-4 h-4 text-[var(--c-accent-t)]" /> Export</h3>
                 <div className="space-y-2">
@@ -817,21 +1358,102 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
                     <button onClick={() => exportData('chats')} className="flex items-center gap-2 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3 py-2.5 text-xs font-medium text-[var(--c-text3)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-[0.98] touch-manipulation"><IconChat className="w-3.5 h-3.5" /> Chats only</button>
                     <button onClick={() => exportData('keys')} className="flex items-center gap-2 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3 py-2.5 text-xs font-medium text-[var(--c-text3)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-[0.98] touch-manipulation"><IconKey className="w-3.5 h-3.5" /> Config only</button>
                   </div>
-                </div>
+                  <div className="flex items-center gap-2">
+                    <span className="shrink-0 text-xs text-[var(--c-text3)]">All chats as</span>
+                    {EXPORT_FORMATS.map(([format, label]) => (
+                      <button key={format} onClick={() => exportAllChats(format)} disabled={sessions.length === 0} className="flex-1 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-2 py-2 text-xs font-medium text-[var(--c-text3)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] disabled:opacity-40 active:scale-[0.98] touch-manipulation">{label}</button>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-amber-400/80">Plain exports contain your API keys in readable form.</p>
+                </div>
+              </div>
+              <div>
+                <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconLock className="w-4 h-4 text-[var(--c-accent-t)]" /> Encrypted Backup</h3>
+                <div className="space-y-2 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] p-3">
+                  <div className="flex flex-wrap gap-1.5">
+                    {(['keys', 'settings', 'chats', 'memories'] as BackupPart[]).map(part => {
+                      const on = encParts.includes(part);
+                      return (
+                        <button key={part} onClick={() => setEncParts(p => on ? p.filter(x => x !== part) : [...p, part])} className={`rounded-lg border px-2.5 py-1 text-xs capitalize touch-manipulation ${on ? 'border-[var(--c-accent-border)] bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'border-[var(--c-border)] text-[var(--c-text3)] hover:text-[var(--c-text2)]'}`}>{part}</button>
+                      );
+                    })}
+                  </div>
+                  <input type="password" value={encPass} onChange={e => setEncPass(e.target.value)} placeholder={`Passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`} autoComplete="new-password" className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm text-[var(--c-text)] outline-none focus:border-[var(--c-accent-border)]" />
+                  <input type="password" value={encPass2} onChange={e => setEncPass2(e.target.value)} placeholder="Repeat passphrase" autoComplete="new-password" className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm text-[var(--c-text)] outline-none focus:border-[var(--c-accent-border)]" />
+                  <button onClick={exportEncrypted} disabled={encBusy || encParts.length === 0 || encPass.length < MIN_PASSPHRASE_LENGTH || !encPass2} className="flex w-full items-center justify-center gap-2 rounded-lg bg-[var(--c-accent)] px-3 py-2 text-sm font-medium text-white hover:opacity-90 disabled:opacity-40 active:scale-[0.98] touch-manipulation"><IconLock className="w-4 h-4" />{encBusy ? 'Encrypting...' : 'Export encrypted'}</button>
+                  <p className="text-[11px] text-[var(--c-text3)]">The passphrase is not stored anywhere — without it the file cannot be restored.</p>
+                </div>
               </div>
               <div className="border-t border-[var(--c-border)]" />
               <div>
                 <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconUpload className="w-4 h-4 text-emerald-400" /> Import</h3>
                 <button onClick={() => importFileRef.current?.click()} className="flex w-full items-center justify-center gap-3 rounded-xl border-2 border-dashed border-[var(--c-border)] bg-[var(--c-surface)] px-4 py-6 text-sm text-[var(--c-text3)] transition-all hover:border-[var(--c-accent-border)] hover:bg-[var(--c-accent-bg)] active:scale-[0.98] touch-manipulation">
-                  <IconUpload className="w-5 h-5" /><div className="text-left"><p className="font-medium text-[var(--c-text2)]">Choose JSON file</p><p className="text-xs">Merges data without duplicates</p></div>
+                  <IconUpload className="w-5 h-5" /><div className="text-left"><p className="font-medium text-[var(--c-text2)]">Choose JSON file</p><p className="text-xs">DophyAI backup, or ChatGPT, Claude or Gemini (Takeout) export</p></div>
                 </button>
+                {pendingEncrypted && (
+                  <div className="mt-2 space-y-2 rounded-xl border border-[var(--c-accent-border)] bg-[var(--c-accent-bg)] p-3">
+                    <p className="flex items-center gap-2 text-xs font-medium text-[var(--c-text2)]"><IconLock className="w-3.5 h-3.5" />This backup is encrypted</p>
+                    <div className="flex gap-2">
+                      <input type="password" value={importPass} onChange={e => setImportPass(e.target.value)} onKeyDown={e => { if (e.key === 'Enter' && importPass) decryptPending(); }} placeholder="Passphrase" autoFocus className="min-w-0 flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm text-[var(--c-text)] outline-none focus:border-[var(--c-accent-border)]" />
+                      <button onClick={decryptPending} disabled={encBusy || !importPass} className="shrink-0 rounded-lg bg-[var(--c-accent)] px-3 py-2 text-xs font-medium text-white hover:opacity-90 disabled:opacity-40 touch-manipulation">{encBusy ? 'Decrypting...' : 'Decrypt & import'}</button>
+                      <button onClick={() => { setPendingEncrypted(null); setImportPass(''); }} className="shrink-0 rounded-lg p-2 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation"><IconX className="w-4 h-4" /></button>
+                    </div>
+                  </div>
+                )}
+                {importPlan && (
+                  <div className="mt-2 space-y-2 rounded-xl border border-[var(--c-accent-border)] bg-[var(--c-surface)] p-3">
+                    <p className="text-xs font-medium text-[var(--c-text2)]">Review import <span className="font-normal text-[var(--c-text3)]">· {importPlan.items.length} change{importPlan.items.length === 1 ? '' : 's'}</span></p>
+                    <div className="max-h-72 space-y-0.5 overflow-y-auto">
+                      {importPlan.items.map(item => {
+                        const chosen = importPlan.choices[item.id] ?? item.actions[0];
+                        return (
+                          <div key={item.id} className="flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-[var(--c-surface-h)]">
+                            <span className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium ${IMPORT_STATUS_STYLES[item.status]}`}>{item.status}</span>
+                            <div className="min-w-0 flex-1">
+                              <p className="truncate text-xs text-[var(--c-text)]"><span className="text-[var(--c-text3)]">{item.kind} · </span>{item.label}</p>
+                              {item.detail && <p className="truncate text-[11px] text-[var(--c-text3)]">{item.detail}</p>}
+                            </div>
+                            <div className="flex shrink-0 gap-0.5">
+                              {(['keep', 'merge', 'take'] as ImportAction[]).filter(a => item.actions.includes(a)).map(a => (
+                                <button key={a} onClick={() => setImportPlan(p => p && { ...p, choices: { ...p.choices, [item.id]: a } })} className={`rounded-md px-2 py-1 text-[11px] touch-manipulation ${chosen === a ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text3)] hover:text-[var(--c-text2)]'}`}>
+                                  {a === 'merge' ? 'Merge' : a === 'take' ? (item.status === 'new' ? 'Add' : 'Use backup') : (item.status === 'new' ? 'Skip' : 'Keep mine')}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {importPlan.errors.length > 0 && <p className="text-[11px] text-amber-400/80">Skipping {importPlan.errors.length} invalid field{importPlan.errors.length === 1 ? '' : 's'}: {formatFieldErrors(importPlan.errors)}</p>}
+                    <div className="flex gap-2">
+                      <button onClick={confirmImport} className="flex-1 rounded-lg bg-[var(--c-accent)] px-3 py-2 text-xs font-medium text-white hover:opacity-90 active:scale-[0.98] touch-manipulation">Import selected</button>
+                      <button onClick={() => setImportPlan(null)} className="rounded-lg border border-[var(--c-border)] px-3 py-2 text-xs text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation">Cancel</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="border-t border-[var(--c-border)]" />
+              <div>
+                <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold text-[var(--c-text)]"><IconArchive className="w-4 h-4 text-[var(--c-accent-t)]" /> Trash &amp; Archive</h3>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="shrink-0 text-xs text-[var(--c-text3)]">Keep deleted chats</span>
+                    <div className="flex flex-1 gap-1">
+                      {TRASH_RETENTION_OPTIONS.map(([days, label]) => (
+                        <button key={days} onClick={() => update({ trashRetentionDays: days })} className={`flex-1 rounded-lg border px-1.5 py-1.5 text-[11px] font-medium touch-manipulation ${config.trashRetentionDays === days ? 'border-[var(--c-accent-border)] bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'border-[var(--c-border)] text-[var(--c-text3)] hover:text-[var(--c-text2)]'}`}>{label}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <button onClick={() => { if (confirm(`Delete ${trashCount} chat${trashCount === 1 ? '' : 's'} in the trash for good?`)) { setSessions(sessions.filter(s => !isTrashed(s))); setImportStatus('Trash emptied'); setTimeout(() => setImportStatus(null), 3000); } }} disabled={trashCount === 0} className="flex w-full items-center gap-3 rounded-xl border border-red-500/10 bg-red-500/5 px-4 py-3 text-sm text-red-400 hover:border-red-500/30 hover:bg-red-500/10 disabled:opacity-40 active:scale-[0.98] touch-manipulation"><IconTrash className="w-4 h-4" />Empty trash <span className="ml-auto text-xs opacity-60">{trashCount}</span></button>
+                  <button onClick={() => { if (confirm(`Delete ${archivedCount} archived chat${archivedCount === 1 ? '' : 's'} for good?`)) { setSessions(sessions.filter(s => !s.archived || isTrashed(s))); setImportStatus('Archived chats deleted'); setTimeout(() => setImportStatus(null), 3000); } }} disabled={archivedCount === 0} className="flex w-full items-center gap-3 rounded-xl border border-red-500/10 bg-red-500/5 px-4 py-3 text-sm text-red-400 hover:border-red-500/30 hover:bg-red-500/10 disabled:opacity-40 active:scale-[0.98] touch-manipulation"><IconArchive className="w-4 h-4" />Delete archived chats <span className="ml-auto text-xs opacity-60">{archivedCount}</span></button>
+                </div>
               </div>
               <div className="border-t border-[var(--c-border)]" />
               <div>
                 <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold text-red-400"><IconTrash className="w-4 h-4" /> Danger Zone</h3>
                 <div className="space-y-2">
-                  <button onClick={() => { if (confirm('Delete ALL chats?')) { setSessions([]); saveSessions([]); setActiveSessionId(null); saveActiveId(null); setImportStatus('All chats deleted'); setTimeout(() => setImportStatus(null), 3000); } }} className="flex w-full items-center gap-3 rounded-xl border border-red-500/10 bg-red-500/5 px-4 py-3 text-sm text-red-400 hover:border-red-500/30 hover:bg-red-500/10 active:scale-[0.98] touch-manipulation"><IconTrash className="w-4 h-4" />Delete all chats <span className="ml-auto text-xs opacity-60">{sessions.length}</span></button>
-                  <button onClick={() => { if (confirm('Reset ALL settings?')) { const def: AppConfig = { googleKeys: [], openrouterKey: '', sambaKey: '', systemPrompt: DEFAULT_SYSTEM_PROMPT, googleModels: [...DEFAULT_GOOGLE_MODELS], openrouterModels: [...DEFAULT_OPENROUTER_MODELS], sambaModels: [...DEFAULT_SAMBA_MODELS], theme: { ...DEFAULT_THEME }, includeTime: false, includeDate: false, memories: [] }; setConfig(def); saveConfig(def); applyThemeToDOM(def.theme); setImportStatus('Settings reset'); setTimeout(() => setImportStatus(null), 3000); } }} className="flex w-full items-center gap-3 rounded-xl border border-amber-500/10 bg-amber-500/5 px-4 py-3 text-sm text-amber-400 hover:border-amber-500/30 hover:bg-amber-500/10 active:scale-[0.98] touch-manipulation"><IconSettings className="w-4 h-4" />Reset all settings</button>
+                  <button onClick={() => { if (confirm('Delete ALL chats for good, including archive and trash?')) { setSessions([]); setActiveSessionId(null); saveActiveId(null); setImportStatus('All chats deleted'); setTimeout(() => setImportStatus(null), 3000); } }} className="flex w-full items-center gap-3 rounded-xl border border-red-500/10 bg-red-500/5 px-4 py-3 text-sm text-red-400 hover:border-red-500/30 hover:bg-red-500/10 active:scale-[0.98] touch-manipulation"><IconTrash className="w-4 h-4" />Delete all chats <span className="ml-auto text-xs opacity-60">{sessions.length}</span></button>
+                  <button onClick={() => { if (confirm('Reset ALL settings?')) { const def = defaultConfig(); setConfig(def); saveConfig(def); applyThemeToDOM(def.theme); setImportStatus('Settings reset'); setTimeout(() => setImportStatus(null), 3000); } }} className="flex w-full items-center gap-3 rounded-xl border border-amber-500/10 bg-amber-500/5 px-4 py-3 text-sm text-amber-400 hover:border-amber-500/30 hover:bg-amber-500/10 active:scale-[0.98] touch-manipulation"><IconSettings className="w-4 h-4" />Reset all settings</button>
                 </div>
               </div>
             </div>
@@ -868,6 +1490,7 @@ function SettingsPanel({ open, onClose, config, setConfig, logs, clearLogs, sess
 const AUTO_ITEMS = [
   { key: 'auto-gemini-flash', icon: IconZap, color: 'amber', bg: 'bg-amber-500/15', activeText: 'text-amber-300', iconActive: 'text-amber-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-amber-500/10', activeBorder: 'border-amber-500/20' },
   { key: 'auto-gemini-pro', icon: IconCrown, color: 'violet', bg: 'bg-violet-500/15', activeText: 'text-violet-300', iconActive: 'text-violet-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-violet-500/10', activeBorder: 'border-violet-500/20' },
+  { key: 'auto-claude', icon: IconAnthropic, color: 'rose', bg: 'bg-rose-500/15', activeText: 'text-rose-300', iconActive: 'text-rose-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-rose-500/10', activeBorder: 'border-rose-500/20' },
   { key: 'auto-samba', icon: IconRocket, color: 'orange', bg: 'bg-orange-500/15', activeText: 'text-orange-300', iconActive: 'text-orange-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-orange-500/10', activeBorder: 'border-orange-500/20' },
   { key: 'auto-openrouter', icon: IconShuffle, color: 'emerald', bg: 'bg-emerald-500/15', activeText: 'text-emerald-300', iconActive: 'text-emerald-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-emerald-500/10', activeBorder: 'border-emerald-500/20' },
   { key: 'auto-search', icon: IconSearch, color: 'cyan', bg: 'bg-cyan-500/15', activeText: 'text-cyan-300', iconActive: 'text-cyan-400', iconInactive: 'text-[var(--c-text3)]', activeBg: 'bg-cyan-500/10', activeBorder: 'border-cyan-500/20' }, // Google Search grounded
@@ -884,19 +1507,198 @@ interface SidebarProps {
   onSelectSession: (id: string) => void; onNewChat: () => void;
   onDeleteSession: (id: string) => void; onRenameSession: (id: string, t: string) => void;
   onClearAllSessions: () => void;
+  /** Opens a chat at a search hit */
+  onOpenMessage: (sessionId: string, messageId: string) => void;
+  onUpdateSessions: (ids: string[], update: (s: ChatSession) => ChatSession) => void;
+  /** Moves chats to the trash */
+  onDeleteSessions: (ids: string[]) => void;
+  onRestoreSessions: (ids: string[]) => void;
+  /** Deletes chats for good */
+  onPurgeSessions: (ids: string[]) => void;
+  onExportSessions: (ids: string[], format: ExportFormat) => void;
+  onFoldersChange: (folders: ChatFolder[]) => void;
+}
+
+const DRAG_TYPE = 'application/x-dophy-chats';
+const NO_FOLDER = '__none';
+
+function ChatRow({ session: s, config, active, selected, onOpen, onToggleSelect, onRename, onDelete, onTogglePin, onToggleArchive, onDragStart, onDragEnd, onTagClick }: {
+  session: ChatSession;
+  config: AppConfig;
+  active: boolean;
+  /** Set while multi-selecting; clicks then toggle selection */
+  selected?: boolean;
+  onOpen: () => void;
+  onToggleSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onTagClick: (tag: string) => void;
+}) {
+  const [editTitle, setEditTitle] = useState<string | null>(null);
+  const editRef = useRef<HTMLInputElement>(null);
+  const editing = editTitle !== null;
+  const selecting = selected !== undefined;
+
+  useEffect(() => { if (editing && editRef.current) { editRef.current.focus(); editRef.current.select(); } }, [editing]);
+  const confirmRename = () => { if (editTitle?.trim()) onRename(editTitle.trim()); setEditTitle(null); };
+
+  return (
+    <div draggable={!editing} onDragStart={onDragStart} onDragEnd={onDragEnd} className={`group flex items-center gap-2 rounded-xl px-3 py-2.5 cursor-pointer transition-all touch-manipulation ${active || selected ? 'bg-[var(--c-surface-active)] text-[var(--c-text)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`} onClick={() => { if (editing) return; if (selecting) onToggleSelect(); else onOpen(); }}>
+      {selecting ? (
+        <div className={`mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-lg border ${selected ? 'border-[var(--c-accent)] bg-[var(--c-accent)] text-white' : 'border-[var(--c-border)]'}`}>
+          {selected && <IconCheck className="w-3 h-3" />}
+        </div>
+      ) : (
+        <div className={`mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-lg ${active ? 'bg-[var(--c-accent-bg)]' : 'bg-[var(--c-surface)]'}`}>
+          <IconChat className={`w-3 h-3 ${active ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text4)]'}`} />
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <input ref={editRef} value={editTitle} onChange={e => setEditTitle(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditTitle(null); }} onBlur={confirmRename} className="w-full bg-transparent text-[13px] font-medium text-[var(--c-text)] outline-none border-b border-[var(--c-accent)]" onClick={e => e.stopPropagation()} />
+        ) : (
+          <p className="truncate text-[13px] font-medium leading-tight">{s.title}</p>
+        )}
+        <div className="flex items-center gap-2 mt-0.5 overflow-hidden">
+          <span className="flex items-center gap-1 text-[10px] text-[var(--c-text4)]"><IconMsgCount className="w-2.5 h-2.5" />{activePath(s).length}</span>
+          <span className="shrink-0 text-[10px] text-[var(--c-text4)]">{relTime(s.updatedAt)}</span>
+          {(() => { const t = sessionUsage(config, s); return t.responses > 0 && <span className="shrink-0 text-[10px] text-[var(--c-text4)]">{formatTokens(totalTokens(t))} tok{t.cost > 0 ? ` · ${formatCost(t.cost)}` : ''}</span>; })()}
+          {s.tags?.map(t => <button key={t} onClick={e => { e.stopPropagation(); onTagClick(t); }} className="shrink-0 rounded bg-[var(--c-surface)] px-1 text-[10px] text-[var(--c-text3)] hover:text-[var(--c-accent-t)] touch-manipulation">#{t}</button>)}
+        </div>
+      </div>
+      {!selecting && (
+        <div className="flex shrink-0 gap-0.5 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+          <button onClick={e => { e.stopPropagation(); onTogglePin(); }} className={`rounded-md p-1.5 hover:bg-[var(--c-surface-h)] active:scale-95 touch-manipulation ${s.pinned ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text4)] hover:text-[var(--c-text2)]'}`} title={s.pinned ? 'Unpin' : 'Pin'}><IconPin className="w-3.5 h-3.5" /></button>
+          <button onClick={e => { e.stopPropagation(); onToggleArchive(); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title={s.archived ? 'Unarchive' : 'Archive'}><IconArchive className="w-3.5 h-3.5" /></button>
+          <button onClick={e => { e.stopPropagation(); setEditTitle(s.title); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title="Rename"><IconEdit /></button>
+          <button onClick={e => { e.stopPropagation(); onDelete(); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-red-500/15 hover:text-red-400 active:scale-95 touch-manipulation" title="Move to trash"><IconTrash className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+    </div>
+  );
 }
 
-function Sidebar({ open, onClose, selectedModel, onSelectModel, config, sessions, activeSessionId, onSelectSession, onNewChat, onDeleteSession, onRenameSession, onClearAllSessions }: SidebarProps) {
+function TrashedRow({ session: s, daysLeft, onRestore, onPurge }: { session: ChatSession; daysLeft: number | null; onRestore: () => void; onPurge: () => void }) {
+  return (
+    <div className="group flex items-center gap-2 rounded-xl px-3 py-2.5 text-[var(--c-text3)] hover:bg-[var(--c-surface)]">
+      <div className="mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-lg bg-[var(--c-surface)]"><IconTrash className="w-3 h-3 text-[var(--c-text4)]" /></div>
+      <div className="flex-1 min-w-0">
+        <p className="truncate text-[13px] font-medium leading-tight">{s.title}</p>
+        <div className="mt-0.5 flex items-center gap-2 text-[10px] text-[var(--c-text4)]">
+          <span>Deleted {relTime(s.deletedAt!)}</span>
+          {daysLeft !== null && <span className={daysLeft <= 1 ? 'text-red-400/80' : ''}>{daysLeft === 0 ? 'purged today' : `${daysLeft}d left`}</span>}
+        </div>
+      </div>
+      <div className="flex shrink-0 gap-0.5 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+        <button onClick={onRestore} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title="Restore"><IconUndo className="w-3.5 h-3.5" /></button>
+        <button onClick={() => { if (confirm(`Delete "${s.title}" for good?`)) onPurge(); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-red-500/15 hover:text-red-400 active:scale-95 touch-manipulation" title="Delete for good"><IconX className="w-3.5 h-3.5" /></button>
+      </div>
+    </div>
+  );
+}
+
+function Sidebar({ open, onClose, selectedModel, onSelectModel, config, sessions: allSessions, activeSessionId, onSelectSession, onNewChat, onDeleteSession, onRenameSession, onClearAllSessions, onOpenMessage, onUpdateSessions, onDeleteSessions, onRestoreSessions, onPurgeSessions, onExportSessions, onFoldersChange }: SidebarProps) {
   const [autoOpen, setAutoOpen] = useState(true);
   const [modelsOpen, setModelsOpen] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editTitle, setEditTitle] = useState('');
-  const editRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => { if (editingId && editRef.current) { editRef.current.focus(); editRef.current.select(); } }, [editingId]);
-  const confirmRename = () => { if (editingId && editTitle.trim()) onRenameSession(editingId, editTitle.trim()); setEditingId(null); };
+  const [view, setView] = useState<'chats' | 'archive' | 'trash'>('chats');
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [bulkTag, setBulkTag] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editingFolder, setEditingFolder] = useState<ChatFolder | null>(null);
+  const [dragging, setDragging] = useState(false);
+  /** Folder id under the pointer while dragging; '' = the "no folder" zone */
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [searchReasoning, setSearchReasoning] = useState(false);
+  const searchIndex = useRef<SearchIndex | null>(null);
+
+  const live = useMemo(() => allSessions.filter(s => !isTrashed(s)), [allSessions]);
+  const trashed = useMemo(() => allSessions.filter(isTrashed).sort((a, b) => b.deletedAt! - a.deletedAt!), [allSessions]);
+  const archivedCount = live.filter(s => s.archived).length;
+  /** Chats of the archive or main view */
+  const sessions = useMemo(() => live.filter(s => !!s.archived === (view === 'archive')), [live, view]);
+  const openView = (next: typeof view) => { setView(next); setSelected(null); setTagFilter(null); setQuery(''); };
+
+  // The index is built on first search and then only refreshed for chats that changed
+  const results = useMemo(() => {
+    if (!query.trim()) return null;
+    searchIndex.current ??= new SearchIndex();
+    searchIndex.current.sync(live);
+    return { ...searchIndex.current.search(parseQuery(query), searchReasoning), titles: new Map(live.map(s => [s.id, s.title])) };
+  }, [query, searchReasoning, live]);
+
+  const folders = config.chatFolders;
+  const allTags = useMemo(() => [...new Set(sessions.flatMap(s => s.tags || []))].sort(), [sessions]);
+  useEffect(() => { if (tagFilter && !allTags.includes(tagFilter)) setTagFilter(null); }, [allTags, tagFilter]);
+  const editingFolderId = editingFolder?.id;
+  useEffect(() => { if (editingFolderId) { folderRef.current?.focus(); folderRef.current?.select(); } }, [editingFolderId]);
+
+  // Pinned chats sit above folders; a folder id that no longer exists counts as none
+  const visible = tagFilter ? sessions.filter(s => s.tags?.includes(tagFilter)) : sessions;
+  const folderIds = new Set(folders.map(f => f.id));
+  const pinned = visible.filter(s => s.pinned).sort((a, b) => b.updatedAt - a.updatedAt);
+  const inFolder = (id: string) => visible.filter(s => !s.pinned && s.folderId === id).sort((a, b) => b.updatedAt - a.updatedAt);
+  const grouped = groupSessions(visible.filter(s => !s.pinned && !(s.folderId && folderIds.has(s.folderId))));
+  const selectedTags = selected ? [...new Set(sessions.filter(s => selected.has(s.id)).flatMap(s => s.tags || []))].sort() : [];
+
+  const moveTo = (ids: string[], folderId: string | undefined) => onUpdateSessions(ids, s => ({ ...s, folderId }));
+  const addTag = () => {
+    const tag = bulkTag.trim().replace(/^#/, '').replace(/\s+/g, '-');
+    if (!tag || !selected) return;
+    onUpdateSessions([...selected], s => s.tags?.includes(tag) ? s : { ...s, tags: [...(s.tags || []), tag] });
+    setBulkTag('');
+  };
+  const addFolder = () => {
+    const folder = { id: uid(), name: 'New folder' };
+    onFoldersChange([...folders, folder]);
+    setEditingFolder(folder);
+  };
+  const renameFolder = () => {
+    if (editingFolder?.name.trim()) onFoldersChange(folders.map(f => f.id === editingFolder.id ? { ...f, name: editingFolder.name.trim() } : f));
+    setEditingFolder(null);
+  };
+  const deleteFolder = (id: string, name: string) => {
+    if (!confirm(`Delete folder "${name}"? Its chats are kept.`)) return;
+    onUpdateSessions(allSessions.filter(s => s.folderId === id).map(s => s.id), s => ({ ...s, folderId: undefined }));
+    onFoldersChange(folders.filter(f => f.id !== id));
+  };
 
-  const grouped = groupSessions(sessions);
+  // Dragging a selected chat moves the whole selection
+  const dropProps = (folderId: string | undefined) => ({
+    onDragOver: (e: React.DragEvent) => { if (e.dataTransfer.types.includes(DRAG_TYPE)) { e.preventDefault(); setDropTarget(folderId ?? ''); } },
+    onDragLeave: () => setDropTarget(t => t === (folderId ?? '') ? null : t),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null); setDragging(false);
+      const ids: string[] = JSON.parse(e.dataTransfer.getData(DRAG_TYPE) || '[]');
+      if (ids.length > 0) moveTo(ids, folderId);
+    },
+  });
+  const renderRow = (s: ChatSession) => (
+    <ChatRow
+      key={s.id}
+      session={s}
+      config={config}
+      active={s.id === activeSessionId}
+      selected={selected ? selected.has(s.id) : undefined}
+      onOpen={() => { onSelectSession(s.id); onClose(); }}
+      onToggleSelect={() => setSelected(p => { const n = new Set(p); if (n.has(s.id)) n.delete(s.id); else n.add(s.id); return n; })}
+      onRename={title => onRenameSession(s.id, title)}
+      onDelete={() => onDeleteSession(s.id)}
+      onTogglePin={() => onUpdateSessions([s.id], x => ({ ...x, pinned: !x.pinned || undefined }))}
+      onToggleArchive={() => onUpdateSessions([s.id], x => ({ ...x, archived: !x.archived || undefined }))}
+      onDragStart={e => { e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(selected?.has(s.id) ? [...selected] : [s.id])); e.dataTransfer.effectAllowed = 'move'; setDragging(true); }}
+      onDragEnd={() => { setDragging(false); setDropTarget(null); }}
+      onTagClick={setTagFilter}
+    />
+  );
+  const today = dailyUsage(config, allSessions, 1)[0].totals;
 
   return (
     <>
@@ -909,7 +1711,7 @@ function Sidebar({ open, onClose, selectedModel, onSelectModel, config, sessions
         </div>
 
         <div className="px-3 pt-3 pb-1">
-          <button onClick={() => { onNewChat(); onClose(); }} className="flex w-full items-center gap-2.5 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3.5 py-2.5 text-sm font-medium text-[var(--c-text2)] transition-all hover:border-[var(--c-accent-border)] hover:bg-[var(--c-accent-bg)] hover:text-[var(--c-text)] active:scale-[0.97] touch-manipulation">
+          <button onClick={() => { onNewChat(); onClose(); if (view !== 'chats') openView('chats'); }} className="flex w-full items-center gap-2.5 rounded-xl border border-[var(--c-border)] bg-[var(--c-surface)] px-3.5 py-2.5 text-sm font-medium text-[var(--c-text2)] transition-all hover:border-[var(--c-accent-border)] hover:bg-[var(--c-accent-bg)] hover:text-[var(--c-text)] active:scale-[0.97] touch-manipulation">
             <IconPlus className="w-4 h-4" /> New Chat
           </button>
         </div>
@@ -960,52 +1762,27 @@ function Sidebar({ open, onClose, selectedModel, onSelectModel, config, sessions
             </button>
             <div className={`overflow-hidden transition-all duration-300 ${modelsOpen ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'}`}>
               <div className="mt-1 space-y-0.5 pb-1">
-                {config.googleModels.length > 0 && (
-                  <div className="mb-2">
-                    <div className="mb-1 flex items-center gap-2 px-2"><IconGoogle className="w-3 h-3 text-blue-400" /><span className="text-[10px] font-semibold uppercase tracking-widest text-[var(--c-text4)]">Gemini</span></div>
-                    {config.googleModels.map(m => {
-                      const active = selectedModel === m;
-                      return (
-                        <button key={m} onClick={() => { onSelectModel(m); onClose(); }} className={`mb-0.5 flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-left text-[13px] transition-all touch-manipulation ${active ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`}>
-                          <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${active ? 'bg-[var(--c-accent)]' : 'bg-[var(--c-text4)]'}`} />
-                          <span className="flex-1 truncate font-medium">{m}</span>
-                          {isImageCapableModel(m) && <span className="shrink-0 rounded bg-violet-500/20 px-1 py-0.5 text-[9px] font-bold text-violet-400">IMG</span>}
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-                {config.sambaModels.length > 0 && (
-                  <div className="mb-2">
-                    <div className="mb-1 flex items-center gap-2 px-2"><IconSamba className="w-3 h-3 text-orange-400" /><span className="text-[10px] font-semibold uppercase tracking-widest text-[var(--c-text4)]">SambaNova</span></div>
-                    {config.sambaModels.map(m => {
-                      const active = selectedModel === m;
-                      return (
-                        <button key={m} onClick={() => { onSelectModel(m); onClose(); }} className={`mb-0.5 flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-left text-[13px] transition-all touch-manipulation ${active ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`}>
-                          <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${active ? 'bg-[var(--c-accent)]' : 'bg-[var(--c-text4)]'}`} />
-                          <span className="flex-1 truncate font-medium">{m}</span>
-                          <span className="shrink-0 rounded bg-orange-500/20 px-1 py-0.5 text-[9px] font-bold text-orange-400">FAST</span>
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-                {config.openrouterModels.length > 0 && (
-                  <div>
-                    <div className="mb-1 flex items-center gap-2 px-2"><IconDeepSeek className="w-3 h-3 text-emerald-400" /><span className="text-[10px] font-semibold uppercase tracking-widest text-[var(--c-text4)]">OpenRouter</span></div>
-                    {config.openrouterModels.map(m => {
-                      const active = selectedModel === m;
-                      return (
-                        <button key={m} onClick={() => { onSelectModel(m); onClose(); }} className={`mb-0.5 flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-left text-[13px] transition-all touch-manipulation ${active ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`}>
-                          <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${active ? 'bg-[var(--c-accent)]' : 'bg-[var(--c-text4)]'}`} />
-                          <span className="flex-1 truncate font-medium">{getModelShortName(m)}</span>
-                          <span className="shrink-0 rounded bg-emerald-500/20 px-1 py-0.5 text-[9px] font-bold text-emerald-400">FREE</span>
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-                {config.googleModels.length === 0 && config.openrouterModels.length === 0 && config.sambaModels.length === 0 && (
+                {listProviders(config).map(p => {
+                  const models = p.models.get(config);
+                  if (models.length === 0) return null;
+                  return (
+                    <div key={p.id} className="mb-2">
+                      <div className="mb-1 flex items-center gap-2 px-2"><ProviderIcon provider={p} className={`w-3 h-3 ${p.style.text}`} /><span className="text-[10px] font-semibold uppercase tracking-widest text-[var(--c-text4)]">{p.label}</span></div>
+                      {models.map(m => {
+                        const active = selectedModel === m;
+                        return (
+                          <button key={m} onClick={() => { onSelectModel(m); onClose(); }} className={`mb-0.5 flex w-full items-center gap-2.5 rounded-lg px-3 py-2 text-left text-[13px] transition-all touch-manipulation ${active ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`}>
+                            <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${active ? 'bg-[var(--c-accent)]' : 'bg-[var(--c-text4)]'}`} />
+                            <span className="flex-1 truncate font-medium">{getModelShortName(m)}</span>
+                            {p.capabilities.imageOutput && isImageCapableModel(m) && <span className="shrink-0 rounded bg-violet-500/20 px-1 py-0.5 text-[9px] font-bold text-violet-400">IMG</span>}
+                            {p.style.badge && <span className={`shrink-0 rounded px-1 py-0.5 text-[9px] font-bold ${p.style.badge.className}`}>{p.style.badge.label}</span>}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+                {listProviders(config).every(p => p.models.get(config).length === 0) && (
                   <p className="px-3 py-4 text-center text-xs text-[var(--c-text3)]">No models. Add in Settings.</p>
                 )}
               </div>
@@ -1015,61 +1792,186 @@ function Sidebar({ open, onClose, selectedModel, onSelectModel, config, sessions
           <div className="mx-2 my-1 border-t border-[var(--c-border)]" />
 
           <div className="flex items-center gap-2 px-2 py-2">
-            <IconChat className="w-3.5 h-3.5 text-[var(--c-text3)]" />
-            <span className="text-[11px] font-semibold uppercase tracking-widest text-[var(--c-text3)]">Chats</span>
-            {sessions.length > 0 && <span className="rounded-full bg-[var(--c-surface)] px-1.5 py-0.5 text-[10px] text-[var(--c-text4)]">{sessions.length}</span>}
-            {sessions.length > 0 && <button onClick={onClearAllSessions} className="ml-auto rounded p-1.5 text-[var(--c-text4)] hover:bg-red-500/10 hover:text-red-400 active:scale-95 touch-manipulation" title="Clear all"><IconTrash className="w-3.5 h-3.5" /></button>}
+            {view === 'chats' ? <IconChat className="w-3.5 h-3.5 text-[var(--c-text3)]" /> : (
+              <button onClick={() => openView('chats')} className="-m-1 rounded p-1 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] touch-manipulation" title="Back to chats"><IconChevron className="w-3.5 h-3.5 rotate-90" /></button>
+            )}
+            <span className="text-[11px] font-semibold uppercase tracking-widest text-[var(--c-text3)]">{view === 'chats' ? 'Chats' : view === 'archive' ? 'Archive' : 'Trash'}</span>
+            {(view === 'trash' ? trashed : sessions).length > 0 && <span className="rounded-full bg-[var(--c-surface)] px-1.5 py-0.5 text-[10px] text-[var(--c-text4)]">{(view === 'trash' ? trashed : sessions).length}</span>}
+            {view === 'trash' ? trashed.length > 0 && (
+              <div className="ml-auto flex gap-1 text-[11px]">
+                <button onClick={() => onRestoreSessions(trashed.map(s => s.id))} className="rounded px-1.5 py-1 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] touch-manipulation">Restore all</button>
+                <button onClick={() => { if (confirm(`Delete ${trashed.length} chat${trashed.length === 1 ? '' : 's'} for good?`)) onPurgeSessions(trashed.map(s => s.id)); }} className="rounded px-1.5 py-1 text-red-400 hover:bg-red-500/10 touch-manipulation">Empty</button>
+              </div>
+            ) : (
+            <div className="ml-auto flex gap-0.5">
+              {view === 'chats' && <button onClick={addFolder} className="rounded p-1.5 text-[var(--c-text4)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title="New folder"><IconFolder className="w-3.5 h-3.5" /></button>}
+              {sessions.length > 0 && <button onClick={() => setSelected(s => s ? null : new Set())} className={`rounded p-1.5 active:scale-95 touch-manipulation ${selected ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'text-[var(--c-text4)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)]'}`} title="Select chats"><IconCheck className="w-3.5 h-3.5" /></button>}
+              {view === 'chats' && sessions.length > 0 && <button onClick={onClearAllSessions} className="rounded p-1.5 text-[var(--c-text4)] hover:bg-red-500/10 hover:text-red-400 active:scale-95 touch-manipulation" title="Move all to trash"><IconTrash className="w-3.5 h-3.5" /></button>}
+            </div>
+            )}
           </div>
 
-          {sessions.length === 0 ? (
+          {view === 'trash' ? (
+            trashed.length === 0 ? (
+              <p className="px-3 py-8 text-center text-xs text-[var(--c-text3)]">Trash is empty</p>
+            ) : (
+              <div className="space-y-0.5 pb-2">
+                <p className="px-2 pb-1 text-[10px] text-[var(--c-text4)]">{config.trashRetentionDays > 0 ? `Chats are deleted for good after ${config.trashRetentionDays} days` : 'Chats stay here until you empty the trash'}</p>
+                {trashed.map(s => <TrashedRow key={s.id} session={s} daysLeft={daysLeft(s, config.trashRetentionDays)} onRestore={() => onRestoreSessions([s.id])} onPurge={() => onPurgeSessions([s.id])} />)}
+              </div>
+            )
+          ) : (<>
+
+          {live.length > 0 && (
+            <div className="relative mb-2">
+              <IconSearch className="pointer-events-none absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-[var(--c-text4)]" />
+              <input value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => { if (e.key === 'Escape') setQuery(''); }} placeholder='Search — "phrase" model: after:' className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] py-1.5 pl-8 pr-16 text-[13px] text-[var(--c-text)] placeholder-[var(--c-text4)] outline-none focus:border-[var(--c-accent-border)]" />
+              <div className="absolute right-1 top-1/2 flex -translate-y-1/2 items-center gap-0.5">
+                <button onClick={() => setSearchReasoning(r => !r)} className={`rounded px-1.5 py-0.5 text-[10px] font-medium touch-manipulation ${searchReasoning ? 'bg-violet-500/15 text-violet-400' : 'text-[var(--c-text4)] hover:text-[var(--c-text2)]'}`} title="Also search reasoning (<think> blocks)">think</button>
+                {query && <button onClick={() => setQuery('')} className="rounded p-1 text-[var(--c-text4)] hover:text-[var(--c-text2)] touch-manipulation" title="Clear search"><IconX className="w-3 h-3" /></button>}
+              </div>
+            </div>
+          )}
+
+          {!results && allTags.length > 0 && (
+            <div className="mb-2 flex flex-wrap gap-1 px-1">
+              {allTags.map(t => (
+                <button key={t} onClick={() => setTagFilter(f => f === t ? null : t)} className={`rounded-md px-1.5 py-0.5 text-[10px] font-medium touch-manipulation ${tagFilter === t ? 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'bg-[var(--c-surface)] text-[var(--c-text3)] hover:text-[var(--c-text2)]'}`}>#{t}</button>
+              ))}
+            </div>
+          )}
+
+          {results ? (
+            <div className="space-y-0.5 pb-2">
+              <p className="px-2 pb-1 text-[10px] text-[var(--c-text4)]">{results.total === 0 ? 'No matches' : `${results.total} match${results.total === 1 ? '' : 'es'}${results.total > results.hits.length ? ` · newest ${results.hits.length} shown` : ''}`}</p>
+              {results.hits.map(hit => (
+                <button key={hit.messageId} onClick={() => { onOpenMessage(hit.sessionId, hit.messageId); onClose(); }} className={`w-full rounded-xl px-3 py-2 text-left transition-all touch-manipulation ${hit.sessionId === activeSessionId ? 'bg-[var(--c-surface)]' : 'hover:bg-[var(--c-surface)] active:bg-[var(--c-surface-h)]'}`}>
+                  <div className="flex items-center gap-2">
+                    <p className="flex-1 truncate text-[12px] font-medium text-[var(--c-text)]">{results.titles.get(hit.sessionId)}</p>
+                    <span className="shrink-0 text-[10px] text-[var(--c-text4)]">{relTime(hit.timestamp)}</span>
+                  </div>
+                  <p className="mt-0.5 line-clamp-3 text-[11px] leading-snug text-[var(--c-text3)]">
+                    <span className="text-[var(--c-text4)]">{hit.role === 'user' ? 'You' : hit.inReasoning ? 'Reasoning' : 'Reply'}: </span>
+                    {hit.snippet.map((part, i) => part.hit ? <mark key={i} className="rounded-sm bg-[var(--c-accent-bg)] px-0.5 text-[var(--c-accent-t)]">{part.text}</mark> : <span key={i}>{part.text}</span>)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          ) : sessions.length === 0 && (folders.length === 0 || view === 'archive') ? (
             <div className="flex flex-col items-center gap-2 px-3 py-8 text-center">
-              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--c-surface)] border border-[var(--c-border)]"><IconChat className="w-5 h-5 text-[var(--c-text4)]" /></div>
-              <p className="text-xs text-[var(--c-text3)]">No conversations yet</p>
+              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-[var(--c-surface)] border border-[var(--c-border)]">{view === 'archive' ? <IconArchive className="w-5 h-5 text-[var(--c-text4)]" /> : <IconChat className="w-5 h-5 text-[var(--c-text4)]" />}</div>
+              <p className="text-xs text-[var(--c-text3)]">{view === 'archive' ? 'No archived chats' : 'No conversations yet'}</p>
             </div>
           ) : (
             <div className="space-y-3 pb-2">
-              {grouped.map(g => (
-                <div key={g.label}>
-                  <div className="flex items-center gap-2 px-2 pt-1 pb-1.5"><IconClock className="w-2.5 h-2.5 text-[var(--c-text4)]" /><span className="text-[10px] font-medium text-[var(--c-text3)]">{g.label}</span></div>
-                  <div className="space-y-0.5">
-                    {g.sessions.map(s => {
-                      const isActive = s.id === activeSessionId;
-                      const isEditing = editingId === s.id;
-                      return (
-                        <div key={s.id} className={`group flex items-center gap-2 rounded-xl px-3 py-2.5 cursor-pointer transition-all touch-manipulation ${isActive ? 'bg-[var(--c-surface-active)] text-[var(--c-text)]' : 'text-[var(--c-text2)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:bg-[var(--c-surface-h)]'}`} onClick={() => { if (!isEditing) { onSelectSession(s.id); onClose(); } }}>
-                          <div className={`mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-lg ${isActive ? 'bg-[var(--c-accent-bg)]' : 'bg-[var(--c-surface)]'}`}>
-                            <IconChat className={`w-3 h-3 ${isActive ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text4)]'}`} />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            {isEditing ? (
-                              <input ref={editRef} value={editTitle} onChange={e => setEditTitle(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setEditingId(null); }} onBlur={confirmRename} className="w-full bg-transparent text-[13px] font-medium text-[var(--c-text)] outline-none border-b border-[var(--c-accent)]" onClick={e => e.stopPropagation()} />
-                            ) : (
-                              <p className="truncate text-[13px] font-medium leading-tight">{s.title}</p>
-                            )}
-                            <div className="flex items-center gap-2 mt-0.5">
-                              <span className="flex items-center gap-1 text-[10px] text-[var(--c-text4)]"><IconMsgCount className="w-2.5 h-2.5" />{s.messages.length}</span>
-                              <span className="text-[10px] text-[var(--c-text4)]">{relTime(s.updatedAt)}</span>
-                            </div>
-                          </div>
+              {pinned.length > 0 && (
+                <div>
+                  <div className="flex items-center gap-2 px-2 pt-1 pb-1.5"><IconPin className="w-2.5 h-2.5 text-[var(--c-text4)]" /><span className="text-[10px] font-medium text-[var(--c-text3)]">Pinned</span></div>
+                  <div className="space-y-0.5">{pinned.map(renderRow)}</div>
+                </div>
+              )}
+              {folders.length > 0 && (
+                <div className="space-y-0.5">
+                  {folders.map(f => {
+                    const chats = inFolder(f.id);
+                    if ((tagFilter || view === 'archive') && chats.length === 0) return null;
+                    const open = !collapsed.has(f.id);
+                    const editing = editingFolder?.id === f.id;
+                    return (
+                      <div key={f.id} {...dropProps(f.id)} className={`rounded-xl transition-colors ${dropTarget === f.id ? 'bg-[var(--c-accent-bg)] ring-1 ring-[var(--c-accent-border)]' : ''}`}>
+                        <div className="group flex cursor-pointer items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-[var(--c-surface)] touch-manipulation" onClick={() => { if (!editing) setCollapsed(c => { const n = new Set(c); if (open) n.add(f.id); else n.delete(f.id); return n; }); }}>
+                          <IconChevron className={`w-3 h-3 shrink-0 text-[var(--c-text4)] transition-transform duration-200 ${open ? '' : '-rotate-90'}`} />
+                          <IconFolder className="w-3.5 h-3.5 shrink-0 text-[var(--c-accent-t)]" />
+                          {editing ? (
+                            <input ref={folderRef} value={editingFolder.name} onChange={e => setEditingFolder({ id: f.id, name: e.target.value })} onKeyDown={e => { if (e.key === 'Enter') renameFolder(); if (e.key === 'Escape') setEditingFolder(null); }} onBlur={renameFolder} onClick={e => e.stopPropagation()} className="min-w-0 flex-1 border-b border-[var(--c-accent)] bg-transparent text-[12px] font-medium text-[var(--c-text)] outline-none" />
+                          ) : (
+                            <span className="flex-1 truncate text-[12px] font-medium text-[var(--c-text2)]">{f.name}</span>
+                          )}
+                          <span className="text-[10px] text-[var(--c-text4)]">{chats.length}</span>
                           <div className="flex shrink-0 gap-0.5 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                            <button onClick={e => { e.stopPropagation(); setEditingId(s.id); setEditTitle(s.title); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title="Rename"><IconEdit /></button>
-                            <button onClick={e => { e.stopPropagation(); onDeleteSession(s.id); }} className="rounded-md p-1.5 text-[var(--c-text4)] hover:bg-red-500/15 hover:text-red-400 active:scale-95 touch-manipulation" title="Delete"><IconTrash className="w-3.5 h-3.5" /></button>
+                            <button onClick={e => { e.stopPropagation(); setEditingFolder({ id: f.id, name: f.name }); }} className="rounded-md p-1 text-[var(--c-text4)] hover:bg-[var(--c-surface-h)] hover:text-[var(--c-text2)] touch-manipulation" title="Rename folder"><IconEdit className="w-3 h-3" /></button>
+                            <button onClick={e => { e.stopPropagation(); deleteFolder(f.id, f.name); }} className="rounded-md p-1 text-[var(--c-text4)] hover:bg-red-500/15 hover:text-red-400 touch-manipulation" title="Delete folder"><IconTrash className="w-3 h-3" /></button>
                           </div>
                         </div>
-                      );
-                    })}
-                  </div>
+                        {open && (chats.length > 0
+                          ? <div className="ml-3.5 space-y-0.5 border-l border-[var(--c-border)] pl-1">{chats.map(renderRow)}</div>
+                          : <p className="ml-9 pb-1.5 text-[10px] text-[var(--c-text4)]">Drag chats here</p>)}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {dragging && (
+                <div {...dropProps(undefined)} className={`rounded-xl border border-dashed px-3 py-2 text-center text-[11px] transition-colors ${dropTarget === '' ? 'border-[var(--c-accent-border)] bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'border-[var(--c-border)] text-[var(--c-text4)]'}`}>Drop here to take out of folder</div>
+              )}
+              {grouped.map(g => (
+                <div key={g.label}>
+                  <div className="flex items-center gap-2 px-2 pt-1 pb-1.5"><IconClock className="w-2.5 h-2.5 text-[var(--c-text4)]" /><span className="text-[10px] font-medium text-[var(--c-text3)]">{g.label}</span></div>
+                  <div className="space-y-0.5">{g.sessions.map(renderRow)}</div>
                 </div>
               ))}
+              {tagFilter && pinned.length === 0 && grouped.length === 0 && folders.every(f => inFolder(f.id).length === 0) && (
+                <p className="px-3 py-4 text-center text-xs text-[var(--c-text3)]">No chats tagged #{tagFilter}</p>
+              )}
+            </div>
+          )}
+
+          {view === 'chats' && !results && !selected && (archivedCount > 0 || trashed.length > 0) && (
+            <div className="mx-2 mb-2 flex gap-1 border-t border-[var(--c-border)] pt-2">
+              {archivedCount > 0 && <button onClick={() => openView('archive')} className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-[11px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] touch-manipulation"><IconArchive className="w-3 h-3" />Archive · {archivedCount}</button>}
+              {trashed.length > 0 && <button onClick={() => openView('trash')} className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-[11px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] touch-manipulation"><IconTrash className="w-3 h-3" />Trash · {trashed.length}</button>}
+            </div>
+          )}
+          </>)}
+
+          {selected && (
+            <div className="sticky bottom-0 -mx-3 mt-1 space-y-2 border-t border-[var(--c-border)] bg-[var(--c-bg2)] px-3 py-2.5">
+              <div className="flex items-center gap-2 text-[11px]">
+                <span className="font-medium text-[var(--c-text2)]">{selected.size} selected</span>
+                <button onClick={() => setSelected(new Set(visible.map(s => s.id)))} className="text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation">All</button>
+                {selected.size > 0 && <button onClick={() => setSelected(new Set())} className="text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation">None</button>}
+                <button onClick={() => setSelected(null)} className="ml-auto rounded-md bg-[var(--c-surface)] px-2 py-0.5 font-medium text-[var(--c-text2)] hover:text-[var(--c-text)] touch-manipulation">Done</button>
+              </div>
+              {selected.size > 0 && (
+                <>
+                  <div className="flex gap-1.5">
+                    <select value="" onChange={e => moveTo([...selected], e.target.value === NO_FOLDER ? undefined : e.target.value)} className="min-w-0 flex-1 rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-2 py-1.5 text-xs text-[var(--c-text2)] outline-none">
+                      <option value="" disabled>Move to…</option>
+                      {folders.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                      <option value={NO_FOLDER}>No folder</option>
+                    </select>
+                    <button onClick={() => { const ids = [...selected]; const pin = !sessions.filter(s => selected.has(s.id)).every(s => s.pinned); onUpdateSessions(ids, s => ({ ...s, pinned: pin || undefined })); }} className="rounded-lg border border-[var(--c-border)] px-2 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation" title="Pin / unpin"><IconPin className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => { onUpdateSessions([...selected], s => ({ ...s, archived: view === 'archive' ? undefined : true })); setSelected(new Set()); }} className="rounded-lg border border-[var(--c-border)] px-2 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation" title={view === 'archive' ? 'Unarchive selected' : 'Archive selected'}><IconArchive className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => { onDeleteSessions([...selected]); setSelected(new Set()); }} className="rounded-lg border border-red-500/20 px-2 text-red-400 hover:bg-red-500/10 touch-manipulation" title="Move selected to trash"><IconTrash className="w-3.5 h-3.5" /></button>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <div className="relative min-w-0 flex-1">
+                      <IconTag className="pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-[var(--c-text4)]" />
+                      <input value={bulkTag} onChange={e => setBulkTag(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addTag(); }} placeholder="Add tag" className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] py-1.5 pl-6 pr-2 text-xs text-[var(--c-text)] placeholder-[var(--c-text4)] outline-none focus:border-[var(--c-accent-border)]" />
+                    </div>
+                    {EXPORT_FORMATS.map(([format, label]) => (
+                      <button key={format} onClick={() => onExportSessions([...selected], format)} className="shrink-0 rounded-lg border border-[var(--c-border)] px-2 text-[11px] text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation" title={`Export as ${label}`}>{format === 'print' ? 'PDF' : format.toUpperCase()}</button>
+                    ))}
+                  </div>
+                  {selectedTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {selectedTags.map(t => (
+                        <button key={t} onClick={() => onUpdateSessions([...selected], s => ({ ...s, tags: s.tags?.filter(x => x !== t).length ? s.tags.filter(x => x !== t) : undefined }))} className="flex items-center gap-0.5 rounded-md bg-[var(--c-surface)] px-1.5 py-0.5 text-[10px] text-[var(--c-text3)] hover:text-red-400 touch-manipulation" title="Remove tag from selected">#{t}<IconX className="w-2.5 h-2.5" /></button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           )}
         </div>
 
         <div className="border-t border-[var(--c-border)] px-4 py-3">
           <div className="flex items-center justify-center gap-2">
-            <div className={`h-1.5 w-1.5 rounded-full ${getModelDotColor(selectedModel)}`} />
+            <div className={`h-1.5 w-1.5 rounded-full ${getModelDotColor(selectedModel, config)}`} />
             <p className="text-[11px] text-[var(--c-text3)] font-medium truncate">{getModelShortName(selectedModel)}</p>
           </div>
+          {today.responses > 0 && <p className="mt-1 text-center text-[10px] text-[var(--c-text4)]">Today: {formatTokens(totalTokens(today))} tok · {formatCost(today.cost)}</p>}
         </div>
       </aside>
     </>
@@ -1086,117 +1988,10 @@ function IconRefresh({ className = 'w-4 h-4' }: { className?: string }) {
   return <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M21 12a9 9 0 0 0-9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" /><path d="M3 3v5h5" /><path d="M3 12a9 9 0 0 0 9 9 9.75 9.75 0 0 0 6.74-2.74L21 16" /><path d="M16 16h5v5" /></svg>;
 }
 
-// =============================================================================
-// Think tag parser
-// =============================================================================
-function parseThinkContent(content: string): { thinking: string; response: string; isThinkingPhase: boolean } {
-  if (!content) return { thinking: '', response: '', isThinkingPhase: false };
-
-  const openTag = '<think>';
-  const closeTag = '</think>';
-
-  const openIdx = content.indexOf(openTag);
-  if (openIdx === -1) {
-    return { thinking: '', response: content, isThinkingPhase: false };
-  }
-
-  const afterOpen = openIdx + openTag.length;
-  const closeIdx = content.indexOf(closeTag, afterOpen);
-
-  if (closeIdx === -1) {
-    // Still inside <think> tag (streaming)
-    const thinking = content.slice(afterOpen);
-    const before = content.slice(0, openIdx).trim();
-    return { thinking: thinking.trim(), response: before, isThinkingPhase: true };
-  }
-
-  const thinking = content.slice(afterOpen, closeIdx).trim();
-  const before = content.slice(0, openIdx).trim();
-  const after = content.slice(closeIdx + closeTag.length).trim();
-  const response = [before, after].filter(Boolean).join('\n\n');
-  return { thinking, response, isThinkingPhase: false };
-}
-
 function isVPNLocationError(content: string): boolean {
   return /location is not supported|FAILED_PRECONDITION/i.test(content);
 }
 
-// =============================================================================
-// Sources parser — extracts <!--SOURCES-->...<!--/SOURCES--> and also
-// catches common "Источники:" / "Sources:" sections at the end
-// =============================================================================
-interface ParsedSources {
-  mainContent: string;
-  sources: { title: string; url: string }[];
-}
-
-function parseSourcesFromContent(content: string): ParsedSources {
-  const sources: { title: string; url: string }[] = [];
-
-  // Method 1: Look for <!--SOURCES-->...<!--/SOURCES--> markers
-  const markerMatch = content.match(/<!--SOURCES-->([\s\S]*?)<!--\/SOURCES-->/);
-  if (markerMatch) {
-    const sourcesBlock = markerMatch[1];
-    const mainContent = content.replace(/<!--SOURCES-->[\s\S]*?<!--\/SOURCES-->/, '').trim();
-
-    // Parse markdown links: - [title](url)
-    const linkRegex = /\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g;
-    let m;
-    while ((m = linkRegex.exec(sourcesBlock)) !== null) {
-      sources.push({ title: m[1], url: m[2] });
-    }
-
-    // If no markdown links found, try plain URLs
-    if (sources.length === 0) {
-      const urlRegex = /(https?:\/\/[^\s,)]+)/g;
-      while ((m = urlRegex.exec(sourcesBlock)) !== null) {
-        sources.push({ title: new URL(m[1]).hostname, url: m[1] });
-      }
-    }
-
-    return { mainContent, sources };
-  }
-
-  // Method 2: Look for "Источники:" or "Sources:" section at end
-  // Match patterns like:
-  // \n\nИсточники:\n- url\n- url
-  // \nSources:\n1. url\n2. url
-  const sourceSectionRegex = /\n\n(?:#{0,3}\s*)?(?:Источники|Sources|Ссылки|References|Links)\s*:?\s*\n([\s\S]+?)$/i;
-  const sectionMatch = content.match(sourceSectionRegex);
-  if (sectionMatch) {
-    const block = sectionMatch[1];
-    const mainContent = content.slice(0, content.length - sectionMatch[0].length).trim();
-
-    // Parse markdown links
-    const linkRegex = /\[([^\]]*)\]\((https?:\/\/[^)]+)\)/g;
-    let m;
-    while ((m = linkRegex.exec(block)) !== null) {
-      sources.push({ title: m[1] || new URL(m[2]).hostname, url: m[2] });
-    }
-
-    // Parse plain URLs (numbered or bulleted)
-    if (sources.length === 0) {
-      const urlRegex = /(https?:\/\/[^\s,)]+)/g;
-      while ((m = urlRegex.exec(block)) !== null) {
-        try {
-          sources.push({ title: new URL(m[1]).hostname, url: m[1] });
-        } catch {
-          sources.push({ title: m[1].slice(0, 40), url: m[1] });
-        }
-      }
-    }
-
-    if (sources.length > 0) {
-      return { mainContent, sources };
-    }
-  }
-
-  // Also strip any remaining [N] citation markers from content
-  const cleaned = content.replace(/\s*\[(\d+)\]/g, '');
-
-  return { mainContent: cleaned, sources };
-}
-
 // =============================================================================
 // Collapsible Sources Component
 // =============================================================================
@@ -1268,8 +2063,151 @@ function StreamingDots({ label = 'Thinking...' }: { label?: string }) {
 // =============================================================================
 // Message Bubble
 // =============================================================================
-function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: () => void }) {
+function SummaryCard({ summary, stale, onChange }: { summary: ChatSummary; stale: boolean; onChange: (summary: ChatSummary | undefined) => void }) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div className="mx-3 sm:mx-4 mt-4 rounded-xl border border-violet-500/20 bg-violet-500/5">
+      <button onClick={() => setOpen(o => !o)} className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-violet-400 touch-manipulation">
+        <IconBrain className="w-3.5 h-3.5 shrink-0" />
+        <span className="font-medium">Summary of {summary.count} earlier messages</span>
+        {summary.edited && <span className="rounded bg-violet-500/15 px-1 text-[9px]">edited</span>}
+        {stale && <span className="rounded bg-amber-500/15 px-1 text-[9px] text-amber-400">rebuilds on next message</span>}
+        <IconChevron className={`w-3 h-3 ml-auto transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="border-t border-violet-500/20 px-3 py-2.5">
+          {draft === null ? (
+            <p className="whitespace-pre-wrap text-xs leading-relaxed text-[var(--c-text2)]">{summary.text}</p>
+          ) : (
+            <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={8} className="w-full rounded-lg border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-xs leading-relaxed text-[var(--c-text)] outline-none focus:border-[var(--c-accent-border)] resize-none" />
+          )}
+          <div className="mt-2 flex gap-2">
+            {draft === null ? (
+              <>
+                <button onClick={() => setDraft(summary.text)} className="flex items-center gap-1 rounded-lg px-2 py-1 text-[11px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] touch-manipulation"><IconEdit className="w-3 h-3" />Edit</button>
+                <button onClick={() => { if (confirm('Discard this summary? A new one is written with the next message.')) onChange(undefined); }} className="flex items-center gap-1 rounded-lg px-2 py-1 text-[11px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] touch-manipulation"><IconRefresh className="w-3 h-3" />Regenerate</button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => { if (draft.trim()) onChange({ ...summary, text: draft.trim(), edited: true, updatedAt: Date.now() }); setDraft(null); }} className="rounded-lg bg-[var(--c-accent)] px-2.5 py-1 text-[11px] font-medium text-white hover:opacity-90 touch-manipulation">Save</button>
+                <button onClick={() => setDraft(null)} className="rounded-lg px-2 py-1 text-[11px] text-[var(--c-text3)] hover:bg-[var(--c-surface)] touch-manipulation">Cancel</button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface BranchNav {
+  index: number;
+  count: number;
+  onSwitch: (offset: number) => void;
+}
+
+function BranchSwitcher({ branch }: { branch: BranchNav }) {
+  return (
+    <div className="flex items-center text-[11px] text-[var(--c-text4)]">
+      <button onClick={() => branch.onSwitch(-1)} disabled={branch.index === 0} className="rounded-md p-1 hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] disabled:opacity-30 disabled:hover:bg-transparent touch-manipulation" title="Previous version"><IconChevron className="w-3 h-3 rotate-90" /></button>
+      <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+      <button onClick={() => branch.onSwitch(1)} disabled={branch.index === branch.count - 1} className="rounded-md p-1 hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] disabled:opacity-30 disabled:hover:bg-transparent touch-manipulation" title="Next version"><IconChevron className="w-3 h-3 -rotate-90" /></button>
+    </div>
+  );
+}
+
+function RegenerateButton({ model, models, onRegenerate }: { model?: string; models: string[]; onRegenerate: (model?: string) => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className={`relative flex items-center rounded-md text-xs text-[var(--c-text4)] transition-all ${open ? '' : 'sm:opacity-0 sm:group-hover:opacity-100'}`}>
+      <button onClick={() => onRegenerate(model)} className="flex items-center gap-1.5 rounded-l-md px-2 py-1.5 hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] active:scale-95 touch-manipulation" title={model ? `Regenerate with ${getModelShortName(model)}` : 'Regenerate'}>
+        <IconRefresh className="w-3 h-3" />Regenerate
+      </button>
+      <button onClick={() => setOpen(o => !o)} className="rounded-r-md px-1 py-1.5 hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] touch-manipulation" title="Regenerate with another model">
+        <IconChevron className="w-3 h-3" />
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setOpen(false)} />
+          <div className="absolute bottom-full left-0 z-30 mb-1 max-h-64 w-56 overflow-y-auto rounded-xl border border-[var(--c-border)] bg-[var(--c-bg)] p-1 shadow-xl">
+            {models.map(m => (
+              <button key={m} onClick={() => { setOpen(false); onRegenerate(m); }} className={`flex w-full items-center rounded-lg px-2.5 py-1.5 text-left text-xs touch-manipulation ${m === model ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text2)]'} hover:bg-[var(--c-surface)]`}>
+                <span className="truncate">{getModelShortName(m)}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const TOOL_STATUS: Record<ToolInvocation['status'], [string, string]> = {
+  pending: ['Needs your OK', 'text-amber-400'],
+  running: ['Running…', 'text-[var(--c-accent-t)]'],
+  done: ['Done', 'text-emerald-400'],
+  error: ['Failed', 'text-red-400'],
+  denied: ['Declined', 'text-[var(--c-text4)]'],
+};
+/** Longer tool output is cut in the card; the model still got all of it */
+const TOOL_RESULT_PREVIEW = 2000;
+
+function ToolCallCard({ call, onDecide }: { call: ToolInvocation; onDecide?: (allow: boolean) => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const tool = getTool(call.name);
+  const [label, color] = TOOL_STATUS[call.status];
+  const open = expanded || call.status === 'pending';
+  // Strings unquoted, so code and multi-line input read as written
+  const args = Object.entries(call.args).map(([k, v]) => `${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`).join('\n') || null;
+  return (
+    <div className={`rounded-xl border bg-[var(--c-bg2)] text-xs ${call.status === 'pending' ? 'border-amber-500/30' : 'border-[var(--c-border)]'}`}>
+      <button onClick={() => setExpanded(!expanded)} className="flex w-full items-center gap-2 px-3 py-2 text-left touch-manipulation">
+        <IconWrench className="w-3.5 h-3.5 shrink-0 text-[var(--c-text3)]" />
+        <span className="truncate font-medium text-[var(--c-text2)]">{tool?.label || call.name}</span>
+        <span className={`ml-auto shrink-0 ${color}`}>{label}</span>
+        <IconChevron className={`w-3 h-3 shrink-0 text-[var(--c-text4)] transition-transform duration-200 ${open ? '' : '-rotate-90'}`} />
+      </button>
+      {open && (
+        <div className="space-y-2 border-t border-[var(--c-border)] px-3 py-2">
+          {args && <div className="max-h-40 overflow-auto whitespace-pre-wrap break-words rounded-lg bg-[var(--c-surface)] px-2.5 py-1.5 font-mono text-[11px] text-[var(--c-text3)]">{args}</div>}
+          {call.result !== undefined && (
+            <div className="max-h-60 overflow-auto whitespace-pre-wrap break-words font-mono text-[11px] text-[var(--c-text2)]">
+              {call.result.length > TOOL_RESULT_PREVIEW ? call.result.slice(0, TOOL_RESULT_PREVIEW) + '…' : call.result}
+            </div>
+          )}
+          {call.status === 'pending' && onDecide && (
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-[11px] text-[var(--c-text3)]">The model wants to run this tool.</span>
+              <button onClick={() => onDecide(false)} className="rounded-lg border border-[var(--c-border)] px-3 py-1.5 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation">Deny</button>
+              <button onClick={() => onDecide(true)} className="rounded-lg bg-[var(--c-accent)] px-3 py-1.5 font-medium text-white hover:opacity-90 touch-manipulation">Allow</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MessageBubble({ message, onRetry, onEdit, onRegenerate, regenerateModels = [], branch, cost, highlighted, onToolDecision }: {
+  message: ChatMessage;
+  onRetry?: () => void;
+  /** Resends an edited copy of this user message as a new branch */
+  onEdit?: (text: string) => void;
+  /** Adds another reply next to this one, by default from the same model */
+  onRegenerate?: (model?: string) => void;
+  regenerateModels?: string[];
+  branch?: BranchNav;
+  cost?: number | null;
+  /** Briefly marks the message a search jumped to */
+  highlighted?: boolean;
+  /** Answers a pending request to run a sensitive tool */
+  onToolDecision?: (callId: string, allow: boolean) => void;
+}) {
   const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
   const [thinkExpanded, setThinkExpanded] = useState(false);
   const isUser = message.role === 'user';
   const handleCopy = () => {
@@ -1297,8 +2235,21 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
   const isVpn = isError && isVPNLocationError(message.content);
   const errorText = isError ? message.content.replace(/^Error:\s*/i, '') : '';
 
+  // Horizontal swipe flips between alternatives
+  const onTouchStart = (e: ReactTouchEvent) => { touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY }; };
+  const onTouchEnd = (e: ReactTouchEvent) => {
+    const start = touchStart.current;
+    touchStart.current = null;
+    if (!start || !branch || branch.count < 2) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) < 60 || Math.abs(dy) > Math.abs(dx) / 2) return;
+    const offset = dx < 0 ? 1 : -1;
+    if (branch.index + offset >= 0 && branch.index + offset < branch.count) { e.stopPropagation(); branch.onSwitch(offset); }
+  };
+
   return (
-    <div className="group flex gap-2.5 sm:gap-3 px-3 py-2 sm:px-6 sm:py-3">
+    <div id={`msg-${message.id}`} className={`group flex gap-2.5 sm:gap-3 px-3 py-2 sm:px-6 sm:py-3 rounded-2xl transition-colors duration-700 ${highlighted ? 'bg-[var(--c-accent-bg)]' : ''}`} onTouchStart={branch ? onTouchStart : undefined} onTouchEnd={branch ? onTouchEnd : undefined}>
       <div className={`mt-1 flex h-6 w-6 sm:h-7 sm:w-7 shrink-0 items-center justify-center ${isUser ? 'rounded-full bg-[var(--c-surface-active)]' : ''}`}>
         {isUser ? <IconUser className="w-3 h-3 sm:w-3.5 sm:h-3.5 text-[var(--c-text2)]" /> : <DophyLogo className="w-6 h-6 sm:w-7 sm:h-7" />}
       </div>
@@ -1306,6 +2257,11 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
         <div className="mb-1 sm:mb-1.5 flex items-center gap-2">
           <span className="text-xs font-semibold text-[var(--c-text2)]">{isUser ? 'You' : (message.model ? getModelShortName(message.model) : 'DophyAI')}</span>
           <span className="text-[10px] text-[var(--c-text4)]">{new Date(message.timestamp).toLocaleTimeString()}</span>
+          {message.usage && !message.isStreaming && (
+            <span className="text-[10px] text-[var(--c-text4)]" title={`${message.usage.model ? getModelShortName(message.usage.model) + ' · ' : ''}prompt → completion${message.usage.thinkingTokens ? ' (+ thinking)' : ''}`}>
+              {message.usage.estimated ? '~' : ''}{formatTokens(message.usage.promptTokens)} → {formatTokens(message.usage.completionTokens)}{message.usage.thinkingTokens ? ` +${formatTokens(message.usage.thinkingTokens)}` : ''} tok{cost != null ? ` · ${formatCost(cost)}` : ''}
+            </span>
+          )}
         </div>
         {/* User images */}
         {message.images && message.images.length > 0 && (
@@ -1314,7 +2270,17 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
           </div>
         )}
         {isUser ? (
-          <p className="whitespace-pre-wrap text-sm leading-relaxed text-[var(--c-text)]">{message.content}</p>
+          draft !== null ? (
+            <div>
+              <textarea value={draft} onChange={e => setDraft(e.target.value)} rows={Math.min(10, Math.max(3, draft.split('\n').length))} autoFocus className="w-full rounded-xl border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 py-2 text-sm leading-relaxed text-[var(--c-text)] outline-none focus:border-[var(--c-accent-border)] resize-none" />
+              <div className="mt-1.5 flex gap-2">
+                <button onClick={() => { if (draft.trim() && onEdit) { onEdit(draft.trim()); setDraft(null); } }} disabled={!draft.trim()} className="rounded-lg bg-[var(--c-accent)] px-3 py-1.5 text-xs font-medium text-white hover:opacity-90 disabled:opacity-40 touch-manipulation">Save & send</button>
+                <button onClick={() => setDraft(null)} className="rounded-lg px-3 py-1.5 text-xs text-[var(--c-text3)] hover:bg-[var(--c-surface)] touch-manipulation">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap text-sm leading-relaxed text-[var(--c-text)]">{message.content}</p>
+          )
         ) : isError ? (
           /* ==================== Error Display ==================== */
           <div className="space-y-3">
@@ -1366,6 +2332,11 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
         ) : (
           /* ==================== Normal Assistant Message ==================== */
           <div className="rounded-2xl bg-[var(--c-surface)] border border-[var(--c-border)] px-3 py-2.5 sm:px-4 sm:py-3">
+            {message.toolCalls && message.toolCalls.length > 0 && (
+              <div className={`space-y-1.5 ${message.content ? 'mb-3' : ''}`}>
+                {message.toolCalls.map(call => <ToolCallCard key={call.id} call={call} onDecide={onToolDecision && (allow => onToolDecision(call.id, allow))} />)}
+              </div>
+            )}
             <div className="prose-custom text-sm leading-relaxed text-[var(--c-text2)]">
               {message.isStreaming && !message.content ? (
                 <StreamingDots />
@@ -1436,12 +2407,56 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
             )}
           </div>
         )}
-        {/* Copy button — only for non-error assistant messages */}
-        {!isUser && !isError && message.content && !message.isStreaming && (
-          <button onClick={handleCopy} className="mt-1 sm:mt-1.5 flex items-center gap-1.5 rounded-md px-2 py-1.5 text-xs text-[var(--c-text4)] transition-all hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation">
-            {copied ? <><IconCheck className="w-3 h-3 text-emerald-400" />Copied</> : <><IconCopy className="w-3 h-3" />Copy</>}
-          </button>
-        )}
+        <div className="mt-1 sm:mt-1.5 flex items-center gap-1">
+          {branch && branch.count > 1 && <BranchSwitcher branch={branch} />}
+          {/* Edit & resend — user messages only */}
+          {isUser && onEdit && draft === null && (
+            <button onClick={() => setDraft(message.content)} className="flex items-center gap-1.5 rounded-md px-2 py-1.5 text-xs text-[var(--c-text4)] transition-all hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation">
+              <IconEdit className="w-3 h-3" />Edit
+            </button>
+          )}
+          {/* Copy button — only for non-error assistant messages */}
+          {!isUser && !isError && message.content && !message.isStreaming && (
+            <button onClick={handleCopy} className="flex items-center gap-1.5 rounded-md px-2 py-1.5 text-xs text-[var(--c-text4)] transition-all hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)] sm:opacity-0 sm:group-hover:opacity-100 active:scale-95 touch-manipulation">
+              {copied ? <><IconCheck className="w-3 h-3 text-emerald-400" />Copied</> : <><IconCopy className="w-3 h-3" />Copy</>}
+            </button>
+          )}
+          {!isUser && onRegenerate && !message.isStreaming && <RegenerateButton model={message.model} models={regenerateModels} onRegenerate={onRegenerate} />}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Compare View — one prompt answered by several models side by side
+// =============================================================================
+function CompareView({ replies, config, onPick, onStop, onToolDecision }: {
+  replies: ChatMessage[];
+  config: AppConfig;
+  onPick: (id: string) => void;
+  onStop: (id: string) => void;
+  onToolDecision: (callId: string, allow: boolean) => void;
+}) {
+  const streaming = replies.some(r => r.isStreaming);
+  return (
+    <div className="px-3 sm:px-6 py-2">
+      <p className="mb-2 text-[11px] text-[var(--c-text3)]">{streaming ? `Comparing ${replies.length} models…` : 'Pick the reply to continue with — the others stay available as alternatives.'}</p>
+      <div className={`grid gap-3 ${replies.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-2 xl:grid-cols-3'}`}>
+        {replies.map(r => (
+          <div key={r.id} className="flex min-w-0 flex-col rounded-2xl border border-[var(--c-border)] bg-[var(--c-bg2)]">
+            <div className="min-w-0 flex-1">
+              <MessageBubble message={r} cost={r.usage ? usageCost(config, r.usage, r.model) : null} onToolDecision={onToolDecision} />
+            </div>
+            <div className="flex gap-2 border-t border-[var(--c-border)] p-2">
+              {r.isStreaming ? (
+                <button onClick={() => onStop(r.id)} className="flex flex-1 items-center justify-center gap-1.5 rounded-lg bg-red-500/10 px-3 py-1.5 text-xs text-red-400 hover:bg-red-500/20 touch-manipulation"><IconStop className="w-3 h-3" />Stop</button>
+              ) : (
+                <button onClick={() => onPick(r.id)} disabled={streaming} className="flex flex-1 items-center justify-center gap-1.5 rounded-lg bg-[var(--c-accent-bg)] px-3 py-1.5 text-xs font-medium text-[var(--c-accent-t)] hover:opacity-90 disabled:opacity-40 touch-manipulation"><IconCheck className="w-3 h-3" />Continue with this</button>
+              )}
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -1451,9 +2466,16 @@ function MessageBubble({ message, onRetry }: { message: ChatMessage; onRetry?: (
 // Main App
 // =============================================================================
 export function App() {
-  const [config, setConfig] = useState<AppConfig>(loadConfig);
-  const [sessions, setSessions] = useState<ChatSession[]>(loadSessions);
+  const [initialConfig] = useState(loadConfig);
+  const [config, setConfig] = useState<AppConfig>(initialConfig.config);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  /** Nothing is saved until the stored chats have been read */
+  const [sessionsLoaded, setSessionsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(loadActiveId);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  /** Last deletion, undoable until the toast times out */
+  const [undo, setUndo] = useState<{ message: string; ids: string[]; activeId: string | null } | null>(null);
   const [selectedModel, setSelectedModel] = useState<string>(loadModel);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -1461,15 +2483,22 @@ export function App() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [attachedImages, setAttachedImages] = useState<string[]>([]);
+  const [chatPanel, setChatPanel] = useState<'params' | 'prompt' | 'compare' | 'export' | null>(null);
+  /** Compare mode is on while two or more models are picked */
+  const [compareModels, setCompareModels] = useState<string[]>([]);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const abortRef = useRef<AbortController | null>(null);
+  /** One controller per reply being streamed, keyed by message id */
+  const abortsRef = useRef(new Map<string, AbortController>());
+  /** Sensitive tool calls waiting for Allow / Deny, keyed by call id */
+  const confirmsRef = useRef(new Map<string, (allow: boolean) => void>());
 
   const activeSession = sessions.find(s => s.id === activeSessionId) || null;
-  const messages = activeSession?.messages || [];
-  const hasKeys = config.googleKeys.length > 0 || !!config.openrouterKey || !!config.sambaKey;
+  const messages = useMemo(() => activeSession ? activePath(activeSession) : [], [activeSession]);
+  const branches = useMemo(() => activeSession ? childrenMap(activeSession) : null, [activeSession]);
+  const hasKeys = listProviders(config).some(p => isProviderConfigured(p, config));
 
   const swipeHandlers = useSwipe(
     () => { if (!settingsOpen) setSidebarOpen(true); },
@@ -1477,9 +2506,19 @@ export function App() {
   );
 
   useEffect(() => { applyThemeToDOM(config.theme); }, [config.theme]);
-  useEffect(() => { messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages]);
-  useEffect(() => { const t = setTimeout(() => saveSessions(sessions), 300); return () => clearTimeout(t); }, [sessions]);
+  useEffect(() => { if (!highlightId) messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages]);
+  useEffect(() => {
+    if (!highlightId) return;
+    document.getElementById(`msg-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const t = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(t);
+  }, [highlightId, activeSessionId]);
   useEffect(() => { saveActiveId(activeSessionId); }, [activeSessionId]);
+  useEffect(() => {
+    if (!undo) return;
+    const t = setTimeout(() => setUndo(null), 8000);
+    return () => clearTimeout(t);
+  }, [undo]);
 
   useEffect(() => {
     const preventBounce = (e: Event) => {
@@ -1492,6 +2531,40 @@ export function App() {
   }, []);
 
   const addLog = useCallback((e: LogEntry) => { setLogs(p => [...p.slice(-200), e]); }, []);
+
+  useEffect(() => {
+    for (const e of initialConfig.errors) addLog({ timestamp: Date.now(), level: 'warn', message: `Config ${e.field}: ${e.message}` });
+  }, [initialConfig, addLog]);
+
+  useEffect(() => {
+    loadSessions().then(loaded => {
+      // Keep anything started while loading
+      setSessions(p => [...p, ...loaded.filter(s => !p.some(x => x.id === s.id))]);
+      setSessionsLoaded(true);
+    }).catch(err => {
+      const msg = err instanceof Error ? err.message : String(err);
+      setStorageError(`Could not read saved chats: ${msg}`);
+      addLog({ timestamp: Date.now(), level: 'error', message: `Storage: ${msg}` });
+    });
+  }, [addLog]);
+
+  const persistSessions = useCallback((list: ChatSession[]) => {
+    saveSessions(list).then(() => setStorageError(null), err => {
+      const msg = err instanceof Error ? err.message : String(err);
+      setStorageError(msg);
+      addLog({ timestamp: Date.now(), level: 'error', message: `Storage: ${msg}` });
+    });
+  }, [addLog]);
+
+  useEffect(() => {
+    if (sessionsLoaded) setSessions(p => purgeExpired(p, config.trashRetentionDays));
+  }, [sessionsLoaded, config.trashRetentionDays]);
+
+  useEffect(() => {
+    if (!sessionsLoaded) return;
+    const t = setTimeout(() => persistSessions(sessions), 300);
+    return () => clearTimeout(t);
+  }, [sessions, sessionsLoaded, persistSessions]);
   const handleModelSelect = useCallback((m: string) => { setSelectedModel(m); saveModel(m); }, []);
 
   const handleNewChat = useCallback(() => {
@@ -1500,9 +2573,63 @@ export function App() {
   }, [selectedModel]);
 
   const handleSelectSession = useCallback((id: string) => { setActiveSessionId(id); setAttachedImages([]); }, []);
-  const handleDeleteSession = useCallback((id: string) => { setSessions(p => p.filter(s => s.id !== id)); if (activeSessionId === id) setActiveSessionId(null); }, [activeSessionId]);
-  const handleRenameSession = useCallback((id: string, title: string) => { setSessions(p => p.map(s => s.id === id ? { ...s, title } : s)); }, []);
-  const handleClearAllSessions = useCallback(() => { if (confirm('Delete all chats?')) { setSessions([]); setActiveSessionId(null); } }, []);
+  const handleOpenMessage = useCallback((sessionId: string, messageId: string) => {
+    // A hit on another branch switches to it first
+    setSessions(p => p.map(s => s.id === sessionId && !activePath(s).some(m => m.id === messageId) ? { ...s, leafId: latestLeaf(s, messageId) } : s));
+    setActiveSessionId(sessionId); setAttachedImages([]); setHighlightId(messageId);
+  }, []);
+  /** Moves chats to the trash and offers to undo for a few seconds */
+  const trashChats = useCallback((ids: string[], message: string) => {
+    const set = new Set(ids);
+    if (set.size === 0) return;
+    const wasActive = activeSessionId && set.has(activeSessionId) ? activeSessionId : null;
+    setSessions(p => trashSessions(p, set));
+    if (wasActive) setActiveSessionId(null);
+    setUndo({ message, ids, activeId: wasActive });
+  }, [activeSessionId]);
+  const handleUndoDelete = useCallback(() => {
+    if (!undo) return;
+    setSessions(p => restoreSessions(p, new Set(undo.ids)));
+    if (undo.activeId) setActiveSessionId(undo.activeId);
+    setUndo(null);
+  }, [undo]);
+  const handleDeleteSession = useCallback((id: string) => {
+    trashChats([id], `Moved “${sessions.find(s => s.id === id)?.title ?? 'chat'}” to trash`);
+  }, [sessions, trashChats]);
+  const handleRenameSession = useCallback((id: string, title: string) => { setSessions(p => p.map(s => s.id === id ? { ...s, title, titleEdited: true } : s)); }, []);
+  const handleUpdateSessions = useCallback((ids: string[], update: (s: ChatSession) => ChatSession) => {
+    const set = new Set(ids);
+    setSessions(p => p.map(s => set.has(s.id) ? update(s) : s));
+  }, []);
+  const handleDeleteSessions = useCallback((ids: string[]) => {
+    trashChats(ids, `Moved ${ids.length} chat${ids.length === 1 ? '' : 's'} to trash`);
+  }, [trashChats]);
+  const handleRestoreSessions = useCallback((ids: string[]) => { setSessions(p => restoreSessions(p, new Set(ids))); }, []);
+  const handlePurgeSessions = useCallback((ids: string[]) => {
+    const set = new Set(ids);
+    setSessions(p => p.filter(s => !set.has(s.id)));
+    setUndo(u => u && u.ids.some(id => set.has(id)) ? null : u);
+  }, []);
+  const handleExportSessions = useCallback((ids: string[], format: ExportFormat) => {
+    const set = new Set(ids);
+    exportChats(sessions.filter(s => set.has(s.id)), format, ids.length === 1 ? sessions.find(s => s.id === ids[0])?.title || 'chat' : 'chats')
+      .catch(err => addLog({ timestamp: Date.now(), level: 'error', message: `Export: ${err instanceof Error ? err.message : String(err)}` }));
+  }, [sessions, addLog]);
+  const handleFoldersChange = useCallback((chatFolders: ChatFolder[]) => {
+    setConfig(c => { const next = { ...c, chatFolders }; saveConfig(next); return next; });
+  }, []);
+  const handleClearAllSessions = useCallback(() => {
+    const ids = sessions.filter(s => !isTrashed(s) && !s.archived).map(s => s.id);
+    trashChats(ids, `Moved ${ids.length} chat${ids.length === 1 ? '' : 's'} to trash`);
+  }, [sessions, trashChats]);
+  const handleChatParams = useCallback((params: GenerationParams) => {
+    if (!activeSessionId) return;
+    setSessions(p => p.map(s => s.id === activeSessionId ? { ...s, params: hasParams(params) ? params : undefined } : s));
+  }, [activeSessionId]);
+  const handleChatPrompt = useCallback((prompt: ChatPrompt | undefined) => {
+    if (!activeSessionId) return;
+    setSessions(p => p.map(s => s.id === activeSessionId ? { ...s, prompt } : s));
+  }, [activeSessionId]);
 
   const handleImageUpload = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files; if (!files) return;
@@ -1527,38 +2654,147 @@ export function App() {
     }
   }, []);
 
-  const handleStop = useCallback(() => { if (abortRef.current) { abortRef.current.abort(); abortRef.current = null; } }, []);
+  const handleStop = useCallback(() => { abortsRef.current.forEach(ac => ac.abort()); abortsRef.current.clear(); }, []);
+  const handleStopReply = useCallback((id: string) => { abortsRef.current.get(id)?.abort(); }, []);
+  const handleToolDecision = useCallback((callId: string, allow: boolean) => {
+    const resolve = confirmsRef.current.get(callId);
+    confirmsRef.current.delete(callId);
+    resolve?.(allow);
+  }, []);
 
-  const handleSend = useCallback(async (e?: FormEvent) => {
-    e?.preventDefault();
-    const text = input.trim();
-    if (!text && attachedImages.length === 0) return;
-    if (isLoading) return;
+  /**
+   * Refreshes the rolling summary once for all replies of a send. Compared
+   * models may leave out different numbers of turns; the summary covers the
+   * most, so for the others it overlaps a few turns they still send.
+   */
+  const prepareSummary = useCallback(async (plans: ContextPlan[], models: string[], session: ChatSession | undefined, signal: AbortSignal): Promise<ChatSummary | undefined> => {
+    const widest = plans.reduce((best, plan, i) => plan.dropped > plans[best].dropped ? i : best, 0);
+    if (plans[widest].dropped === 0 || !session) return undefined;
+    try {
+      const summary = await updateSummary(session.summary, plans[widest].omitted, config, models[widest], addLog, signal);
+      if (summary !== session.summary) setSessions(p => p.map(s => s.id === session.id ? { ...s, summary } : s));
+      return summary;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes('abort')) throw err;
+      addLog({ timestamp: Date.now(), level: 'warn', message: `Summary failed, sending without it: ${msg.slice(0, 80)}` });
+      return undefined;
+    }
+  }, [config, addLog]);
 
-    const isSearch = selectedModel === 'auto-search';
-    const needsGoogle = !isSearch && isGoogleModel(selectedModel);
-    const needsSamba = !isSearch && isSambaModel(selectedModel);
-    const needsOR = !isSearch && !needsGoogle && !needsSamba;
+  const handleSummaryChange = useCallback((summary: ChatSummary | undefined) => {
+    if (!activeSessionId) return;
+    setSessions(p => p.map(s => s.id === activeSessionId ? { ...s, summary } : s));
+  }, [activeSessionId]);
 
-    if (isSearch && config.googleKeys.length === 0 && !config.sambaKey && !config.openrouterKey) {
+  /** Checks the model can be used; opens Settings when it can't */
+  const ensureConfigured = useCallback((model: string): boolean => {
+    const provider = getModelProvider(model, config);
+
+    if (!provider && !hasKeys) {
       addLog({ timestamp: Date.now(), level: 'error', message: 'AI Search requires at least one API key (Google recommended). Open Settings.' });
       setSettingsOpen(true);
-      return;
+      return false;
     }
 
-    if (needsGoogle && config.googleKeys.length === 0) {
-      addLog({ timestamp: Date.now(), level: 'error', message: 'No Google API keys configured. Open Settings.' });
+    if (provider && !isProviderConfigured(provider, config)) {
+      addLog({ timestamp: Date.now(), level: 'error', message: `No ${provider.label} API key configured. Open Settings.` });
       setSettingsOpen(true);
-      return;
+      return false;
     }
-    if (needsSamba && !config.sambaKey) {
-      addLog({ timestamp: Date.now(), level: 'error', message: 'No SambaNova API key configured. Open Settings.' });
-      setSettingsOpen(true);
-      return;
+    return true;
+  }, [config, hasKeys, addLog]);
+
+  const patchMessage = useCallback((sid: string, id: string, update: (m: ChatMessage) => ChatMessage) => {
+    setSessions(p => p.map(s => s.id === sid ? updateMessage(s, id, update) : s));
+  }, []);
+
+  /**
+   * Streams answers to `history` into the (already added) assistant messages, each with its own model and AbortController.
+   * Resolves to the final text per reply ('' for failed ones).
+   */
+  const streamReplies = useCallback(async (sid: string, session: ChatSession | undefined, history: ChatMessage[], replies: ChatMessage[]): Promise<string[]> => {
+    setIsLoading(true);
+    const effectiveSystemPrompt = buildEffectiveSystemPrompt(config, session);
+    const models = replies.map(r => r.model || selectedModel);
+    const plans = models.map(model => planContext(history, model, config, effectiveSystemPrompt, session));
+    const aborts = replies.map(r => { const ac = new AbortController(); abortsRef.current.set(r.id, ac); return ac; });
+    // The summary is only abandoned once every reply waiting for it is stopped
+    const summaryAbort = new AbortController();
+    for (const ac of aborts) ac.signal.addEventListener('abort', () => { if (aborts.every(a => a.signal.aborted)) summaryAbort.abort(); });
+    const summary = prepareSummary(plans, models, session, summaryAbort.signal);
+
+    const streamOne = async (reply: ChatMessage, i: number): Promise<string> => {
+      const model = models[i];
+      const ac = aborts[i];
+      const tools = enabledTools(config);
+      // Stopping the reply also answers any open confirmation with "no"
+      const toolRun: ToolRun | undefined = tools.length > 0 ? {
+        tools,
+        confirm: call => new Promise(resolve => {
+          confirmsRef.current.set(call.id, resolve);
+          ac.signal.addEventListener('abort', () => { confirmsRef.current.delete(call.id); resolve(false); }, { once: true });
+        }),
+        onUpdate: toolCalls => patchMessage(sid, reply.id, m => ({ ...m, toolCalls })),
+      } : undefined;
+
+      try {
+        const plan = plans[i];
+        logContextPlan(plan, addLog);
+        const current = await summary;
+        const systemPrompt = plan.dropped > 0 && current ? withSummary(effectiveSystemPrompt, current) : effectiveSystemPrompt;
+
+        const result = await generateResponse(plan.messages, model, { ...config, systemPrompt },
+          (chunk) => patchMessage(sid, reply.id, m => ({ ...m, content: m.content + chunk })),
+          () => patchMessage(sid, reply.id, m => ({ ...m, content: '' })),
+          addLog, ac.signal, session?.params, toolRun
+        );
+
+        setSessions(p => p.map(s => s.id === sid ? {
+          ...updateMessage(s, reply.id, m => ({ ...m, content: result.text || m.content, responseImages: result.images.length > 0 ? result.images : undefined, usage: result.usage, isStreaming: false })),
+          updatedAt: Date.now(),
+        } : s));
+        return result.text;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        if (!msg.includes('abort')) addLog({ timestamp: Date.now(), level: 'error', message: replies.length > 1 ? `${getModelShortName(model)}: ${msg}` : msg });
+        patchMessage(sid, reply.id, m => ({ ...m, content: m.content || `Error: ${msg}`, isStreaming: false, isError: !m.content }));
+        return '';
+      } finally {
+        abortsRef.current.delete(reply.id);
+      }
+    };
+
+    try {
+      return await Promise.all(replies.map(streamOne));
+    } finally {
+      setIsLoading(false);
     }
-    if (needsOR && !config.openrouterKey) {
-      addLog({ timestamp: Date.now(), level: 'error', message: 'No OpenRouter key configured. Open Settings.' });
-      setSettingsOpen(true);
+  }, [config, selectedModel, addLog, prepareSummary, patchMessage]);
+
+  /** Replaces the truncated title once the first reply is in; runs after the reply and never blocks it */
+  const titleChat = useCallback(async (sid: string, prompt: ChatMessage, reply: string) => {
+    try {
+      const title = await generateChatTitle(prompt, reply, config, addLog);
+      if (title) setSessions(p => p.map(s => s.id === sid && !s.titleEdited ? { ...s, title } : s));
+    } catch (err) {
+      addLog({ timestamp: Date.now(), level: 'warn', message: `Title: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }, [config, addLog]);
+
+  const handleSend = useCallback(async (e?: FormEvent) => {
+    e?.preventDefault();
+    const text = input.trim();
+    if (!text && attachedImages.length === 0) return;
+    if (isLoading) return;
+    const comparing = compareModels.length >= 2;
+    const models = comparing ? compareModels : [selectedModel];
+    if (!models.every(m => ensureConfigured(m))) return;
+
+    const cur = sessions.find(s => s.id === activeSessionId);
+    const path = cur ? activePath(cur) : [];
+    if (cur && pendingComparison(cur, path)) {
+      addLog({ timestamp: Date.now(), level: 'warn', message: 'Pick one of the compared replies to continue' });
       return;
     }
 
@@ -1569,89 +2805,95 @@ export function App() {
     }
 
     const userMsg: ChatMessage = { id: uid(), role: 'user', content: text || 'Describe this image', images: attachedImages.length > 0 ? [...attachedImages] : undefined, timestamp: Date.now() };
-    const assistMsg: ChatMessage = { id: uid(), role: 'assistant', content: '', model: selectedModel, timestamp: Date.now(), isStreaming: true };
+    const replies = models.map((model): ChatMessage => ({ id: uid(), role: 'assistant', content: '', model, timestamp: Date.now(), isStreaming: true }));
     const sid = sessionId;
+    const parentId = path.length > 0 ? path[path.length - 1].id : null;
 
     setSessions(p => p.map(s => {
-      if (s.id === sid) { const m = [...s.messages, userMsg, assistMsg]; return { ...s, messages: m, updatedAt: Date.now(), title: s.title === 'New Chat' ? generateTitle(m) : s.title }; }
+      if (s.id === sid) {
+        let next = appendToBranch(s, parentId, [userMsg, replies[0]]);
+        // Compared replies are siblings under the same prompt
+        for (const r of replies.slice(1)) next = appendToBranch(next, userMsg.id, [r]);
+        if (comparing) next = { ...next, leafId: replies[0].id, comparisons: [...(s.comparisons || []), { promptId: userMsg.id, replyIds: replies.map(r => r.id) }] };
+        return { ...next, updatedAt: Date.now(), title: s.title === 'New Chat' ? truncatedTitle(activePath(next)) : s.title };
+      }
       return s;
     }));
 
-    setInput(''); setAttachedImages([]); setIsLoading(true);
+    setInput(''); setAttachedImages([]);
     if (inputRef.current) inputRef.current.style.height = 'auto';
 
-    const ac = new AbortController(); abortRef.current = ac;
+    const texts = await streamReplies(sid, cur, [...path, userMsg], replies);
+    const reply = texts.find(Boolean);
+    if (config.autoTitles && reply && (!cur || cur.title === 'New Chat')) void titleChat(sid, userMsg, reply);
+  }, [input, attachedImages, isLoading, activeSessionId, sessions, selectedModel, compareModels, config.autoTitles, ensureConfigured, addLog, streamReplies, titleChat]);
 
-    try {
-      const cur = sessions.find(s => s.id === sid);
-      const hist = [...(cur?.messages || []), userMsg].slice(-20);
+  const handlePickWinner = useCallback((promptId: string, replyId: string) => {
+    if (!activeSessionId) return;
+    setSessions(p => p.map(s => s.id === activeSessionId ? pickComparisonWinner(s, promptId, replyId) : s));
+  }, [activeSessionId]);
 
-      const effectiveSystemPrompt = buildEffectiveSystemPrompt(config);
-      const effectiveConfig = { ...config, systemPrompt: effectiveSystemPrompt };
+  /** Sends an edited copy of a past user message as a sibling branch */
+  const handleEditMessage = useCallback((id: string, text: string) => {
+    if (!activeSessionId || isLoading) return;
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session || !ensureConfigured(selectedModel)) return;
 
-      const result = await generateResponse(hist, selectedModel, effectiveConfig,
-        (chunk) => { setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: l.content + chunk }; return { ...s, messages: m }; } return s; })); },
-        () => { setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: '' }; return { ...s, messages: m }; } return s; })); },
-        addLog, ac.signal
-      );
+    const path = activePath(session);
+    const at = path.findIndex(m => m.id === id);
+    if (at === -1 || path[at].role !== 'user') return;
 
-      setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: result.text || l.content, responseImages: result.images.length > 0 ? result.images : undefined, isStreaming: false }; return { ...s, messages: m, updatedAt: Date.now() }; } return s; }));
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Unknown error';
-      if (!msg.includes('abort')) addLog({ timestamp: Date.now(), level: 'error', message: msg });
-      setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') { const hasContent = !!l.content; m[m.length - 1] = { ...l, content: l.content || `Error: ${msg}`, isStreaming: false, isError: !hasContent }; } return { ...s, messages: m }; } return s; }));
-    } finally {
-      setIsLoading(false); abortRef.current = null;
-    }
-  }, [input, attachedImages, isLoading, activeSessionId, sessions, selectedModel, config, addLog]);
+    const sid = activeSessionId;
+    const userMsg: ChatMessage = { id: uid(), role: 'user', content: text, images: path[at].images, timestamp: Date.now() };
+    const assistMsg: ChatMessage = { id: uid(), role: 'assistant', content: '', model: selectedModel, timestamp: Date.now(), isStreaming: true };
+    const parentId = at > 0 ? path[at - 1].id : null;
+    setSessions(p => p.map(s => s.id === sid ? { ...appendToBranch(s, parentId, [userMsg, assistMsg]), updatedAt: Date.now() } : s));
 
-  const handleRetry = useCallback(() => {
-    if (!activeSessionId || isLoading) return;
+    void streamReplies(sid, session, [...path.slice(0, at), userMsg], [assistMsg]);
+  }, [activeSessionId, sessions, isLoading, selectedModel, ensureConfigured, streamReplies]);
 
+  /** Adds another reply beside an assistant message; the earlier ones stay as alternatives */
+  const handleRegenerate = useCallback((id: string, model: string) => {
+    if (!activeSessionId || isLoading) return;
     const session = sessions.find(s => s.id === activeSessionId);
-    if (!session || session.messages.length < 2) return;
+    if (!session || !ensureConfigured(model)) return;
 
-    const lastMsg = session.messages[session.messages.length - 1];
-    if (lastMsg.role !== 'assistant' || !lastMsg.isError) return;
+    const path = activePath(session);
+    const at = path.findIndex(m => m.id === id);
+    if (at < 1 || path[at].role !== 'assistant') return;
 
     const sid = activeSessionId;
+    const assistMsg: ChatMessage = { id: uid(), role: 'assistant', content: '', model, timestamp: Date.now(), isStreaming: true };
+    setSessions(p => p.map(s => s.id === sid ? { ...appendToBranch(s, path[at - 1].id, [assistMsg]), updatedAt: Date.now() } : s));
 
-    // Replace the error message with a new streaming message
-    const newAssistMsg: ChatMessage = { id: uid(), role: 'assistant', content: '', model: selectedModel, timestamp: Date.now(), isStreaming: true };
-    setSessions(p => p.map(s => {
-      if (s.id === sid) {
-        const m = [...s.messages];
-        m[m.length - 1] = newAssistMsg;
-        return { ...s, messages: m };
-      }
-      return s;
-    }));
+    void streamReplies(sid, session, path.slice(0, at), [assistMsg]);
+  }, [activeSessionId, sessions, isLoading, ensureConfigured, streamReplies]);
 
-    setIsLoading(true);
-    const ac = new AbortController();
-    abortRef.current = ac;
+  const handleSwitchBranch = useCallback((id: string, offset: number) => {
+    if (!activeSessionId) return;
+    setSessions(p => p.map(s => s.id === activeSessionId ? switchBranch(s, id, offset) : s));
+  }, [activeSessionId]);
 
-    // History = all messages except the last error one
-    const hist = session.messages.slice(0, -1).slice(-20);
+  const handleRetry = useCallback(() => {
+    if (!activeSessionId || isLoading) return;
 
-    const effectiveSystemPrompt = buildEffectiveSystemPrompt(config);
-    const effectiveConfig = { ...config, systemPrompt: effectiveSystemPrompt };
+    const session = sessions.find(s => s.id === activeSessionId);
+    if (!session) return;
+    const path = activePath(session);
+    if (path.length < 2) return;
 
-    generateResponse(hist, selectedModel, effectiveConfig,
-      (chunk) => { setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: l.content + chunk }; return { ...s, messages: m }; } return s; })); },
-      () => { setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: '' }; return { ...s, messages: m }; } return s; })); },
-      addLog, ac.signal
-    ).then(result => {
-      setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') m[m.length - 1] = { ...l, content: result.text || l.content, responseImages: result.images.length > 0 ? result.images : undefined, isStreaming: false }; return { ...s, messages: m, updatedAt: Date.now() }; } return s; }));
-    }).catch(err => {
-      const msg = err instanceof Error ? err.message : 'Unknown error';
-      if (!msg.includes('abort')) addLog({ timestamp: Date.now(), level: 'error', message: msg });
-      setSessions(p => p.map(s => { if (s.id === sid) { const m = [...s.messages]; const l = m[m.length - 1]; if (l?.role === 'assistant') { const hasContent = !!l.content; m[m.length - 1] = { ...l, content: l.content || `Error: ${msg}`, isStreaming: false, isError: !hasContent }; } return { ...s, messages: m }; } return s; }));
-    }).finally(() => {
-      setIsLoading(false);
-      abortRef.current = null;
-    });
-  }, [activeSessionId, sessions, isLoading, selectedModel, config, addLog]);
+    const lastMsg = path[path.length - 1];
+    if (lastMsg.role !== 'assistant' || !lastMsg.isError) return;
+
+    const sid = activeSessionId;
+
+    // Reset the error message in place so it keeps its spot in the tree
+    const reset: ChatMessage = { id: lastMsg.id, parentId: lastMsg.parentId, role: 'assistant', content: '', model: selectedModel, timestamp: Date.now(), isStreaming: true };
+    patchMessage(sid, lastMsg.id, () => reset);
+
+    // History = the branch up to the failed reply
+    void streamReplies(sid, session, path.slice(0, -1), [reset]);
+  }, [activeSessionId, sessions, isLoading, selectedModel, patchMessage, streamReplies]);
 
   const isMobile = useCallback(() => {
     return 'ontouchstart' in window || navigator.maxTouchPoints > 0 || window.innerWidth < 768;
@@ -1672,11 +2914,19 @@ export function App() {
   }, [handleSend, isMobile]);
   const handleInputChange = useCallback((e: ChangeEvent<HTMLTextAreaElement>) => { setInput(e.target.value); const el = e.target; el.style.height = 'auto'; el.style.height = Math.min(el.scrollHeight, 160) + 'px'; }, []);
 
-  const dotColor = getModelDotColor(selectedModel);
+  const dotColor = getModelDotColor(selectedModel, config);
+  const persona = resolveChatPrompt(config, activeSession).label;
+  const comparing = compareModels.length >= 2;
+  const comparison = activeSession ? pendingComparison(activeSession, messages) : undefined;
+  const shownMessages = comparison ? messages.slice(0, messages.findIndex(m => m.id === comparison.promptId) + 1) : messages;
+  const compareReplies = comparison ? activeSession!.messages.filter(m => comparison.replyIds.includes(m.id)) : [];
+  const availableModels = [...Object.keys(AUTO_MODES), ...listProviders(config).filter(p => isProviderConfigured(p, config)).flatMap(p => p.models.get(config))];
+  const contextPreview = activeSession && messages.length > 0 ? planContext(messages, selectedModel, config, buildEffectiveSystemPrompt(config, activeSession), activeSession) : null;
+  const contextTrimmed = !!contextPreview && (contextPreview.dropped > 0 || contextPreview.truncated);
 
   return (
     <div className="flex h-[100dvh] bg-[var(--c-bg)] text-[var(--c-text)] font-[Inter,system-ui,sans-serif] overflow-hidden" {...swipeHandlers}>
-      <Sidebar open={sidebarOpen} onClose={() => setSidebarOpen(false)} selectedModel={selectedModel} onSelectModel={handleModelSelect} config={config} sessions={sessions} activeSessionId={activeSessionId} onSelectSession={handleSelectSession} onNewChat={handleNewChat} onDeleteSession={handleDeleteSession} onRenameSession={handleRenameSession} onClearAllSessions={handleClearAllSessions} />
+      <Sidebar open={sidebarOpen} onClose={() => setSidebarOpen(false)} selectedModel={selectedModel} onSelectModel={handleModelSelect} config={config} sessions={sessions} activeSessionId={activeSessionId} onSelectSession={handleSelectSession} onNewChat={handleNewChat} onDeleteSession={handleDeleteSession} onRenameSession={handleRenameSession} onClearAllSessions={handleClearAllSessions} onOpenMessage={handleOpenMessage} onUpdateSessions={handleUpdateSessions} onDeleteSessions={handleDeleteSessions} onRestoreSessions={handleRestoreSessions} onPurgeSessions={handlePurgeSessions} onExportSessions={handleExportSessions} onFoldersChange={handleFoldersChange} />
 
       <div className="flex flex-1 flex-col min-w-0">
         {/* Header */}
@@ -1688,6 +2938,7 @@ export function App() {
             {selectedModel === 'auto-search' && <span className="hidden sm:inline rounded-md bg-cyan-500/15 px-1.5 py-0.5 text-[10px] font-semibold text-cyan-400 shrink-0">SEARCH</span>}
             {isAutoMode(selectedModel) && selectedModel !== 'auto-search' && <span className="hidden sm:inline rounded-md bg-[var(--c-accent-bg)] px-1.5 py-0.5 text-[10px] font-semibold text-[var(--c-accent-t)] shrink-0">AUTO</span>}
             {isImageCapableModel(selectedModel) && <span className="hidden sm:inline rounded-md bg-violet-500/20 px-1.5 py-0.5 text-[10px] font-semibold text-violet-400 shrink-0">IMG</span>}
+            {persona && <button onClick={() => setChatPanel(p => p === 'prompt' ? null : 'prompt')} className="flex items-center gap-1 rounded-md bg-violet-500/10 px-1.5 py-0.5 text-[10px] font-medium text-violet-400 min-w-0 touch-manipulation" title="Chat persona"><IconPrompt className="w-3 h-3 shrink-0" /><span className="truncate max-w-[120px]">{persona}</span></button>}
           </div>
           <div className="flex items-center gap-0.5 shrink-0">
             {(config.memories.length > 0 || config.includeDate || config.includeTime) && (
@@ -1697,11 +2948,79 @@ export function App() {
                 {config.includeTime && <IconClockLg className="w-3 h-3 text-[var(--c-accent-t)]" />}
               </div>
             )}
+            {activeSession && !persona && (
+              <button onClick={() => setChatPanel(p => p === 'prompt' ? null : 'prompt')} className="rounded-lg p-2 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:scale-95 touch-manipulation" title="Chat persona"><IconPrompt className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
+            )}
+            <button onClick={() => setChatPanel(p => p === 'compare' ? null : 'compare')} className={`rounded-lg p-2 hover:bg-[var(--c-surface)] active:scale-95 touch-manipulation ${comparing ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text3)] hover:text-[var(--c-text)]'}`} title="Compare models"><IconColumns className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
+            {activeSession && (
+              <button onClick={() => setChatPanel(p => p === 'params' ? null : 'params')} className={`rounded-lg p-2 hover:bg-[var(--c-surface)] active:scale-95 touch-manipulation ${hasParams(activeSession.params) ? 'text-[var(--c-accent-t)]' : 'text-[var(--c-text3)] hover:text-[var(--c-text)]'}`} title="Chat parameters"><IconSliders className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
+            )}
+            {activeSession && messages.length > 0 && (
+              <button onClick={() => setChatPanel(p => p === 'export' ? null : 'export')} className="rounded-lg p-2 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:scale-95 touch-manipulation" title="Export chat"><IconDownload className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
+            )}
             <button onClick={handleNewChat} className="rounded-lg p-2 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:scale-95 touch-manipulation" title="New chat"><IconNewChat className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
             <button onClick={() => setSettingsOpen(true)} className="rounded-lg p-2 text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text)] active:scale-95 touch-manipulation" title="Settings"><IconSettings className="w-[18px] h-[18px] sm:w-5 sm:h-5" /></button>
           </div>
         </header>
 
+        {chatPanel === 'prompt' && activeSession && (
+          <div className="border-b border-[var(--c-border)] bg-[var(--c-bg2)] px-3 sm:px-6 py-3">
+            <div className="mx-auto max-w-3xl">
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs font-semibold text-[var(--c-text2)]">Persona for this chat</p>
+                <button onClick={() => setChatPanel(null)} className="rounded p-1 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation"><IconX className="w-4 h-4" /></button>
+              </div>
+              <ChatPromptPicker key={activeSession.id} value={activeSession.prompt} presets={config.promptPresets} onChange={handleChatPrompt} />
+            </div>
+          </div>
+        )}
+
+        {chatPanel === 'export' && activeSession && (
+          <div className="border-b border-[var(--c-border)] bg-[var(--c-bg2)] px-3 sm:px-6 py-3">
+            <div className="mx-auto max-w-3xl">
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs font-semibold text-[var(--c-text2)]">Export this chat <span className="font-normal text-[var(--c-text3)]">— the branch on screen</span></p>
+                <button onClick={() => setChatPanel(null)} className="rounded p-1 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation"><IconX className="w-4 h-4" /></button>
+              </div>
+              <ExportPanel key={activeSession.id} session={activeSession} onClose={() => setChatPanel(null)} />
+            </div>
+          </div>
+        )}
+
+        {chatPanel === 'params' && activeSession && (
+          <div className="border-b border-[var(--c-border)] bg-[var(--c-bg2)] px-3 sm:px-6 py-3">
+            <div className="mx-auto max-w-3xl">
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs font-semibold text-[var(--c-text2)]">Parameters for this chat <span className="font-normal text-[var(--c-text3)]">— override {getModelShortName(selectedModel)} settings</span></p>
+                <button onClick={() => setChatPanel(null)} className="rounded p-1 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation"><IconX className="w-4 h-4" /></button>
+              </div>
+              <ParamsEditor key={activeSession.id} params={activeSession.params || {}} onChange={handleChatParams} inherited={config.modelParams[selectedModel]} />
+            </div>
+          </div>
+        )}
+
+        {chatPanel === 'compare' && (
+          <div className="border-b border-[var(--c-border)] bg-[var(--c-bg2)] px-3 sm:px-6 py-3">
+            <div className="mx-auto max-w-3xl">
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs font-semibold text-[var(--c-text2)]">Compare models <span className="font-normal text-[var(--c-text3)]">— pick two or more; each message goes to all of them</span></p>
+                <button onClick={() => setChatPanel(null)} className="rounded p-1 text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation"><IconX className="w-4 h-4" /></button>
+              </div>
+              <div className="flex max-h-48 flex-wrap gap-1.5 overflow-y-auto">
+                {availableModels.map(m => {
+                  const on = compareModels.includes(m);
+                  return (
+                    <button key={m} onClick={() => setCompareModels(p => on ? p.filter(x => x !== m) : [...p, m])} className={`rounded-lg border px-2.5 py-1 text-xs touch-manipulation ${on ? 'border-[var(--c-accent-border)] bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]' : 'border-[var(--c-border)] text-[var(--c-text3)] hover:bg-[var(--c-surface)] hover:text-[var(--c-text2)]'}`}>
+                      {getModelShortName(m)}
+                    </button>
+                  );
+                })}
+              </div>
+              {compareModels.length > 0 && <button onClick={() => setCompareModels([])} className="mt-2 text-[11px] text-[var(--c-text3)] hover:text-[var(--c-text)] touch-manipulation">Turn off comparison</button>}
+            </div>
+          </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto overscroll-contain">
           {messages.length === 0 ? (
@@ -1741,19 +3060,59 @@ export function App() {
               </div>
             </div>
           ) : (
-            <div className="mx-auto max-w-3xl">
-              {messages.map((msg, idx) => (
-                <MessageBubble
-                  key={msg.id}
-                  message={msg}
-                  onRetry={msg.isError && idx === messages.length - 1 && !isLoading ? handleRetry : undefined}
-                />
-              ))}
-              <div ref={messagesEndRef} className="h-4" />
-            </div>
+            <>
+              <div className="mx-auto max-w-3xl">
+                {activeSession?.summary && (
+                  <SummaryCard key={activeSession.id} summary={activeSession.summary} stale={!!contextPreview && contextPreview.dropped > 0 && !isSummaryCurrent(activeSession.summary, contextPreview.omitted)} onChange={handleSummaryChange} />
+                )}
+                {shownMessages.map((msg, idx) => {
+                  const siblings = branches?.get(idx > 0 ? messages[idx - 1].id : null) || [];
+                  return (
+                    <MessageBubble
+                      key={msg.id}
+                      message={msg}
+                      cost={msg.usage ? usageCost(config, msg.usage, msg.model) : null}
+                      onRetry={msg.isError && idx === messages.length - 1 && !isLoading ? handleRetry : undefined}
+                      onEdit={msg.role === 'user' && !isLoading ? text => handleEditMessage(msg.id, text) : undefined}
+                      onRegenerate={msg.role === 'assistant' && !msg.isError && !isLoading ? model => handleRegenerate(msg.id, model || selectedModel) : undefined}
+                      regenerateModels={availableModels}
+                      highlighted={msg.id === highlightId}
+                      onToolDecision={handleToolDecision}
+                      branch={siblings.length > 1 ? { index: siblings.findIndex(m => m.id === msg.id), count: siblings.length, onSwitch: offset => handleSwitchBranch(msg.id, offset) } : undefined}
+                    />
+                  );
+                })}
+                {!comparison && <div ref={messagesEndRef} className="h-4" />}
+              </div>
+              {comparison && (
+                <div className="mx-auto max-w-6xl">
+                  <CompareView replies={compareReplies} config={config} onPick={id => handlePickWinner(comparison.promptId, id)} onStop={handleStopReply} onToolDecision={handleToolDecision} />
+                  <div ref={messagesEndRef} className="h-4" />
+                </div>
+              )}
+            </>
           )}
         </div>
 
+        {undo && (
+          <div className="pointer-events-none fixed inset-x-0 bottom-24 z-40 flex justify-center px-4">
+            <div className="pointer-events-auto flex max-w-md items-center gap-3 rounded-xl border border-[var(--c-border)] bg-[var(--c-bg2)] px-4 py-2.5 text-sm text-[var(--c-text2)] shadow-lg">
+              <IconTrash className="w-4 h-4 shrink-0 text-[var(--c-text3)]" />
+              <span className="min-w-0 truncate">{undo.message}</span>
+              <button onClick={handleUndoDelete} className="shrink-0 rounded-lg bg-[var(--c-accent-bg)] px-2.5 py-1 text-xs font-medium text-[var(--c-accent-t)] hover:opacity-90 touch-manipulation">Undo</button>
+              <button onClick={() => setUndo(null)} className="shrink-0 rounded p-1 text-[var(--c-text4)] hover:text-[var(--c-text2)] touch-manipulation"><IconX className="w-3.5 h-3.5" /></button>
+            </div>
+          </div>
+        )}
+
+        {storageError && (
+          <div className="flex items-center gap-2 border-t border-red-500/20 bg-red-500/10 px-3 sm:px-6 py-2 text-xs text-red-400">
+            <IconWarning className="w-4 h-4 shrink-0" />
+            <span className="flex-1 min-w-0">Chats are not being saved: {storageError}</span>
+            {sessionsLoaded && <button onClick={() => persistSessions(sessions)} className="shrink-0 rounded-lg bg-red-500/15 px-2.5 py-1 font-medium hover:bg-red-500/25 touch-manipulation">Retry</button>}
+          </div>
+        )}
+
         {/* Input */}
         <div className="border-t border-[var(--c-border)] bg-[var(--c-bg)] input-safe-bottom">
           <div className="mx-auto max-w-3xl px-2 sm:px-4 py-2 sm:py-3">
@@ -1784,7 +3143,7 @@ export function App() {
                   onChange={handleInputChange}
                   onKeyDown={handleKeyDown}
                   onPaste={handlePaste}
-                  placeholder="Message DophyAI..."
+                  placeholder={comparison ? 'Pick a reply above to continue...' : 'Message DophyAI...'}
                   rows={1}
                   className="w-full resize-none rounded-xl border border-[var(--c-border)] bg-[var(--c-input-bg)] px-3 sm:px-4 py-[9px] sm:py-[11px] text-sm text-[var(--c-text)] placeholder-[var(--c-text3)] outline-none transition-all focus:border-[var(--c-accent-border)] focus:ring-1 focus:ring-[var(--c-accent-glow)]"
                   style={{ maxHeight: '160px' }}
@@ -1811,7 +3170,8 @@ export function App() {
               )}
             </form>
             <p className="mt-1.5 text-center text-[10px] sm:text-[11px] text-[var(--c-text4)]">
-              <span className="hidden sm:inline">{getModelShortName(selectedModel)} · </span>
+              {contextTrimmed && <span className="text-amber-400" title={`~${formatTokens(contextPreview!.used)} of ${formatTokens(contextPreview!.window)} tokens`}>{contextPreview!.dropped > 0 ? `${contextPreview!.dropped} earlier messages not sent` : 'Oldest message truncated'} · </span>}
+              <span className="hidden sm:inline">{comparing ? `Comparing ${compareModels.map(getModelShortName).join(', ')}` : getModelShortName(selectedModel)} · </span>
               <span className="hidden sm:inline">Shift+Enter for new line · </span>
               <span className="sm:hidden">Tap button to send · </span>
               Paste images from clipboard
@@ -1,7 +1,28 @@
 // =============================================================================
-// API Layer — Google Gemini + OpenRouter + SambaNova (with auto-modes and key rotation)
+// API Layer — provider routing, auto-modes and AI Search
 // =============================================================================
 
+import {
+  getProvider,
+  fromGeminiUsage,
+  isRetryableError,
+  readSSE,
+  resolveProvider,
+  shortModelId,
+  toGeminiContents,
+  type ProviderDefinition,
+} from './providers';
+import type { ToolDefinition } from './tools';
+import { withUsage } from './usage';
+
+export {
+  DEFAULT_ANTHROPIC_MODELS,
+  DEFAULT_GOOGLE_MODELS,
+  DEFAULT_OPENROUTER_MODELS,
+  DEFAULT_SAMBA_MODELS,
+  isImageCapableModel,
+} from './providers';
+
 export type ThemeMode = 'dark' | 'light';
 
 export interface ThemeConfig { mode: ThemeMode; }
@@ -16,29 +37,145 @@ export interface ChatMessage {
   timestamp: number;
   isStreaming?: boolean;
   isError?: boolean;
+  usage?: TokenUsage;
+  /** Message this one follows; null for the first. Unset in chats saved before branching. */
+  parentId?: string | null;
+  /** Tools the model called while writing this reply, in call order */
+  toolCalls?: ToolInvocation[];
+}
+
+export interface TokenUsage {
+  /** Model that actually served the request (auto modes pick one at runtime) */
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens?: number;
+  /** Counted locally because the provider reported nothing */
+  estimated?: boolean;
+}
+
+/** USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
+  /** Renamed by hand; automatic titles leave the chat alone */
+  titleEdited?: boolean;
   messages: ChatMessage[];
   model: string;
   createdAt: number;
   updatedAt: number;
+  /** Overrides the per-model parameters for this chat only */
+  params?: GenerationParams;
+  /** Persona for this chat; unset = the global system prompt */
+  prompt?: ChatPrompt;
+  /** Rolling summary of the messages that no longer fit the context window */
+  summary?: ChatSummary;
+  /** Tip of the branch currently shown; unset = the last message */
+  leafId?: string;
+  /** Compare-mode turns: one user message answered by several models at once */
+  comparisons?: ChatComparison[];
+  /** Id of a `ChatFolder` in the config; unset = not in a folder */
+  folderId?: string;
+  tags?: string[];
+  /** Shown above folders and date groups */
+  pinned?: boolean;
+  /** Hidden from the main list but kept, searchable and exportable */
+  archived?: boolean;
+  /** When the chat was moved to the trash; purged after `trashRetentionDays` */
+  deletedAt?: number;
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+}
+
+export interface ChatComparison {
+  /** The user message that was fanned out */
+  promptId: string;
+  replyIds: string[];
+  /** Reply the conversation continued from; unset while undecided */
+  winnerId?: string;
+}
+
+export interface ChatSummary {
+  text: string;
+  /** How many of the oldest messages the summary covers */
+  count: number;
+  /** Fingerprint of those messages; a mismatch means they were edited or deleted */
+  fingerprint: string;
+  updatedAt: number;
+  /** Text was changed by hand */
+  edited?: boolean;
+}
+
+export type ChatPrompt =
+  | { kind: 'preset'; presetId: string }
+  | { kind: 'custom'; text: string };
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+/** Sampling overrides; unset fields fall back to each provider's defaults */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+/** A user-defined OpenAI-compatible server (llama.cpp, vLLM, Ollama /v1, ...) */
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+  models: string[];
 }
 
 export interface AppConfig {
   googleKeys: string[];
+  anthropicKeys: string[];
   openrouterKey: string;
   sambaKey: string;
   systemPrompt: string;
   googleModels: string[];
+  anthropicModels: string[];
   openrouterModels: string[];
   sambaModels: string[];
+  customEndpoints: CustomEndpoint[];
   theme: ThemeConfig;
   includeTime: boolean;
   includeDate: boolean;
   memories: string[];
+  /** Empty = Ollama disabled */
+  ollamaBaseUrl: string;
+  ollamaModels: string[];
+  /** Keyed by model id as stored in the provider's model list */
+  modelParams: Record<string, GenerationParams>;
+  promptPresets: PromptPreset[];
+  /** User overrides on top of DEFAULT_MODEL_PRICES */
+  modelPrices: Record<string, ModelPrice>;
+  chatFolders: ChatFolder[];
+  /** Registered tools the model is offered; none by default, since many models reject requests that carry tools */
+  enabledTools: string[];
+  /** Days a deleted chat stays in the trash; 0 = until emptied by hand */
+  trashRetentionDays: number;
+  /** Ask a cheap model for a title after the first exchange */
+  autoTitles: boolean;
 }
 
 export interface LogEntry {
@@ -47,21 +184,82 @@ export interface LogEntry {
   message: string;
 }
 
+export interface GenerationResult {
+  text: string;
+  images: string[];
+  usage?: TokenUsage;
+  /** The model stopped to call these; the tool loop runs them and asks again */
+  toolCalls?: ToolCallRequest[];
+}
+
+// =============================================================================
+// Tool Calling Types
+// =============================================================================
+
+/** The JSON Schema subset both Gemini function declarations and OpenAI tools accept */
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+/** What a model is told about a tool */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Gemini thought signature; has to be sent back along with the call */
+  signature?: string;
+}
+
+export interface ToolInvocation extends ToolCallRequest {
+  /** Model round that issued the call, from 0 */
+  step: number;
+  /** 'pending' = waiting for the user to allow a sensitive tool */
+  status: 'pending' | 'running' | 'done' | 'error' | 'denied';
+  /** Output fed back to the model — the tool's result, an error or the refusal */
+  result?: string;
+}
+
+/** Tools offered for one reply, plus the hooks the tool loop reports through */
+export interface ToolRun {
+  tools: ToolDefinition[];
+  /** Resolves to whether the user allows a call to a sensitive tool */
+  confirm: (call: ToolInvocation) => Promise<boolean>;
+  /** Receives the reply's calls after every change */
+  onUpdate: (calls: ToolInvocation[]) => void;
+}
+
 // =============================================================================
 // Auto Mode Definitions
 // =============================================================================
 
 export interface AutoModeConfig {
   label: string;
+  shortLabel: string;
   description: string;
-  provider: 'google' | 'openrouter' | 'sambanova';
+  dotColor: string;
+  /** Registry id of the provider that serves this mode */
+  provider: string;
+  /** Models tried in order; empty = random order over the provider's configured models */
   models: string[];
 }
 
 export const AUTO_MODES: Record<string, AutoModeConfig> = {
   'auto-gemini-flash': {
     label: 'Gemini Fast',
+    shortLabel: 'Auto: Flash',
     description: 'Flash models · auto-fallback',
+    dotColor: 'bg-amber-400',
     provider: 'google',
     models: [
       'gemini-flash-latest',
@@ -72,22 +270,39 @@ export const AUTO_MODES: Record<string, AutoModeConfig> = {
   },
   'auto-gemini-pro': {
     label: 'Gemini Pro',
+    shortLabel: 'Auto: Pro',
     description: 'Pro models · best quality',
+    dotColor: 'bg-violet-400',
     provider: 'google',
     models: [
       'gemini-3-pro-preview',
       'gemini-2.5-pro',
     ],
   },
+  'auto-claude': {
+    label: 'Claude',
+    shortLabel: 'Auto: Claude',
+    description: 'Anthropic models · auto-fallback',
+    dotColor: 'bg-rose-400',
+    provider: 'anthropic',
+    models: [
+      'claude-sonnet-4-5',
+      'claude-haiku-4-5',
+    ],
+  },
   'auto-openrouter': {
     label: 'OpenRouter',
+    shortLabel: 'Auto: OpenRouter',
     description: 'Random free model',
+    dotColor: 'bg-emerald-400',
     provider: 'openrouter',
     models: [],
   },
   'auto-samba': {
     label: 'SambaNova',
+    shortLabel: 'Auto: Samba',
     description: 'Fast inference · auto-fallback',
+    dotColor: 'bg-orange-400',
     provider: 'sambanova',
     models: [
       'DeepSeek-R1-0528',
@@ -98,7 +313,9 @@ export const AUTO_MODES: Record<string, AutoModeConfig> = {
   },
   'auto-search': {
     label: 'AI Search',
+    shortLabel: 'AI Search',
     description: 'Google Search · grounded answers',
+    dotColor: 'bg-cyan-400',
     provider: 'google',
     models: [],
   },
@@ -109,29 +326,9 @@ export function isAutoMode(model: string): boolean {
 }
 
 // =============================================================================
-// Default Models
+// Defaults
 // =============================================================================
 
-export const DEFAULT_GOOGLE_MODELS = [
-  'gemini-2.0-flash',
-  'gemini-2.5-flash',
-  'gemini-2.5-pro',
-  'gemini-3-flash-preview',
-  'gemini-3-pro-preview',
-];
-
-export const DEFAULT_OPENROUTER_MODELS = [
-  'deepseek/deepseek-r1-0528:free',
-  'tngtech/deepseek-r1t2-chimera:free',
-];
-
-export const DEFAULT_SAMBA_MODELS = [
-  'DeepSeek-R1-0528',
-  'DeepSeek-V3-0324',
-  'DeepSeek-V3.1',
-  'gpt-oss-120b',
-];
-
 export const DEFAULT_GOOGLE_KEYS: string[] = [];
 export const DEFAULT_OPENROUTER_KEY = '';
 export const DEFAULT_SAMBA_KEY = '';
@@ -148,7 +345,21 @@ export const DEFAULT_SYSTEM_PROMPT = `ПРАВИЛА ОФОРМЛЕНИЯ:
 // Build effective system prompt (with time, date, memories)
 // =============================================================================
 
-export function buildEffectiveSystemPrompt(config: AppConfig): string {
+/**
+ * The prompt a chat runs with and the persona name to show for it.
+ * A pinned preset that was since deleted falls back to the global prompt.
+ */
+export function resolveChatPrompt(config: AppConfig, session?: ChatSession | null): { prompt: string; label: string | null } {
+  const pinned = session?.prompt;
+  if (pinned?.kind === 'custom') return { prompt: pinned.text, label: 'Custom' };
+  if (pinned?.kind === 'preset') {
+    const preset = config.promptPresets.find(p => p.id === pinned.presetId);
+    if (preset) return { prompt: preset.prompt, label: preset.name || 'Untitled' };
+  }
+  return { prompt: config.systemPrompt, label: null };
+}
+
+export function buildEffectiveSystemPrompt(config: AppConfig, session?: ChatSession | null): string {
   const contextParts: string[] = [];
 
   if (config.includeDate) {
@@ -175,7 +386,7 @@ export function buildEffectiveSystemPrompt(config: AppConfig): string {
     );
   }
 
-  let prompt = config.systemPrompt;
+  let prompt = resolveChatPrompt(config, session).prompt;
   if (contextParts.length > 0) {
     prompt = contextParts.join('\n') + '\n\n' + prompt;
   }
@@ -187,364 +398,36 @@ export function buildEffectiveSystemPrompt(config: AppConfig): string {
 // Utility Functions
 // =============================================================================
 
-export function isGoogleModel(model: string): boolean {
-  if (isAutoMode(model)) return AUTO_MODES[model].provider === 'google';
-  return model.startsWith('gemini');
-}
-
-export function isSambaModel(model: string): boolean {
-  if (isAutoMode(model)) return AUTO_MODES[model].provider === 'sambanova';
-  return /^(DeepSeek-|gpt-oss-)/.test(model);
-}
-
-export function isImageCapableModel(model: string): boolean {
-  return model.includes('image');
-}
-
-export function getModelShortName(model: string): string {
-  if (model === 'auto-gemini-flash') return 'Auto: Flash';
-  if (model === 'auto-gemini-pro') return 'Auto: Pro';
-  if (model === 'auto-openrouter') return 'Auto: OpenRouter';
-  if (model === 'auto-samba') return 'Auto: Samba';
-  if (model === 'auto-search') return 'AI Search';
-  if (model.includes('/')) return model.split('/').pop()?.replace(':free', '') || model;
-  return model;
-}
-
-export function getModelDotColor(model: string): string {
-  if (model === 'auto-gemini-flash') return 'bg-amber-400';
-  if (model === 'auto-gemini-pro') return 'bg-violet-400';
-  if (model === 'auto-openrouter') return 'bg-emerald-400';
-  if (model === 'auto-samba') return 'bg-orange-400';
-  if (model === 'auto-search') return 'bg-cyan-400';
-  if (isGoogleModel(model)) return 'bg-blue-400';
-  if (isSambaModel(model)) return 'bg-orange-400';
-  return 'bg-emerald-400';
-}
-
-function uid(): string { return Date.now().toString(36) + Math.random().toString(36).slice(2, 8); }
-
-// =============================================================================
-// Message conversion helpers
-// =============================================================================
-
-function toGeminiContents(messages: ChatMessage[]) {
-  return messages.map(msg => {
-    const parts: Record<string, unknown>[] = [];
-    if (msg.images && msg.images.length > 0) {
-      for (const img of msg.images) {
-        const match = img.match(/^data:(image\/\w+);base64,(.+)$/);
-        if (match) {
-          parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
-        }
-      }
-    }
-    parts.push({ text: msg.content || ' ' });
-    return { role: msg.role === 'assistant' ? 'model' : 'user', parts };
-  });
-}
-
-function toOpenAIMessages(messages: ChatMessage[], systemPrompt: string) {
-  const result: { role: string; content: unknown }[] = [
-    { role: 'system', content: systemPrompt }
-  ];
-  for (const msg of messages) {
-    if (msg.role === 'user' && msg.images && msg.images.length > 0) {
-      const content: { type: string; text?: string; image_url?: { url: string } }[] = [];
-      content.push({ type: 'text', text: msg.content || 'Describe this image' });
-      for (const img of msg.images) {
-        content.push({ type: 'image_url', image_url: { url: img } });
-      }
-      result.push({ role: 'user', content });
-    } else {
-      result.push({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content,
-      });
-    }
+/** Per-model parameters with the chat's own overrides on top */
+export function resolveGenerationParams(config: AppConfig, model: string, chatParams?: GenerationParams): GenerationParams {
+  const merged: GenerationParams = { ...config.modelParams[model] };
+  for (const [k, v] of Object.entries(chatParams || {})) {
+    if (v !== undefined) (merged as Record<string, unknown>)[k] = v;
   }
-  return result;
+  return merged;
 }
 
-function isRetryableError(errorMsg: string): boolean {
-  return /429|500|503|overloaded|quota|rate.?limit|capacity|unavailable|keys? failed|exhausted/i.test(errorMsg);
+/**
+ * Provider that serves a model id or auto mode. AI Search has no single
+ * provider (it falls back across several), so it returns null.
+ */
+export function getModelProvider(model: string, config?: AppConfig): ProviderDefinition | null {
+  if (model === 'auto-search') return null;
+  if (isAutoMode(model)) return getProvider(AUTO_MODES[model].provider) || null;
+  return resolveProvider(model, config);
 }
 
-// =============================================================================
-// Gemini Streaming (with key rotation)
-// =============================================================================
-
-export async function callGeminiStreaming(
-  messages: ChatMessage[],
-  model: string,
-  keys: string[],
-  systemPrompt: string,
-  onChunk: (text: string) => void,
-  onResetContent: () => void,
-  addLog: (entry: LogEntry) => void,
-  signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
-  if (keys.length === 0) {
-    throw new Error('No Google API keys configured. Go to Settings → API Keys.');
-  }
-
-  const shuffledKeys = [...keys].sort(() => Math.random() - 0.5);
-  const errors: string[] = [];
-
-  addLog({ timestamp: Date.now(), level: 'info', message: `→ Gemini [${model}] — ${shuffledKeys.length} key(s)` });
-
-  for (let i = 0; i < shuffledKeys.length; i++) {
-    const key = shuffledKeys[i];
-    const keyHint = key.slice(-6);
-
-    if (signal?.aborted) throw new Error('Request aborted');
-
-    try {
-      const contents = toGeminiContents(messages);
-      const body: Record<string, unknown> = {
-        contents,
-        systemInstruction: { parts: [{ text: systemPrompt }] },
-        generationConfig: { temperature: 1.0, maxOutputTokens: 65536 },
-      };
-
-      if (isImageCapableModel(model)) {
-        (body.generationConfig as Record<string, unknown>).responseModalities = ['TEXT', 'IMAGE'];
-      }
-
-      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${key}&alt=sse`;
-      addLog({ timestamp: Date.now(), level: 'info', message: `Key ...${keyHint} (${i + 1}/${shuffledKeys.length})` });
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        signal,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
-      }
-
-      onResetContent();
-
-      const reader = response.body!.getReader();
-      const decoder = new TextDecoder();
-      let fullText = '';
-      const images: string[] = [];
-      let buffer = '';
-      let gotContent = false;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue;
-          const jsonStr = line.slice(6).trim();
-          if (!jsonStr || jsonStr === '[DONE]') continue;
-
-          try {
-            const data = JSON.parse(jsonStr);
-
-            if (data.error) {
-              const errMsg = data.error.message || JSON.stringify(data.error);
-              throw new Error(`Stream error ${data.error.code || ''}: ${errMsg.slice(0, 200)}`);
-            }
-
-            const candidates = data.candidates || [];
-            if (candidates.length === 0) {
-              if (data.promptFeedback?.blockReason) {
-                throw new Error(`Prompt blocked: ${data.promptFeedback.blockReason}`);
-              }
-              continue;
-            }
-
-            const parts = candidates[0]?.content?.parts || [];
-            for (const part of parts) {
-              if (part.text) {
-                fullText += part.text;
-                onChunk(part.text);
-                gotContent = true;
-              }
-              if (part.inlineData) {
-                images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
-                gotContent = true;
-              }
-            }
-          } catch (parseErr) {
-            if (parseErr instanceof Error && (
-              parseErr.message.startsWith('Stream error') ||
-              parseErr.message.startsWith('Prompt blocked')
-            )) {
-              if (gotContent) {
-                addLog({ timestamp: Date.now(), level: 'warn', message: 'Stream interrupted with partial content' });
-                return { text: fullText, images };
-              }
-              throw parseErr;
-            }
-          }
-        }
-      }
-
-      if (!gotContent && !fullText && images.length === 0) {
-        throw new Error('Empty response from model');
-      }
-
-      addLog({ timestamp: Date.now(), level: 'info', message: `← OK via ...${keyHint} (${fullText.length} chars${images.length ? `, ${images.length} imgs` : ''})` });
-      return { text: fullText, images };
-
-    } catch (e) {
-      const errMsg = e instanceof Error ? e.message : String(e);
-      if (errMsg.includes('abort')) throw e;
-
-      errors.push(`...${keyHint}: ${errMsg.slice(0, 100)}`);
-      addLog({ timestamp: Date.now(), level: 'warn', message: `Key ...${keyHint} failed: ${errMsg.slice(0, 80)}` });
-
-      if (!isRetryableError(errMsg)) throw new Error(errMsg);
-      continue;
-    }
-  }
-
-  addLog({ timestamp: Date.now(), level: 'error', message: `All ${shuffledKeys.length} keys exhausted for ${model}` });
-  throw new Error(`All ${shuffledKeys.length} keys failed for ${model}.`);
+export function getModelShortName(model: string): string {
+  if (isAutoMode(model)) return AUTO_MODES[model].shortLabel;
+  return shortModelId(model);
 }
 
-// =============================================================================
-// OpenRouter Streaming
-// =============================================================================
-
-export async function callOpenRouter(
-  messages: ChatMessage[],
-  model: string,
-  apiKey: string,
-  systemPrompt: string,
-  onChunk: (text: string) => void,
-  addLog: (entry: LogEntry) => void,
-  signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
-  if (!apiKey) {
-    throw new Error('No OpenRouter API key. Go to Settings → API Keys.');
-  }
-
-  addLog({ timestamp: Date.now(), level: 'info', message: `→ OpenRouter [${getModelShortName(model)}]` });
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': window.location.origin,
-      'X-Title': 'DophyAI',
-    },
-    body: JSON.stringify({ model, messages: toOpenAIMessages(messages, systemPrompt), stream: true }),
-    signal,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter ${response.status}: ${errorText.slice(0, 200)}`);
-  }
-
-  const reader = response.body!.getReader();
-  const decoder = new TextDecoder();
-  let fullText = '';
-  let buf = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buf += decoder.decode(value, { stream: true });
-    const lines = buf.split('\n');
-    buf = lines.pop() || '';
-
-    for (const line of lines) {
-      if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-        try {
-          const data = JSON.parse(line.slice(6));
-          const chunk = data.choices?.[0]?.delta?.content;
-          if (chunk) { fullText += chunk; onChunk(chunk); }
-        } catch { /* skip */ }
-      }
-    }
-  }
-
-  addLog({ timestamp: Date.now(), level: 'info', message: `← OpenRouter OK (${fullText.length} chars)` });
-  return { text: fullText, images: [] };
+export function getModelDotColor(model: string, config?: AppConfig): string {
+  if (isAutoMode(model)) return AUTO_MODES[model].dotColor;
+  return resolveProvider(model, config).style.dot;
 }
 
-// =============================================================================
-// SambaNova Streaming (OpenAI-compatible API)
-// =============================================================================
-
-const SAMBA_BASE_URL = 'https://api.sambanova.ai/v1';
-
-export async function callSambaNovaStreaming(
-  messages: ChatMessage[],
-  model: string,
-  apiKey: string,
-  systemPrompt: string,
-  onChunk: (text: string) => void,
-  addLog: (entry: LogEntry) => void,
-  signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
-  if (!apiKey) {
-    throw new Error('No SambaNova API key. Go to Settings → API Keys.');
-  }
-
-  addLog({ timestamp: Date.now(), level: 'info', message: `→ SambaNova [${model}]` });
-
-  const response = await fetch(`${SAMBA_BASE_URL}/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages: toOpenAIMessages(messages, systemPrompt),
-      stream: true,
-    }),
-    signal,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`SambaNova ${response.status}: ${errorText.slice(0, 200)}`);
-  }
-
-  const reader = response.body!.getReader();
-  const decoder = new TextDecoder();
-  let fullText = '';
-  let buf = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buf += decoder.decode(value, { stream: true });
-    const lines = buf.split('\n');
-    buf = lines.pop() || '';
-
-    for (const line of lines) {
-      if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-        try {
-          const data = JSON.parse(line.slice(6));
-          const chunk = data.choices?.[0]?.delta?.content;
-          if (chunk) { fullText += chunk; onChunk(chunk); }
-        } catch { /* skip */ }
-      }
-    }
-  }
-
-  addLog({ timestamp: Date.now(), level: 'info', message: `← SambaNova OK (${fullText.length} chars)` });
-  return { text: fullText, images: [] };
-}
+function uid(): string { return Date.now().toString(36) + Math.random().toString(36).slice(2, 8); }
 
 // =============================================================================
 // AI Search Mode — Uses Gemini's built-in Google Search grounding
@@ -582,7 +465,7 @@ async function callGeminiWithSearch(
   onChunk: (text: string) => void,
   addLog: (entry: LogEntry) => void,
   signal?: AbortSignal
-): Promise<{ text: string; sources: GroundingSource[] }> {
+): Promise<{ text: string; sources: GroundingSource[]; usage?: TokenUsage; model: string }> {
   const shuffledKeys = [...keys].sort(() => Math.random() - 0.5);
   // Models that support google_search tool
   const searchModels = ['gemini-2.5-flash', 'gemini-2.0-flash'];
@@ -623,90 +506,80 @@ async function callGeminiWithSearch(
           throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
         }
 
-        const reader = response.body!.getReader();
-        const decoder = new TextDecoder();
         let fullText = '';
         const sources: GroundingSource[] = [];
-        let buffer = '';
+        let usage: TokenUsage | undefined;
         let gotContent = false;
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+        for await (const event of readSSE(response.body!)) {
+          const jsonStr = event.data.trim();
+          if (!jsonStr || jsonStr === '[DONE]') continue;
 
-          for (const line of lines) {
-            if (!line.startsWith('data: ')) continue;
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr || jsonStr === '[DONE]') continue;
+          try {
+            const data = JSON.parse(jsonStr);
 
-            try {
-              const data = JSON.parse(jsonStr);
+            if (data.error) {
+              const errMsg = data.error.message || JSON.stringify(data.error);
+              throw new Error(`Stream error: ${errMsg.slice(0, 200)}`);
+            }
 
-              if (data.error) {
-                const errMsg = data.error.message || JSON.stringify(data.error);
-                throw new Error(`Stream error: ${errMsg.slice(0, 200)}`);
-              }
+            if (data.usageMetadata) usage = fromGeminiUsage(data.usageMetadata);
 
-              const candidates = data.candidates || [];
-              if (candidates.length === 0) continue;
+            const candidates = data.candidates || [];
+            if (candidates.length === 0) continue;
 
-              const candidate = candidates[0];
+            const candidate = candidates[0];
 
-              // Extract text
-              const parts = candidate?.content?.parts || [];
-              for (const part of parts) {
-                if (part.text) {
-                  fullText += part.text;
-                  onChunk(part.text);
-                  gotContent = true;
-                }
+            // Extract text
+            const parts = candidate?.content?.parts || [];
+            for (const part of parts) {
+              if (part.text) {
+                fullText += part.text;
+                onChunk(part.text);
+                gotContent = true;
               }
+            }
 
-              // Extract grounding metadata (comes in later chunks)
-              const groundingMeta = candidate?.groundingMetadata;
-              if (groundingMeta?.groundingChunks) {
-                for (const chunk of groundingMeta.groundingChunks) {
-                  if (chunk.web?.uri) {
-                    const exists = sources.some(s => s.url === chunk.web.uri);
-                    if (!exists) {
-                      sources.push({
-                        title: chunk.web.title || '',
-                        url: chunk.web.uri,
-                      });
-                    }
+            // Extract grounding metadata (comes in later chunks)
+            const groundingMeta = candidate?.groundingMetadata;
+            if (groundingMeta?.groundingChunks) {
+              for (const chunk of groundingMeta.groundingChunks) {
+                if (chunk.web?.uri) {
+                  const exists = sources.some(s => s.url === chunk.web.uri);
+                  if (!exists) {
+                    sources.push({
+                      title: chunk.web.title || '',
+                      url: chunk.web.uri,
+                    });
                   }
                 }
               }
+            }
 
-              // Also check groundingSupports for additional source info
-              if (groundingMeta?.groundingSupports) {
-                for (const support of groundingMeta.groundingSupports) {
-                  if (support.groundingChunkIndices) {
-                    // These reference the chunks above, already collected
-                  }
+            // Also check groundingSupports for additional source info
+            if (groundingMeta?.groundingSupports) {
+              for (const support of groundingMeta.groundingSupports) {
+                if (support.groundingChunkIndices) {
+                  // These reference the chunks above, already collected
                 }
               }
+            }
 
-              // Check webSearchQueries for logging
-              if (groundingMeta?.webSearchQueries) {
-                addLog({
-                  timestamp: Date.now(),
-                  level: 'info',
-                  message: `🔎 Search queries: ${groundingMeta.webSearchQueries.join(' | ')}`,
-                });
-              }
-            } catch (parseErr) {
-              if (parseErr instanceof Error && parseErr.message.startsWith('Stream error')) {
-                if (gotContent) {
-                  addLog({ timestamp: Date.now(), level: 'warn', message: 'Stream interrupted with partial content' });
-                  return { text: fullText, sources };
-                }
-                throw parseErr;
+            // Check webSearchQueries for logging
+            if (groundingMeta?.webSearchQueries) {
+              addLog({
+                timestamp: Date.now(),
+                level: 'info',
+                message: `🔎 Search queries: ${groundingMeta.webSearchQueries.join(' | ')}`,
+              });
+            }
+          } catch (parseErr) {
+            if (parseErr instanceof Error && parseErr.message.startsWith('Stream error')) {
+              if (gotContent) {
+                addLog({ timestamp: Date.now(), level: 'warn', message: 'Stream interrupted with partial content' });
+                return { text: fullText, sources, usage, model };
               }
+              throw parseErr;
             }
           }
         }
@@ -721,7 +594,7 @@ async function callGeminiWithSearch(
           message: `✓ Search OK: ${fullText.length} chars, ${sources.length} sources`,
         });
 
-        return { text: fullText, sources };
+        return { text: fullText, sources, usage, model };
 
       } catch (e) {
         const errMsg = e instanceof Error ? e.message : String(e);
@@ -749,18 +622,21 @@ async function callFallbackSearch(
   onChunk: (text: string) => void,
   addLog: (entry: LogEntry) => void,
   signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
+): Promise<GenerationResult> {
   const { dateStr, year } = getCurrentDateInfo();
   const prompt = `Today is ${dateStr}, ${year}. The user is asking a question that would benefit from current information. Answer as best you can from your training knowledge. If the information might be outdated, clearly state that. Respond in the same language as the user's question. Use Markdown for formatting.`;
 
+  const request = { messages, config, systemPrompt: prompt, params: {}, onChunk, onResetContent: () => {}, addLog, signal };
+
   // Try SambaNova
-  if (config.sambaKey) {
+  const samba = getProvider('sambanova');
+  if (samba && config.sambaKey) {
     const models = ['DeepSeek-V3.1', 'DeepSeek-V3-0324', 'gpt-oss-120b'];
     for (const model of models) {
       if (signal?.aborted) throw new Error('aborted');
       try {
         addLog({ timestamp: Date.now(), level: 'info', message: `📝 Fallback via SambaNova ${model}` });
-        return await callSambaNovaStreaming(messages, model, config.sambaKey, prompt, onChunk, addLog, signal);
+        return withUsage(await samba.stream({ ...request, model }), model, messages, prompt);
       } catch (e) {
         const errMsg = e instanceof Error ? e.message : String(e);
         if (errMsg.includes('abort')) throw e;
@@ -770,10 +646,11 @@ async function callFallbackSearch(
   }
 
   // Try OpenRouter
-  if (config.openrouterKey && config.openrouterModels.length > 0) {
+  const openrouter = getProvider('openrouter');
+  if (openrouter && config.openrouterKey && config.openrouterModels.length > 0) {
     const model = config.openrouterModels[0];
     addLog({ timestamp: Date.now(), level: 'info', message: `📝 Fallback via OpenRouter ${getModelShortName(model)}` });
-    return await callOpenRouter(messages, model, config.openrouterKey, prompt, onChunk, addLog, signal);
+    return withUsage(await openrouter.stream({ ...request, model }), model, messages, prompt);
   }
 
   throw new Error('AI Search requires Google API keys (for web search) or SambaNova/OpenRouter keys (for knowledge-based answers). Add keys in Settings.');
@@ -791,7 +668,7 @@ async function callSearchMode(
   onResetContent: () => void,
   addLog: (entry: LogEntry) => void,
   signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
+): Promise<GenerationResult> {
   const userQuery = messages[messages.length - 1]?.content || '';
   if (!userQuery.trim()) throw new Error('Empty query');
 
@@ -839,7 +716,7 @@ RULES:
         finalText += '<!--/SOURCES-->';
       }
 
-      return { text: finalText, images: [] };
+      return withUsage({ text: finalText, images: [], usage: result.usage }, result.model, messages, systemPrompt);
 
     } catch (e) {
       const errMsg = e instanceof Error ? e.message : String(e);
@@ -870,25 +747,21 @@ async function callAutoMode(
   onChunk: (text: string) => void,
   onResetContent: () => void,
   addLog: (entry: LogEntry) => void,
-  signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
+  signal?: AbortSignal,
+  chatParams?: GenerationParams,
+  tools?: ToolDeclaration[]
+): Promise<GenerationResult> {
   const autoConfig = AUTO_MODES[autoKey];
   if (!autoConfig) throw new Error(`Unknown auto mode: ${autoKey}`);
 
-  let modelsToTry: string[];
+  const provider = getProvider(autoConfig.provider);
+  if (!provider) throw new Error(`Unknown provider for ${autoConfig.label}: ${autoConfig.provider}`);
 
-  if (autoConfig.provider === 'openrouter') {
-    modelsToTry = [...config.openrouterModels].sort(() => Math.random() - 0.5);
-    if (modelsToTry.length === 0) {
-      throw new Error('No OpenRouter models configured. Add models in Settings → Models.');
-    }
-  } else if (autoConfig.provider === 'sambanova') {
-    modelsToTry = [...autoConfig.models];
-    if (modelsToTry.length === 0) {
-      throw new Error('No SambaNova models configured.');
-    }
-  } else {
-    modelsToTry = [...autoConfig.models];
+  const modelsToTry = autoConfig.models.length > 0
+    ? [...autoConfig.models]
+    : [...provider.models.get(config)].sort(() => Math.random() - 0.5);
+  if (modelsToTry.length === 0) {
+    throw new Error(`No ${provider.label} models configured. Add models in Settings → Models.`);
   }
 
   addLog({ timestamp: Date.now(), level: 'info', message: `🔄 Auto [${autoConfig.label}] — ${modelsToTry.length} model(s) to try` });
@@ -904,22 +777,12 @@ async function callAutoMode(
     try {
       onResetContent();
 
-      if (autoConfig.provider === 'google') {
-        return await callGeminiStreaming(
-          messages, modelName, config.googleKeys, config.systemPrompt,
-          onChunk, onResetContent, addLog, signal
-        );
-      } else if (autoConfig.provider === 'sambanova') {
-        return await callSambaNovaStreaming(
-          messages, modelName, config.sambaKey, config.systemPrompt,
-          onChunk, addLog, signal
-        );
-      } else {
-        return await callOpenRouter(
-          messages, modelName, config.openrouterKey, config.systemPrompt,
-          onChunk, addLog, signal
-        );
-      }
+      const result = await provider.stream({
+        messages, model: modelName, config, systemPrompt: config.systemPrompt,
+        params: resolveGenerationParams(config, modelName, chatParams),
+        onChunk, onResetContent, addLog, signal, tools,
+      });
+      return withUsage(result, modelName, messages, config.systemPrompt);
     } catch (e) {
       const errMsg = e instanceof Error ? e.message : String(e);
       if (errMsg.includes('abort')) throw e;
@@ -940,10 +803,129 @@ async function callAutoMode(
   throw new Error(`Auto mode: all ${modelsToTry.length} models failed. Check API keys or try later.\n\n${allErrors.join('\n')}`);
 }
 
+// =============================================================================
+// Tool Loop — runs the calls a model asks for and asks again with the results
+// =============================================================================
+
+const MAX_TOOL_STEPS = 8;
+
+function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    model: b.model,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    thinkingTokens: (a.thinkingTokens || 0) + (b.thinkingTokens || 0) || undefined,
+    estimated: a.estimated || b.estimated || undefined,
+  };
+}
+
+async function runTool(call: ToolInvocation, tool: ToolDefinition | undefined, signal?: AbortSignal): Promise<Partial<ToolInvocation>> {
+  if (!tool) return { status: 'error', result: `Error: unknown tool ${call.name}` };
+  try {
+    return { status: 'done', result: await tool.execute(call.args, { signal }) };
+  } catch (e) {
+    return { status: 'error', result: `Error: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+async function callWithTools(
+  messages: ChatMessage[],
+  model: string,
+  config: AppConfig,
+  onChunk: (text: string) => void,
+  onResetContent: () => void,
+  addLog: (entry: LogEntry) => void,
+  signal: AbortSignal | undefined,
+  chatParams: GenerationParams | undefined,
+  run: ToolRun
+): Promise<GenerationResult> {
+  let calls: ToolInvocation[] = [];
+  let text = '';
+  const images: string[] = [];
+  let usage: TokenUsage | undefined;
+  const update = (id: string, patch: Partial<ToolInvocation>) => {
+    calls = calls.map(c => c.id === id ? { ...c, ...patch } : c);
+    run.onUpdate(calls);
+  };
+
+  for (let step = 0; ; step++) {
+    const shown = text;
+    // The last round offers no tools, so the model has to answer
+    const last = step >= MAX_TOOL_STEPS;
+    // Finished rounds ride along as a reply that has calls but no text yet;
+    // without tools declared they have to be spelled out as text instead
+    const steps: ChatMessage = last
+      ? { id: 'tool-steps', role: 'assistant', content: calls.map(c => `[${c.name} ${JSON.stringify(c.args)} → ${c.result}]`).join('\n'), timestamp: Date.now() }
+      : { id: 'tool-steps', role: 'assistant', content: '', toolCalls: calls, timestamp: Date.now() };
+    const history = calls.length > 0 ? [...messages, steps] : messages;
+    const result = await callModel(
+      history, model, config, onChunk, () => { onResetContent(); if (shown) onChunk(shown); },
+      addLog, signal, chatParams, last ? undefined : run.tools
+    );
+    text += result.text;
+    images.push(...result.images);
+    usage = addUsage(usage, result.usage);
+    if (!result.toolCalls?.length) return { text, images, usage };
+
+    if (text && !text.endsWith('\n')) { text += '\n\n'; onChunk('\n\n'); }
+    const fresh = result.toolCalls.map((c, i): ToolInvocation => ({
+      ...c,
+      id: calls.some(x => x.id === c.id) ? `${c.id}_${step}_${i}` : c.id,
+      step,
+      status: 'running',
+    }));
+    calls = [...calls, ...fresh];
+    run.onUpdate(calls);
+
+    for (const call of fresh) {
+      const tool = run.tools.find(t => t.name === call.name);
+      if (tool?.sensitive) {
+        update(call.id, { status: 'pending' });
+        const allowed = await run.confirm(call);
+        if (signal?.aborted) throw new Error('Request aborted');
+        if (!allowed) {
+          update(call.id, { status: 'denied', result: 'The user declined to run this tool.' });
+          continue;
+        }
+        update(call.id, { status: 'running' });
+      }
+      if (signal?.aborted) throw new Error('Request aborted');
+      addLog({ timestamp: Date.now(), level: 'info', message: `🔧 ${call.name} ${JSON.stringify(call.args).slice(0, 80)}` });
+      update(call.id, await runTool(call, tool, signal));
+    }
+  }
+}
+
 // =============================================================================
 // Main Router
 // =============================================================================
 
+/** One request to whatever serves `model`; `tools` only reach providers that support them */
+async function callModel(
+  messages: ChatMessage[],
+  model: string,
+  config: AppConfig,
+  onChunk: (text: string) => void,
+  onResetContent: () => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  chatParams?: GenerationParams,
+  tools?: ToolDeclaration[]
+): Promise<GenerationResult> {
+  if (isAutoMode(model)) {
+    return callAutoMode(messages, model, config, onChunk, onResetContent, addLog, signal, chatParams, tools);
+  }
+
+  const provider = resolveProvider(model, config);
+  const result = await provider.stream({
+    messages, model, config, systemPrompt: config.systemPrompt,
+    params: resolveGenerationParams(config, model, chatParams),
+    onChunk, onResetContent, addLog, signal, tools,
+  });
+  return withUsage(result, model, messages, config.systemPrompt);
+}
+
 export async function generateResponse(
   messages: ChatMessage[],
   model: string,
@@ -951,21 +933,16 @@ export async function generateResponse(
   onChunk: (text: string) => void,
   onResetContent: () => void,
   addLog: (entry: LogEntry) => void,
-  signal?: AbortSignal
-): Promise<{ text: string; images: string[] }> {
+  signal?: AbortSignal,
+  chatParams?: GenerationParams,
+  toolRun?: ToolRun
+): Promise<GenerationResult> {
   if (model === 'auto-search') {
     return callSearchMode(messages, config, onChunk, onResetContent, addLog, signal);
   }
 
-  if (isAutoMode(model)) {
-    return callAutoMode(messages, model, config, onChunk, onResetContent, addLog, signal);
-  }
-
-  if (isGoogleModel(model)) {
-    return callGeminiStreaming(messages, model, config.googleKeys, config.systemPrompt, onChunk, onResetContent, addLog, signal);
-  } else if (isSambaModel(model)) {
-    return callSambaNovaStreaming(messages, model, config.sambaKey, config.systemPrompt, onChunk, addLog, signal);
-  } else {
-    return callOpenRouter(messages, model, config.openrouterKey, config.systemPrompt, onChunk, addLog, signal);
+  if (toolRun && toolRun.tools.length > 0 && getModelProvider(model, config)?.capabilities.tools) {
+    return callWithTools(messages, model, config, onChunk, onResetContent, addLog, signal, chatParams, toolRun);
   }
+  return callModel(messages, model, config, onChunk, onResetContent, addLog, signal, chatParams);
 }
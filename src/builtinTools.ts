@@ -0,0 +1,106 @@
+// =============================================================================
+// Built-in tools — calculator, unit converter, dates and a JavaScript sandbox
+// =============================================================================
+// All of them run in the browser, so they work with any key and send nothing
+// anywhere. Importing this module registers them.
+// =============================================================================
+
+import { calculate } from './calculator';
+import { formatSandboxResult, runInSandbox, SANDBOX_TIMEOUT_MS } from './sandbox';
+import { registerTool } from './tools';
+import { convertUnits, dateCalc, type DateOperation, type DateUnit } from './units';
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  const v = args[name];
+  if (typeof v !== 'string' || !v.trim()) throw new Error(`"${name}" must be a non-empty string`);
+  return v;
+}
+
+function numberArg(args: Record<string, unknown>, name: string): number {
+  const v = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new Error(`"${name}" must be a number`);
+  return v;
+}
+
+registerTool({
+  name: 'calculator',
+  label: 'Calculator',
+  summary: 'Exact arithmetic with big numbers and fractions',
+  description: 'Evaluates arithmetic exactly, with integers and fractions of any size. Use it for every calculation instead of '
+    + 'doing math in your head, including each row of a value table. Supports + - * / % ^ ! and parentheses, functions sqrt cbrt '
+    + 'abs floor ceil round min max gcd lcm exp ln log log2 log10 sin cos tan asin acos atan, constants pi e. Separate several '
+    + 'expressions with ";" or new lines; "x = expr" defines a variable for the following ones. Results marked ≈ are approximate.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'e.g. "2^100; 17/6 + 1/3" or "r = 2.5; pi * r^2"' },
+    },
+    required: ['expression'],
+  },
+  execute: args => calculate(stringArg(args, 'expression')),
+});
+
+registerTool({
+  name: 'convert_units',
+  label: 'Unit Converter',
+  summary: 'Length, mass, volume, temperature, speed, data, energy and more',
+  description: 'Converts a value between units of length, mass, time, area, volume, speed, data size, energy, power, pressure, '
+    + 'angle, fuel economy (incl. l/100km) and temperature. Use unit symbols or names, e.g. km, mi, lb, °F, kWh, MiB, mph.',
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number' },
+      from: { type: 'string', description: 'Unit of the value' },
+      to: { type: 'string', description: 'Unit to convert to' },
+    },
+    required: ['value', 'from', 'to'],
+  },
+  execute: args => convertUnits(numberArg(args, 'value'), stringArg(args, 'from'), stringArg(args, 'to')),
+});
+
+registerTool({
+  name: 'date_calc',
+  label: 'Date Calculator',
+  summary: 'Days between dates, adding days or months, weekdays',
+  description: 'Calendar arithmetic on YYYY-MM-DD dates ("today" is accepted). "difference": days, weeks, calendar years/months/days '
+    + 'and business days between date and other_date. "add": date plus amount of days, weeks, months, years or business days '
+    + '(negative to subtract). "info": weekday, day of year, ISO week and leap year of date.',
+  parameters: {
+    type: 'object',
+    properties: {
+      operation: { type: 'string', enum: ['difference', 'add', 'info'] },
+      date: { type: 'string', description: 'YYYY-MM-DD or "today"' },
+      other_date: { type: 'string', description: 'Second date, for "difference"' },
+      amount: { type: 'integer', description: 'For "add"' },
+      unit: { type: 'string', enum: ['days', 'weeks', 'months', 'years', 'business days'], description: 'For "add", default days' },
+    },
+    required: ['operation', 'date'],
+  },
+  execute: args => {
+    const op = stringArg(args, 'operation');
+    if (op !== 'difference' && op !== 'add' && op !== 'info') throw new Error(`Unknown operation: ${op}`);
+    return dateCalc(op as DateOperation, stringArg(args, 'date'), {
+      other: typeof args.other_date === 'string' ? args.other_date : undefined,
+      amount: args.amount === undefined ? undefined : numberArg(args, 'amount'),
+      unit: typeof args.unit === 'string' ? args.unit as DateUnit : undefined,
+    });
+  },
+});
+
+registerTool({
+  name: 'run_javascript',
+  label: 'JavaScript Sandbox',
+  summary: 'Runs model-written code in an isolated worker without network access',
+  sensitive: true,
+  description: `Runs JavaScript in an isolated Web Worker with no network, DOM or storage access, limited to ${SANDBOX_TIMEOUT_MS / 1000} s. `
+    + 'Use it for simulations, data processing or generating tables of values. console.log output is captured and the value of the '
+    + 'last statement is returned; code that uses top-level await has to return its result. BigInt is available for big integers.',
+  parameters: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', description: 'JavaScript source' },
+    },
+    required: ['code'],
+  },
+  execute: async (args, { signal }) => formatSandboxResult(await runInSandbox(stringArg(args, 'code'), signal)),
+});
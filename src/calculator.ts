@@ -0,0 +1,346 @@
+// =============================================================================
+// Calculator — exact arithmetic for the calculator tool
+// =============================================================================
+// Numbers are fractions of BigInts, so + - * / % ^ and ! on them are exact at
+// any size. Functions without exact results (sqrt of a non-square, sin, ln…)
+// and constants like pi switch the value to a float, and the result is then
+// marked as approximate. Several statements can be separated by `;` or new
+// lines, and `name = expr` defines a variable for the statements after it.
+// =============================================================================
+
+interface Rational { n: bigint; d: bigint }
+type Value = Rational | number;
+
+/** Keeps 2^100000-sized results from freezing the tab */
+const MAX_RESULT_BITS = 1_000_000;
+const MAX_FACTORIAL = 5000;
+/** Significant digits shown for fractions that do not terminate */
+const DECIMAL_DIGITS = 20;
+
+// ---- Rationals ---------------------------------------------------------------
+
+const abs = (x: bigint) => x < 0n ? -x : x;
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = abs(a); b = abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+function rat(n: bigint, d = 1n): Rational {
+  if (d === 0n) throw new Error('Division by zero');
+  if (d < 0n) { n = -n; d = -d; }
+  const g = gcd(n, d) || 1n;
+  return { n: n / g, d: d / g };
+}
+
+const isExact = (v: Value): v is Rational => typeof v !== 'number';
+const toFloat = (v: Value) => isExact(v) ? Number(v.n) / Number(v.d) || bigRatio(v) : v;
+
+/** n/d for operands beyond the float range, via their leading digits */
+function bigRatio({ n, d }: Rational): number {
+  const shift = BigInt(Math.max(0, Math.max(n.toString().length, d.toString().length) - 300));
+  const scale = 10n ** shift;
+  return Number(n / scale) / Number(d / scale);
+}
+
+function fromFloat(x: number): Value {
+  if (!Number.isFinite(x)) throw new Error('Result is not a finite number');
+  return x;
+}
+
+function checkSize(v: Rational): Rational {
+  if (v.n.toString(16).length * 4 > MAX_RESULT_BITS || v.d.toString(16).length * 4 > MAX_RESULT_BITS) {
+    throw new Error('Result is too large');
+  }
+  return v;
+}
+
+function parseNumber(text: string): Rational {
+  const m = text.match(/^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!m) throw new Error(`Bad number: ${text}`);
+  const [, int = '', frac = '', exp = '0'] = m;
+  const e = Number(exp) - frac.length;
+  if (Math.abs(e) > 10_000) throw new Error(`Exponent out of range: ${text}`);
+  const digits = BigInt((int + frac) || '0');
+  return e >= 0 ? rat(digits * 10n ** BigInt(e)) : rat(digits, 10n ** BigInt(-e));
+}
+
+// ---- Operations --------------------------------------------------------------
+
+function binary(op: string, a: Value, b: Value): Value {
+  if (isExact(a) && isExact(b)) {
+    switch (op) {
+      case '+': return checkSize(rat(a.n * b.d + b.n * a.d, a.d * b.d));
+      case '-': return checkSize(rat(a.n * b.d - b.n * a.d, a.d * b.d));
+      case '*': return checkSize(rat(a.n * b.n, a.d * b.d));
+      case '/': return checkSize(rat(a.n * b.d, a.d * b.n));
+      case '%': {
+        if (b.n === 0n) throw new Error('Division by zero');
+        // Floored, so the result takes the sign of the divisor
+        const q = rat(a.n * b.d, a.d * b.n);
+        const floor = q.n / q.d - (q.n % q.d !== 0n && q.n < 0n ? 1n : 0n);
+        return rat(a.n * b.d - floor * b.n * a.d, a.d * b.d);
+      }
+      case '^': return power(a, b);
+    }
+  }
+  const x = toFloat(a), y = toFloat(b);
+  switch (op) {
+    case '+': return fromFloat(x + y);
+    case '-': return fromFloat(x - y);
+    case '*': return fromFloat(x * y);
+    case '/': if (y === 0) throw new Error('Division by zero'); return fromFloat(x / y);
+    case '%': if (y === 0) throw new Error('Division by zero'); return fromFloat(x - y * Math.floor(x / y));
+    default: return fromFloat(x ** y);
+  }
+}
+
+function power(base: Rational, exp: Rational): Value {
+  if (exp.d !== 1n) {
+    // Exact roots where they exist: 8^(1/3), (4/9)^(1/2), (-27)^(1/3)
+    const odd = exp.d % 2n === 1n;
+    if ((base.n >= 0n || odd) && exp.d <= 64n) {
+      const n = intRoot(abs(base.n), exp.d), d = intRoot(base.d, exp.d);
+      if (n !== null && d !== null) return power(rat(base.n < 0n ? -n : n, d), rat(exp.n));
+    }
+    if (base.n < 0n && odd) return fromFloat(-(toFloat(rat(-base.n, base.d)) ** toFloat(exp)));
+    const x = toFloat(base) ** toFloat(exp);
+    if (Number.isNaN(x)) throw new Error('Even root of a negative number');
+    return fromFloat(x);
+  }
+  if (base.n === 0n && exp.n < 0n) throw new Error('Division by zero');
+  const bits = Math.max(base.n.toString(16).length, base.d.toString(16).length) * 4;
+  if (bits * Math.abs(Number(exp.n)) > MAX_RESULT_BITS && base.n !== 0n && abs(base.n) !== base.d) throw new Error('Result is too large');
+  const e = abs(exp.n);
+  const r = rat(base.n ** e, base.d ** e);
+  return exp.n < 0n ? rat(r.d, r.n) : r;
+}
+
+/** k-th root of a non-negative integer when it is an integer, else null */
+function intRoot(x: bigint, k: bigint): bigint | null {
+  if (x < 2n) return x;
+  let r = BigInt(Math.round(Number(x) ** (1 / Number(k))));
+  if (x > 2n ** 53n) {
+    // Floats are too coarse here; Newton's method from above lands on the floor of the root
+    r = 1n << BigInt(Math.ceil(x.toString(2).length / Number(k)));
+    for (;;) {
+      const next = ((k - 1n) * r + x / r ** (k - 1n)) / k;
+      if (next >= r) break;
+      r = next;
+    }
+  }
+  for (const c of [r - 1n, r, r + 1n]) if (c >= 0n && c ** k === x) return c;
+  return null;
+}
+
+function factorial(v: Value): Value {
+  if (!isExact(v) || v.d !== 1n || v.n < 0n) throw new Error('Factorial needs a non-negative integer');
+  if (v.n > BigInt(MAX_FACTORIAL)) throw new Error(`Factorial is limited to ${MAX_FACTORIAL}!`);
+  let r = 1n;
+  for (let i = 2n; i <= v.n; i++) r *= i;
+  return rat(r);
+}
+
+function compare(a: Value, b: Value): number {
+  if (isExact(a) && isExact(b)) {
+    const diff = a.n * b.d - b.n * a.d;
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+  }
+  return toFloat(a) - toFloat(b);
+}
+
+function integerArgs(name: string, args: Value[]): bigint[] {
+  return args.map(a => {
+    if (!isExact(a) || a.d !== 1n) throw new Error(`${name}() needs integers`);
+    return a.n;
+  });
+}
+
+function roundTo(v: Value, mode: 'floor' | 'ceil' | 'round'): Value {
+  if (!isExact(v)) return Math[mode](v);
+  const floor = v.n / v.d - (v.n % v.d !== 0n && v.n < 0n ? 1n : 0n);
+  if (mode === 'floor' || v.d === 1n) return rat(floor);
+  if (mode === 'ceil') return rat(floor + 1n);
+  // Half away from zero, like most calculators
+  const r = (2n * abs(v.n) + v.d) / (2n * v.d);
+  return rat(v.n < 0n ? -r : r);
+}
+
+const FLOAT_FUNCTIONS: Record<string, (x: number) => number> = {
+  cbrt: Math.cbrt, exp: Math.exp, ln: Math.log, log2: Math.log2, log10: Math.log10,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+};
+
+function callFunction(name: string, args: Value[]): Value {
+  const one = () => {
+    if (args.length !== 1) throw new Error(`${name}() takes one argument`);
+    return args[0];
+  };
+  switch (name) {
+    case 'abs': { const x = one(); return isExact(x) ? rat(abs(x.n), x.d) : Math.abs(x); }
+    case 'floor': case 'ceil': case 'round': return roundTo(one(), name);
+    case 'sqrt': {
+      const x = one();
+      if (compare(x, rat(0n)) < 0) throw new Error('sqrt() of a negative number');
+      return isExact(x) ? power(x, rat(1n, 2n)) : Math.sqrt(x);
+    }
+    case 'log': {
+      // log(x) is base 10, log(x, b) base b
+      if (args.length === 2) return fromFloat(Math.log(toFloat(args[0])) / Math.log(toFloat(args[1])));
+      return fromFloat(Math.log10(toFloat(one())));
+    }
+    case 'min': case 'max': {
+      if (args.length === 0) throw new Error(`${name}() needs arguments`);
+      return args.reduce((a, b) => (compare(a, b) < 0) === (name === 'min') ? a : b);
+    }
+    case 'gcd': case 'lcm': {
+      const ints = integerArgs(name, args);
+      if (ints.length === 0) throw new Error(`${name}() needs arguments`);
+      return rat(ints.reduce((a, b) => name === 'gcd' ? gcd(a, b) : a === 0n || b === 0n ? 0n : abs(a * b) / gcd(a, b)));
+    }
+    case 'fact': return factorial(one());
+  }
+  const fn = FLOAT_FUNCTIONS[name];
+  if (!fn) throw new Error(`Unknown function: ${name}`);
+  return fromFloat(fn(toFloat(one())));
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+
+// ---- Parser ------------------------------------------------------------------
+
+const TOKEN = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^!(),×÷−]))/iy;
+
+function tokenize(src: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < src.length) {
+    const at = TOKEN.lastIndex;
+    const m = TOKEN.exec(src);
+    if (!m) {
+      if (!src.slice(at).trim()) break;
+      throw new Error(`Unexpected "${src.slice(at).trim()[0]}"`);
+    }
+    const op = m[3];
+    tokens.push(op === '**' ? '^' : op === '×' ? '*' : op === '÷' ? '/' : op === '−' ? '-' : m[1] || m[2] || op);
+  }
+  return tokens;
+}
+
+/** Recursive descent: sum > product > unary minus > power (right-assoc) > factorial > atom */
+function evaluate(src: string, vars: Map<string, Value>): Value {
+  const tokens = tokenize(src.replace(/(\d)_(?=\d)/g, '$1'));
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (t: string) => {
+    if (tokens[pos] !== t) throw new Error(`Expected "${t}"${tokens[pos] ? ` but found "${tokens[pos]}"` : ''}`);
+    pos++;
+  };
+
+  const sum = (): Value => {
+    let v = product();
+    while (peek() === '+' || peek() === '-') { const op = tokens[pos++]; v = binary(op, v, product()); }
+    return v;
+  };
+  const product = (): Value => {
+    let v = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') { const op = tokens[pos++]; v = binary(op, v, unary()); }
+    return v;
+  };
+  const unary = (): Value => {
+    if (peek() === '-') { pos++; return binary('-', rat(0n), unary()); }
+    if (peek() === '+') { pos++; return unary(); }
+    return pow();
+  };
+  const pow = (): Value => {
+    const base = postfix();
+    if (peek() !== '^') return base;
+    pos++;
+    return binary('^', base, unary());
+  };
+  const postfix = (): Value => {
+    let v = atom();
+    while (peek() === '!') { pos++; v = factorial(v); }
+    return v;
+  };
+  const atom = (): Value => {
+    const t = tokens[pos++];
+    if (t === undefined) throw new Error('Unexpected end of expression');
+    if (t === '(') { const v = sum(); expect(')'); return v; }
+    if (/^[\d.]/.test(t)) return parseNumber(t);
+    if (/^[a-z_]/i.test(t)) {
+      const name = t.toLowerCase();
+      if (peek() === '(') {
+        pos++;
+        const args: Value[] = [];
+        if (peek() !== ')') {
+          args.push(sum());
+          while (peek() === ',') { pos++; args.push(sum()); }
+        }
+        expect(')');
+        return callFunction(name, args);
+      }
+      const v = vars.get(t) ?? CONSTANTS[name];
+      if (v === undefined) throw new Error(`Unknown name: ${t}`);
+      return v;
+    }
+    throw new Error(`Unexpected "${t}"`);
+  };
+
+  const v = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return v;
+}
+
+// ---- Formatting --------------------------------------------------------------
+
+/** `places` digits after the point, rounded half away from zero */
+function toDecimal({ n, d }: Rational, places: number): string {
+  const sign = n < 0n ? '-' : '';
+  const scale = 10n ** BigInt(places);
+  const scaled = (abs(n) * scale * 2n + d) / (2n * d);
+  const int = (scaled / scale).toString();
+  const frac = (scaled % scale).toString().padStart(places, '0').replace(/0+$/, '');
+  return sign + int + (frac ? '.' + frac : '');
+}
+
+/** Digits after the point of a terminating fraction, or null when it repeats */
+function terminatingPlaces(d: bigint): number | null {
+  let twos = 0, fives = 0;
+  while (d % 2n === 0n) { d /= 2n; twos++; }
+  while (d % 5n === 0n) { d /= 5n; fives++; }
+  return d === 1n ? Math.max(twos, fives) : null;
+}
+
+/** `= exact`, `= a/b ≈ decimal` for repeating fractions, `≈ float` for approximate values */
+function formatValue(v: Value): string {
+  if (!isExact(v)) return `≈ ${Number(v.toPrecision(15))}`;
+  if (v.d === 1n) return `= ${v.n}`;
+  const places = terminatingPlaces(v.d);
+  if (places !== null) return `= ${toDecimal(v, places)}`;
+  // Enough places for DECIMAL_DIGITS significant digits below 1
+  const lead = Math.max(0, v.d.toString().length - abs(v.n).toString().length);
+  return `= ${v.n}/${v.d} ≈ ${toDecimal(v, lead + DECIMAL_DIGITS)}`;
+}
+
+/** Evaluates each statement and returns one `expr = result` line per statement; errors are reported per line */
+export function calculate(input: string): string {
+  const vars = new Map<string, Value>();
+  const lines: string[] = [];
+  for (const raw of input.split(/[;\n]/)) {
+    const stmt = raw.trim();
+    if (!stmt) continue;
+    const assign = stmt.match(/^([a-z_]\w*)\s*=(?!=)(.*)$/i);
+    try {
+      const value = evaluate(assign ? assign[2] : stmt, vars);
+      if (assign) vars.set(assign[1], value);
+      lines.push(`${assign ? assign[1] : stmt} ${formatValue(value)}`);
+    } catch (e) {
+      lines.push(`${stmt} → error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (lines.length === 0) throw new Error('Empty expression');
+  return lines.join('\n');
+}
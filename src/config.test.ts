@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CONFIG_VERSION, ConfigVersionError, defaultConfig, loadConfig, readBackup, saveConfig } from './config';
+import storedV4 from './__fixtures__/config/stored-v4.json';
+import storedV4Later from './__fixtures__/config/stored-v4-later.json';
+import backupV4 from './__fixtures__/config/backup-v4.json';
+
+/** Just enough of localStorage for config.ts */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  keys() { return [...this.items.keys()]; }
+}
+
+let storage: MemoryStorage;
+beforeEach(() => {
+  storage = new MemoryStorage();
+  (globalThis as { localStorage?: unknown }).localStorage = storage;
+});
+afterEach(() => {
+  delete (globalThis as { localStorage?: unknown }).localStorage;
+});
+
+function loadStored(key: string, payload: unknown) {
+  storage.setItem(key, JSON.stringify(payload));
+  return loadConfig();
+}
+
+describe('loadConfig', () => {
+  it('v4: reads the config the original build saved', () => {
+    const { config, errors } = loadStored('dophy-config-v4', storedV4);
+    expect(errors).toEqual([]);
+    expect(config).toEqual({ ...defaultConfig(), ...storedV4 });
+  });
+
+  it('v4: fields added later on v4; invalid values and unknown fields are reported per field', () => {
+    const { config, errors } = loadStored('dophy-config-v4', storedV4Later);
+    expect(config.anthropicKeys).toEqual(['sk-ant-v4']);
+    expect(config.customEndpoints).toHaveLength(1);
+    expect(config.ollamaModels).toEqual(['llama3']);
+    expect(config.promptPresets).toEqual([{ id: 'p1', name: 'Tutor', prompt: 'Explain step by step.' }]);
+    expect(config.modelParams).toEqual({ 'gemini-2.5-pro': { temperature: 0.2 } });
+    expect(config.theme).toEqual(defaultConfig().theme);
+    expect(errors.map(e => e.field)).toEqual(['theme', 'modelParams.gpt-oss-120b', 'legacyFlag']);
+  });
+
+  it('saves as the current version and drops the v4 key', () => {
+    const { config } = loadStored('dophy-config-v4', storedV4);
+    saveConfig(config);
+    expect(storage.keys()).toEqual(['dophy-config']);
+    expect(JSON.parse(storage.getItem('dophy-config')!).version).toBe(CONFIG_VERSION);
+    expect(loadConfig()).toEqual({ config, errors: [] });
+  });
+
+  it('reports a version older than v4 and reads its fields as they are', () => {
+    const { config, errors } = loadStored('dophy-config', { version: 2, config: { googleKeys: ['AIza-old'], googleKey: 'AIza-old', theme: 'dark' } });
+    expect(config.googleKeys).toEqual(['AIza-old']);
+    expect(config.theme).toEqual(defaultConfig().theme);
+    expect(errors.map(e => e.field)).toEqual(['version', 'theme', 'googleKey']);
+    expect(errors[0].message).toBe(`unknown format v2, fields read as v${CONFIG_VERSION}`);
+  });
+
+  it('reports a config from a newer build instead of loading it', () => {
+    storage.setItem('dophy-config', JSON.stringify({ version: CONFIG_VERSION + 1, config: {} }));
+    const { config, errors } = loadConfig();
+    expect(config).toEqual(defaultConfig());
+    expect(errors[0].field).toBe('(config)');
+    expect(errors[0].message).toMatch(/newer version/);
+  });
+});
+
+describe('readBackup', () => {
+  it('v4: reads the original export format unchanged', () => {
+    const backup = readBackup(backupV4);
+    expect(backup.version).toBe(4);
+    expect(backup.config).toEqual(backupV4.config);
+    expect(backup.sessions).toEqual([]);
+    expect(backup.errors).toEqual([]);
+  });
+
+  it('reads a file without a version field by field and says so', () => {
+    const backup = readBackup({
+      config: { googleKeys: ['AIza-x'], memory: 'old text' },
+      sessions: [{ id: 's1', title: 'Kept', messages: [] }, { id: 's2', messages: [] }],
+    });
+    expect(backup.version).toBeUndefined();
+    expect(backup.config).toEqual({ googleKeys: ['AIza-x'] });
+    expect(backup.sessions?.map(s => s.id)).toEqual(['s1']);
+    expect(backup.errors.map(e => e.field)).toEqual(['version', 'config.memory', 'sessions[1]']);
+    expect(backup.errors[0].message).toMatch(/^missing/);
+  });
+
+  it('rejects files from a newer build', () => {
+    expect(() => readBackup({ ...backupV4, version: CONFIG_VERSION + 1 })).toThrow(ConfigVersionError);
+  });
+});
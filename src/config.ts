@@ -0,0 +1,317 @@
+// =============================================================================
+// Config Schema — validation, versioned migrations and the backup file format
+// =============================================================================
+// Every AppConfig field is declared once below with its expected shape and
+// default. Stored configs and backups carry a version; older payloads are
+// upgraded one step at a time by MIGRATIONS before validation. v4 is the
+// oldest format the app ever wrote; anything older is reported, not guessed
+// at, and its fields are validated as they are. Invalid values
+// fall back to the default (list items are dropped one by one) and each one is
+// reported as a ConfigFieldError instead of disappearing silently.
+// =============================================================================
+
+import {
+  DEFAULT_ANTHROPIC_MODELS,
+  DEFAULT_GOOGLE_KEYS,
+  DEFAULT_GOOGLE_MODELS,
+  DEFAULT_OPENROUTER_KEY,
+  DEFAULT_OPENROUTER_MODELS,
+  DEFAULT_SAMBA_KEY,
+  DEFAULT_SAMBA_MODELS,
+  DEFAULT_SYSTEM_PROMPT,
+  DEFAULT_THEME,
+  type AppConfig,
+  type ChatSession,
+  type PromptPreset,
+} from './api';
+
+/** Version written by this build, for both the stored config and backups */
+export const CONFIG_VERSION = 5;
+
+/** Oldest format this app wrote: the `dophy-config-v4` key and backups with `version: 4` */
+const FIRST_VERSION = 4;
+
+/** v5+: `{ version, config }` under one key. v4 put the version in the key name. */
+const LS_CONFIG = 'dophy-config';
+const LS_CONFIG_V4 = 'dophy-config-v4';
+
+export interface ConfigFieldError {
+  field: string;
+  message: string;
+}
+
+export class ConfigVersionError extends Error {
+  constructor(readonly version: number) {
+    super(`File is from a newer version of DophyAI (format v${version}, this build reads up to v${CONFIG_VERSION})`);
+    this.name = 'ConfigVersionError';
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => !!v && typeof v === 'object' && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// ---- Schema ------------------------------------------------------------------
+
+interface FieldSpec<T> {
+  fallback: () => T;
+  /** Returns the cleaned value, reporting problems through `error` */
+  parse: (value: unknown, error: (message: string, path?: string) => void) => T | undefined;
+}
+
+function scalar<T>(expected: string, is: (v: unknown) => v is T, fallback: () => T): FieldSpec<T> {
+  return {
+    fallback,
+    parse: (v, error) => {
+      if (is(v)) return v;
+      error(`expected ${expected}`);
+      return undefined;
+    },
+  };
+}
+
+function list<T>(expected: string, isItem: (v: unknown) => v is T, fallback: () => T[]): FieldSpec<T[]> {
+  return {
+    fallback,
+    parse: (v, error) => {
+      if (!Array.isArray(v)) { error('expected a list'); return undefined; }
+      return v.filter((item, i) => {
+        if (isItem(item)) return true;
+        error(`expected ${expected}, item dropped`, `[${i}]`);
+        return false;
+      });
+    },
+  };
+}
+
+function record<T>(expected: string, isValue: (v: unknown) => v is T): FieldSpec<Record<string, T>> {
+  return {
+    fallback: () => ({}),
+    parse: (v, error) => {
+      if (!isObject(v)) { error(`expected a map of ${expected}`); return undefined; }
+      const out: Record<string, T> = {};
+      for (const [key, value] of Object.entries(v)) {
+        if (isValue(value)) out[key] = value;
+        else error(`expected ${expected}, entry dropped`, `.${key}`);
+      }
+      return out;
+    },
+  };
+}
+
+const isCustomEndpoint = (v: unknown): v is AppConfig['customEndpoints'][number] =>
+  isObject(v) && isString(v.id) && isString(v.name) && isString(v.baseUrl) && isString(v.apiKey)
+  && isObject(v.headers) && Object.values(v.headers).every(isString)
+  && Array.isArray(v.models) && v.models.every(isString);
+
+const isPromptPreset = (v: unknown): v is PromptPreset =>
+  isObject(v) && isString(v.id) && isString(v.name) && isString(v.prompt);
+
+const isChatFolder = (v: unknown): v is AppConfig['chatFolders'][number] =>
+  isObject(v) && isString(v.id) && isString(v.name);
+
+const PARAM_KEYS: Record<string, (v: unknown) => boolean> = {
+  temperature: isNumber, topP: isNumber, topK: isNumber, maxOutputTokens: isNumber,
+  seed: isNumber, presencePenalty: isNumber, frequencyPenalty: isNumber,
+  stopSequences: v => Array.isArray(v) && v.every(isString),
+};
+const isGenerationParams = (v: unknown): v is AppConfig['modelParams'][string] =>
+  isObject(v) && Object.entries(v).every(([k, x]) => x === undefined || PARAM_KEYS[k]?.(x));
+
+const isModelPrice = (v: unknown): v is AppConfig['modelPrices'][string] =>
+  isObject(v) && isNumber(v.input) && isNumber(v.output);
+
+const isTheme = (v: unknown): v is AppConfig['theme'] =>
+  isObject(v) && (v.mode === 'dark' || v.mode === 'light');
+
+const CONFIG_SCHEMA: { [K in keyof AppConfig]: FieldSpec<AppConfig[K]> } = {
+  googleKeys: list('a string', isString, () => [...DEFAULT_GOOGLE_KEYS]),
+  anthropicKeys: list('a string', isString, () => []),
+  openrouterKey: scalar('a string', isString, () => DEFAULT_OPENROUTER_KEY),
+  sambaKey: scalar('a string', isString, () => DEFAULT_SAMBA_KEY),
+  systemPrompt: scalar('a string', isString, () => DEFAULT_SYSTEM_PROMPT),
+  googleModels: list('a string', isString, () => [...DEFAULT_GOOGLE_MODELS]),
+  anthropicModels: list('a string', isString, () => [...DEFAULT_ANTHROPIC_MODELS]),
+  openrouterModels: list('a string', isString, () => [...DEFAULT_OPENROUTER_MODELS]),
+  sambaModels: list('a string', isString, () => [...DEFAULT_SAMBA_MODELS]),
+  customEndpoints: list('an endpoint { id, name, baseUrl, apiKey, headers, models }', isCustomEndpoint, () => []),
+  theme: {
+    fallback: () => ({ ...DEFAULT_THEME }),
+    parse: (v, error) => {
+      if (isTheme(v)) return { mode: v.mode };
+      error('expected { mode: "dark" | "light" }');
+      return undefined;
+    },
+  },
+  includeTime: scalar('true or false', (v): v is boolean => typeof v === 'boolean', () => false),
+  includeDate: scalar('true or false', (v): v is boolean => typeof v === 'boolean', () => false),
+  memories: list('a string', isString, () => []),
+  ollamaBaseUrl: scalar('a string', isString, () => ''),
+  ollamaModels: list('a string', isString, () => []),
+  modelParams: record('generation parameters', isGenerationParams),
+  promptPresets: list('a preset { id, name, prompt }', isPromptPreset, () => []),
+  modelPrices: record('a price { input, output }', isModelPrice),
+  chatFolders: list('a folder { id, name }', isChatFolder, () => []),
+  enabledTools: list('a string', isString, () => []),
+  trashRetentionDays: scalar('a number of days', (v): v is number => isNumber(v) && v >= 0, () => 30),
+  autoTitles: scalar('true or false', (v): v is boolean => typeof v === 'boolean', () => true),
+};
+
+const CONFIG_FIELDS = Object.keys(CONFIG_SCHEMA) as (keyof AppConfig)[];
+
+export function defaultConfig(): AppConfig {
+  const config = {} as Record<keyof AppConfig, unknown>;
+  for (const key of CONFIG_FIELDS) config[key] = CONFIG_SCHEMA[key].fallback();
+  return config as AppConfig;
+}
+
+/**
+ * Validates the fields present in `raw`. Only valid (or partly valid) fields
+ * end up in `values`; missing fields are not errors.
+ */
+export function validateConfig(raw: Raw): { values: Partial<AppConfig>; errors: ConfigFieldError[] } {
+  const values: Partial<Record<keyof AppConfig, unknown>> = {};
+  const errors: ConfigFieldError[] = [];
+  for (const key of CONFIG_FIELDS) {
+    if (raw[key] === undefined) continue;
+    const value = CONFIG_SCHEMA[key].parse(raw[key], (message, path = '') => errors.push({ field: key + path, message }));
+    if (value !== undefined) values[key] = value;
+  }
+  for (const key of Object.keys(raw)) {
+    if (!(key in CONFIG_SCHEMA)) errors.push({ field: key, message: 'unknown setting, ignored' });
+  }
+  return { values: values as Partial<AppConfig>, errors };
+}
+
+// ---- Migrations --------------------------------------------------------------
+
+/** MIGRATIONS[n] upgrades a v(n) config to v(n + 1). Each step only touches fields the old shape had. */
+const MIGRATIONS: Record<number, (config: Raw) => Raw> = {
+  // v5 moved the version from the storage key into the payload. Fields added
+  // while still on v4 (ollama*, modelParams, promptPresets, modelPrices) were optional.
+  4: c => c,
+};
+
+/** Upgrades `raw` to the current shape; a missing or pre-v4 version is reported and the fields are left as they are */
+export function migrateConfig(raw: Raw, version: number | undefined): { config: Raw; errors: ConfigFieldError[] } {
+  if (version !== undefined && version > CONFIG_VERSION) throw new ConfigVersionError(version);
+  if (version === undefined || !Number.isInteger(version) || version < FIRST_VERSION) {
+    const message = `${version === undefined ? 'missing' : `unknown format v${version}`}, fields read as v${CONFIG_VERSION}`;
+    return { config: raw, errors: [{ field: 'version', message }] };
+  }
+  let config = raw;
+  for (let v = version; v < CONFIG_VERSION; v++) config = MIGRATIONS[v](config);
+  return { config, errors: [] };
+}
+
+// ---- Stored config -----------------------------------------------------------
+
+function readStored(): { version: number; config: Raw } | null {
+  const current = localStorage.getItem(LS_CONFIG);
+  if (current) {
+    const parsed = JSON.parse(current);
+    if (isObject(parsed) && isNumber(parsed.version) && isObject(parsed.config)) return { version: parsed.version, config: parsed.config };
+    throw new Error('stored config is not { version, config }');
+  }
+  const v4 = localStorage.getItem(LS_CONFIG_V4);
+  if (!v4) return null;
+  const parsed = JSON.parse(v4);
+  if (!isObject(parsed)) throw new Error(`${LS_CONFIG_V4} is not an object`);
+  return { version: 4, config: parsed };
+}
+
+/** Reads, migrates and validates the saved config; unreadable parts are reported, not thrown */
+export function loadConfig(): { config: AppConfig; errors: ConfigFieldError[] } {
+  let stored: { version: number; config: Raw } | null;
+  try {
+    stored = readStored();
+  } catch (err) {
+    return { config: defaultConfig(), errors: [{ field: '(config)', message: `unreadable, defaults used: ${err instanceof Error ? err.message : String(err)}` }] };
+  }
+  if (!stored) return { config: defaultConfig(), errors: [] };
+
+  try {
+    const migrated = migrateConfig(stored.config, stored.version);
+    const { values, errors } = validateConfig(migrated.config);
+    return { config: { ...defaultConfig(), ...values }, errors: [...migrated.errors, ...errors] };
+  } catch (err) {
+    return { config: defaultConfig(), errors: [{ field: '(config)', message: err instanceof Error ? err.message : String(err) }] };
+  }
+}
+
+export function saveConfig(config: AppConfig) {
+  localStorage.setItem(LS_CONFIG, JSON.stringify({ version: CONFIG_VERSION, config }));
+  localStorage.removeItem(LS_CONFIG_V4);
+}
+
+// ---- Backup files ------------------------------------------------------------
+
+export interface BackupContents {
+  /** Format version the file was written with; undefined when it names none */
+  version?: number;
+  config?: Partial<AppConfig>;
+  sessions?: ChatSession[];
+  promptPresets?: PromptPreset[];
+  errors: ConfigFieldError[];
+}
+
+export function createBackup(parts: { config?: Partial<AppConfig>; sessions?: ChatSession[]; promptPresets?: PromptPreset[] }): Raw {
+  return { exportedAt: new Date().toISOString(), version: CONFIG_VERSION, app: 'DophyAI', ...parts };
+}
+
+export type BackupPart = 'keys' | 'settings' | 'chats' | 'memories';
+
+/** Custom endpoints carry their own API key, so they count as keys */
+const KEY_FIELDS: (keyof AppConfig)[] = ['googleKeys', 'anthropicKeys', 'openrouterKey', 'sambaKey', 'customEndpoints'];
+
+/** Backup with only the chosen parts; 'settings' is every config field that is neither a key, a memory nor a chat folder */
+export function createPartialBackup(config: AppConfig, sessions: ChatSession[], parts: BackupPart[]): Raw {
+  const picked: Partial<Record<keyof AppConfig, unknown>> = {};
+  for (const key of CONFIG_FIELDS) {
+    const part: BackupPart = KEY_FIELDS.includes(key) ? 'keys' : key === 'memories' ? 'memories' : key === 'chatFolders' ? 'chats' : 'settings';
+    if (parts.includes(part)) picked[key] = config[key];
+  }
+  return createBackup({
+    config: Object.keys(picked).length > 0 ? picked as Partial<AppConfig> : undefined,
+    sessions: parts.includes('chats') ? sessions : undefined,
+  });
+}
+
+const isSession = (v: unknown): v is ChatSession =>
+  isObject(v) && isString(v.id) && isString(v.title) && Array.isArray(v.messages)
+  && v.messages.every(m => isObject(m) && isString(m.id) && (m.role === 'user' || m.role === 'assistant') && isString(m.content));
+
+/** Parses any backup this app ever wrote (v4 on); files without a known version are read field by field */
+export function readBackup(data: unknown): BackupContents {
+  if (!isObject(data)) throw new Error('Not a DophyAI backup');
+  const version = isNumber(data.version) ? data.version : undefined;
+  if (version !== undefined && version > CONFIG_VERSION) throw new ConfigVersionError(version);
+
+  const result: BackupContents = { version, errors: [] };
+  if (data.config !== undefined) {
+    if (isObject(data.config)) {
+      const migrated = migrateConfig(data.config, version);
+      const { values, errors } = validateConfig(migrated.config);
+      result.config = values;
+      result.errors.push(...migrated.errors, ...errors.map(e => ({ ...e, field: `config.${e.field}` })));
+    } else {
+      result.errors.push({ field: 'config', message: 'expected an object' });
+    }
+  }
+  if (data.sessions !== undefined) {
+    const parsed = list('a chat { id, title, messages }', isSession, () => []).parse(data.sessions, (message, path = '') => result.errors.push({ field: `sessions${path}`, message }));
+    if (parsed) result.sessions = parsed;
+  }
+  if (data.promptPresets !== undefined) {
+    const parsed = CONFIG_SCHEMA.promptPresets.parse(data.promptPresets, (message, path = '') => result.errors.push({ field: `promptPresets${path}`, message }));
+    if (parsed) result.promptPresets = parsed;
+  }
+  return result;
+}
+
+export function formatFieldErrors(errors: ConfigFieldError[], max = 3): string {
+  const shown = errors.slice(0, max).map(e => `${e.field}: ${e.message}`).join('; ');
+  return errors.length > max ? `${shown}; +${errors.length - max} more` : shown;
+}
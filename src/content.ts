@@ -0,0 +1,113 @@
+// =============================================================================
+// Message Content — think blocks and source lists inside model replies
+// =============================================================================
+// Reasoning models wrap their thoughts in <think>…</think>; AI Search replies
+// end with a <!--SOURCES-->…<!--/SOURCES--> block. Both are split off here so
+// the chat view, copy and exports show them the same way.
+// =============================================================================
+
+// ---- Think tags --------------------------------------------------------------
+
+export function parseThinkContent(content: string): { thinking: string; response: string; isThinkingPhase: boolean } {
+  if (!content) return { thinking: '', response: '', isThinkingPhase: false };
+
+  const openTag = '<think>';
+  const closeTag = '</think>';
+
+  const openIdx = content.indexOf(openTag);
+  if (openIdx === -1) {
+    return { thinking: '', response: content, isThinkingPhase: false };
+  }
+
+  const afterOpen = openIdx + openTag.length;
+  const closeIdx = content.indexOf(closeTag, afterOpen);
+
+  if (closeIdx === -1) {
+    // Still inside <think> tag (streaming)
+    const thinking = content.slice(afterOpen);
+    const before = content.slice(0, openIdx).trim();
+    return { thinking: thinking.trim(), response: before, isThinkingPhase: true };
+  }
+
+  const thinking = content.slice(afterOpen, closeIdx).trim();
+  const before = content.slice(0, openIdx).trim();
+  const after = content.slice(closeIdx + closeTag.length).trim();
+  const response = [before, after].filter(Boolean).join('\n\n');
+  return { thinking, response, isThinkingPhase: false };
+}
+
+// ---- Sources -----------------------------------------------------------------
+// Extracts <!--SOURCES-->...<!--/SOURCES--> and also catches common
+// "Источники:" / "Sources:" sections at the end
+
+export interface ParsedSources {
+  mainContent: string;
+  sources: { title: string; url: string }[];
+}
+
+export function parseSourcesFromContent(content: string): ParsedSources {
+  const sources: { title: string; url: string }[] = [];
+
+  // Method 1: Look for <!--SOURCES-->...<!--/SOURCES--> markers
+  const markerMatch = content.match(/<!--SOURCES-->([\s\S]*?)<!--\/SOURCES-->/);
+  if (markerMatch) {
+    const sourcesBlock = markerMatch[1];
+    const mainContent = content.replace(/<!--SOURCES-->[\s\S]*?<!--\/SOURCES-->/, '').trim();
+
+    // Parse markdown links: - [title](url)
+    const linkRegex = /\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g;
+    let m;
+    while ((m = linkRegex.exec(sourcesBlock)) !== null) {
+      sources.push({ title: m[1], url: m[2] });
+    }
+
+    // If no markdown links found, try plain URLs
+    if (sources.length === 0) {
+      const urlRegex = /(https?:\/\/[^\s,)]+)/g;
+      while ((m = urlRegex.exec(sourcesBlock)) !== null) {
+        sources.push({ title: new URL(m[1]).hostname, url: m[1] });
+      }
+    }
+
+    return { mainContent, sources };
+  }
+
+  // Method 2: Look for "Источники:" or "Sources:" section at end
+  // Match patterns like:
+  // \n\nИсточники:\n- url\n- url
+  // \nSources:\n1. url\n2. url
+  const sourceSectionRegex = /\n\n(?:#{0,3}\s*)?(?:Источники|Sources|Ссылки|References|Links)\s*:?\s*\n([\s\S]+?)$/i;
+  const sectionMatch = content.match(sourceSectionRegex);
+  if (sectionMatch) {
+    const block = sectionMatch[1];
+    const mainContent = content.slice(0, content.length - sectionMatch[0].length).trim();
+
+    // Parse markdown links
+    const linkRegex = /\[([^\]]*)\]\((https?:\/\/[^)]+)\)/g;
+    let m;
+    while ((m = linkRegex.exec(block)) !== null) {
+      sources.push({ title: m[1] || new URL(m[2]).hostname, url: m[2] });
+    }
+
+    // Parse plain URLs (numbered or bulleted)
+    if (sources.length === 0) {
+      const urlRegex = /(https?:\/\/[^\s,)]+)/g;
+      while ((m = urlRegex.exec(block)) !== null) {
+        try {
+          sources.push({ title: new URL(m[1]).hostname, url: m[1] });
+        } catch {
+          sources.push({ title: m[1].slice(0, 40), url: m[1] });
+        }
+      }
+    }
+
+    if (sources.length > 0) {
+      return { mainContent, sources };
+    }
+  }
+
+  // Also strip any remaining [N] citation markers from content
+  const cleaned = content.replace(/\s*\[(\d+)\]/g, '');
+
+  return { mainContent: cleaned, sources };
+}
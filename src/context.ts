@@ -0,0 +1,128 @@
+// =============================================================================
+// Context Window — picks which history fits a model's window
+// =============================================================================
+// Budget = window − system prompt − reserved output − safety margin. Whole
+// turns (a user message and the replies to it) are taken newest-first; the
+// oldest turn that only partly fits is cut from the front, nothing older is
+// sent. Counts are estimates, hence the margin.
+// =============================================================================
+
+import { AUTO_MODES, isAutoMode, type AppConfig, type ChatMessage } from './api';
+import { getProvider, resolveProvider } from './providers';
+import { estimateTokens } from './usage';
+
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+/** Rough cost of one attached image across providers */
+const IMAGE_TOKENS = 800;
+const SAFETY_MARGIN = 0.1;
+/** A partly fitting turn is only kept if at least this much of it survives */
+const MIN_TRUNCATED_TOKENS = 256;
+const TRUNCATION_MARK = '[…earlier part of this message omitted…]\n';
+
+/** For auto modes this is the smallest window among the models they may pick */
+export function getContextWindow(model: string, config: AppConfig): number {
+  if (model === 'auto-search') return DEFAULT_CONTEXT_WINDOW;
+
+  if (isAutoMode(model)) {
+    const auto = AUTO_MODES[model];
+    const provider = getProvider(auto.provider, config);
+    if (!provider?.contextWindow) return DEFAULT_CONTEXT_WINDOW;
+    const candidates = auto.models.length > 0 ? auto.models : provider.models.get(config);
+    if (candidates.length === 0) return DEFAULT_CONTEXT_WINDOW;
+    return Math.min(...candidates.map(m => provider.contextWindow!(m)));
+  }
+
+  const provider = resolveProvider(model, config);
+  return provider.contextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export function messageTokens(msg: ChatMessage): number {
+  return estimateTokens(msg.content) + (msg.images?.length || 0) * IMAGE_TOKENS;
+}
+
+export interface ContextPlan {
+  messages: ChatMessage[];
+  /** Earlier messages left out entirely */
+  dropped: number;
+  /** Those messages, oldest first */
+  omitted: ChatMessage[];
+  /** The oldest sent message was cut from the front */
+  truncated: boolean;
+  /** Estimated prompt tokens (system prompt + history) */
+  used: number;
+  window: number;
+}
+
+/** Groups history into turns: a user message plus whatever answered it */
+function toTurns(history: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const msg of history) {
+    if (msg.role === 'user' || turns.length === 0) turns.push([msg]);
+    else turns[turns.length - 1].push(msg);
+  }
+  return turns;
+}
+
+/** Keeps the tail of the text so the most recent part of a long paste survives */
+function truncateFront(msg: ChatMessage, tokens: number): ChatMessage {
+  const chars = Math.max(0, tokens * 4 - TRUNCATION_MARK.length);
+  return { ...msg, content: TRUNCATION_MARK + msg.content.slice(-chars), images: undefined };
+}
+
+/**
+ * `history` ends with the message being answered. Failed replies are skipped —
+ * they only carry our own error text.
+ */
+export function buildContext(
+  history: ChatMessage[],
+  model: string,
+  config: AppConfig,
+  systemPrompt: string,
+  maxOutputTokens?: number,
+  /** Room kept for text added outside the history, e.g. a summary */
+  reservedTokens = 0
+): ContextPlan {
+  const window = getContextWindow(model, config);
+  const reserve = maxOutputTokens ?? Math.min(8192, Math.floor(window / 4));
+  const systemTokens = estimateTokens(systemPrompt) + reservedTokens;
+  const budget = Math.max(0, Math.floor(window * (1 - SAFETY_MARGIN)) - reserve - systemTokens);
+
+  const usable = history.filter(m => !m.isError && !m.isStreaming);
+  const turns = toTurns(usable);
+  const kept: ChatMessage[][] = [];
+  let used = 0;
+  let truncated = false;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    const cost = turn.reduce((n, m) => n + messageTokens(m), 0);
+    if (used + cost <= budget) {
+      kept.unshift(turn);
+      used += cost;
+      continue;
+    }
+
+    // Doesn't fit whole: cut its first message from the front, keep the rest intact
+    const [first, ...rest] = turn;
+    const restCost = rest.reduce((n, m) => n + messageTokens(m), 0);
+    const room = budget - used - restCost;
+    if (room >= MIN_TRUNCATED_TOKENS || kept.length === 0) {
+      const cut = truncateFront(first, Math.max(room, MIN_TRUNCATED_TOKENS));
+      kept.unshift([cut, ...rest]);
+      used += messageTokens(cut) + restCost;
+      truncated = true;
+    }
+    break;
+  }
+
+  const messages = kept.flat();
+  const dropped = usable.length - messages.length;
+  return {
+    messages,
+    dropped,
+    omitted: usable.slice(0, dropped),
+    truncated,
+    used: used + systemTokens,
+    window,
+  };
+}
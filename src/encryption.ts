@@ -0,0 +1,82 @@
+// =============================================================================
+// Backup Encryption — passphrase-protected export files (WebCrypto only)
+// =============================================================================
+// PBKDF2-SHA256 derives an AES-256-GCM key from the passphrase; salt, IV and
+// iteration count travel in the file so older files stay readable if the
+// defaults change. GCM authenticates the data, so a wrong passphrase and a
+// damaged file both fail decryption instead of yielding garbage.
+// =============================================================================
+
+const FORMAT = 'dophy-encrypted';
+const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackup {
+  app: 'DophyAI';
+  format: typeof FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  /** Base64 ciphertext of the JSON backup */
+  data: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  const s = atob(b64);
+  const bytes = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number, usage: KeyUsage): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return !!data && typeof data === 'object' && (data as { format?: unknown }).format === FORMAT;
+}
+
+export async function encryptBackup(backup: unknown, passphrase: string): Promise<EncryptedBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS, 'encrypt');
+  const plain = new TextEncoder().encode(JSON.stringify(backup));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  return {
+    app: 'DophyAI',
+    format: FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(cipher),
+  };
+}
+
+/** Returns the parsed backup inside; throws on a wrong passphrase or a damaged file */
+export async function decryptBackup(file: EncryptedBackup, passphrase: string): Promise<unknown> {
+  if (file.version !== 1 || file.kdf?.name !== 'PBKDF2' || file.cipher?.name !== 'AES-GCM') {
+    throw new Error('Unsupported encrypted backup format');
+  }
+  const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations, 'decrypt');
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.data));
+  } catch {
+    throw new Error('Wrong passphrase or damaged file');
+  }
+  return JSON.parse(new TextDecoder().decode(plain));
+}
@@ -0,0 +1,179 @@
+// =============================================================================
+// Chat Export — Markdown, standalone HTML and a print view for saving as PDF
+// =============================================================================
+// Exports follow the branch on screen and leave out failed replies. Markdown
+// keeps reasoning in a collapsed <details> block and turns sources into a link
+// list. The HTML body is rendered by the app's own Markdown component (see
+// ExportedChat in App.tsx) and wrapped here with the KaTeX and highlight.js
+// stylesheets inlined; the print view is that document opened in a new tab.
+// =============================================================================
+
+import { getModelShortName, type ChatMessage, type ChatSession } from './api';
+import { parseSourcesFromContent, parseThinkContent } from './content';
+import { activePath } from './tree';
+
+export type ExportFormat = 'md' | 'html' | 'print';
+
+export interface ExportedMessage {
+  message: ChatMessage;
+  /** "You", or the model that answered */
+  author: string;
+  thinking: string;
+  body: string;
+  sources: { title: string; url: string }[];
+  images: string[];
+}
+
+export function exportMessages(session: ChatSession): ExportedMessage[] {
+  return activePath(session).filter(m => !m.isError).map(message => {
+    if (message.role === 'user') {
+      return { message, author: 'You', thinking: '', body: message.content, sources: [], images: message.images || [] };
+    }
+    const { thinking, response } = parseThinkContent(message.content);
+    const { mainContent, sources } = parseSourcesFromContent(response);
+    const model = message.usage?.model || message.model;
+    return {
+      message,
+      author: model ? getModelShortName(model) : 'DophyAI',
+      thinking,
+      body: mainContent,
+      sources,
+      images: message.responseImages || [],
+    };
+  });
+}
+
+export function formatExportDate(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// ---- Markdown ----------------------------------------------------------------
+
+export function chatToMarkdown(session: ChatSession): string {
+  const out = [`# ${session.title}`, `_${formatExportDate(session.createdAt)} · exported from DophyAI_`];
+  for (const { message, author, thinking, body, sources, images } of exportMessages(session)) {
+    out.push(`## ${author}`);
+    if (thinking) out.push(`<details>\n<summary>Thinking</summary>\n\n${thinking}\n\n</details>`);
+    // Images stay out of Markdown — data URLs would swamp the text
+    if (images.length > 0) out.push(`_[${images.length} image${images.length === 1 ? '' : 's'}${message.role === 'user' ? ' attached' : ''}]_`);
+    if (body) out.push(body);
+    if (sources.length > 0) out.push(['**Sources**', ...sources.map((s, i) => `${i + 1}. [${s.title.replace(/[[\]]/g, '')}](${s.url})`)].join('\n'));
+  }
+  return out.join('\n\n') + '\n';
+}
+
+export function chatsToMarkdown(sessions: ChatSession[]): string {
+  return sessions.map(chatToMarkdown).join('\n---\n\n');
+}
+
+// ---- HTML --------------------------------------------------------------------
+
+const EXPORT_CSS = `
+:root { color-scheme: light; }
+body { margin: 0; background: #fdfbf7; color: #2b2a27; font: 15px/1.6 Inter, system-ui, -apple-system, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 20px 64px; }
+article + article { margin-top: 48px; padding-top: 32px; border-top: 1px solid #e4dfd4; }
+h1.title { margin: 0 0 4px; font-size: 24px; }
+.meta { margin: 0 0 24px; color: #8a857a; font-size: 13px; }
+section { margin: 0 0 20px; }
+.author { margin: 0 0 4px; color: #6b675e; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em; }
+.user .content { padding: 10px 14px; border-radius: 14px; background: #f1ece2; white-space: pre-wrap; }
+.content img, .images img { max-width: 100%; border-radius: 10px; }
+.images { display: flex; flex-wrap: wrap; gap: 8px; margin: 6px 0; }
+.images img { max-height: 240px; }
+details { margin: 6px 0; padding: 6px 12px; border-left: 3px solid #c9b8f0; color: #6b675e; font-size: 13px; }
+summary { cursor: pointer; font-weight: 600; }
+pre { overflow-x: auto; padding: 12px 14px; border-radius: 10px; background: #22272e; color: #adbac7; font-size: 13px; line-height: 1.5; }
+code { font-family: "JetBrains Mono", ui-monospace, monospace; font-size: .9em; }
+:not(pre) > code { padding: 1px 5px; border-radius: 5px; background: #efe9dc; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { padding: 6px 10px; border: 1px solid #e4dfd4; text-align: left; }
+blockquote { margin: 10px 0; padding-left: 14px; border-left: 3px solid #d9cfbb; color: #6b675e; }
+a { color: #9a5b13; }
+button { display: none; }
+.sources { margin: 8px 0 0; padding: 8px 0 0 20px; border-top: 1px solid #e4dfd4; font-size: 13px; }
+@media print {
+  body { background: #fff; font-size: 12pt; }
+  main { max-width: none; padding: 0; }
+  article + article { break-before: page; border-top: none; margin-top: 0; padding-top: 0; }
+  section, pre, table, img { break-inside: avoid; }
+  pre, .user .content { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  details { border-left-color: #999; }
+  a { color: inherit; }
+}
+`;
+
+let inlinedStyles: Promise<string> | null = null;
+
+/**
+ * The KaTeX and highlight.js stylesheets the app itself loads, as text with
+ * their font URLs made absolute. Falls back to @import when they can't be fetched.
+ */
+function inlineStylesheets(): Promise<string> {
+  if (!inlinedStyles) {
+    const links = [...document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]')].filter(l => /katex|highlight/.test(l.href));
+    inlinedStyles = Promise.all(links.map(async ({ href }) => {
+      try {
+        const res = await fetch(href);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const css = await res.text();
+        return css.replace(/url\((['"]?)(?!data:|https?:)([^'")]+)\1\)/g, (_, q, path) => `url(${q}${new URL(path, href).href}${q})`);
+      } catch {
+        return `@import url("${href}");`;
+      }
+    })).then(parts => parts.join('\n'));
+    inlinedStyles.catch(() => { inlinedStyles = null; });
+  }
+  return inlinedStyles;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+/** Wraps rendered chats in a standalone page; `print` opens the print dialog once loaded */
+export async function htmlDocument(title: string, body: string, print = false): Promise<string> {
+  const styles = await inlineStylesheets();
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+<style>${EXPORT_CSS}</style>
+</head>
+<body>
+<main>${body}</main>${print ? '\n<script>addEventListener("load", () => setTimeout(print, 300));</script>' : ''}
+</body>
+</html>
+`;
+}
+
+// ---- Files -------------------------------------------------------------------
+
+export function exportFileName(name: string, ext: string): string {
+  const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat';
+  return `dophy-${slug}-${new Date().toISOString().slice(0, 10)}.${ext}`;
+}
+
+export function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type: `${type};charset=utf-8` });
+  const a = document.createElement('a'); a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click(); URL.revokeObjectURL(a.href);
+}
+
+/**
+ * Opens an empty tab right away — browsers only allow pop-ups directly in a
+ * click handler — and returns a function that fills it in once rendered.
+ */
+export function openPrintWindow(): (html: string) => void {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Pop-up blocked — allow pop-ups for this site to print');
+  return html => {
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+  };
+}
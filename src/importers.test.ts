@@ -0,0 +1,75 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import type { ChatSession } from './api';
+import { importForeignChats } from './importers';
+import { activePath } from './tree';
+import chatgpt from './__fixtures__/importers/chatgpt.json';
+import claude from './__fixtures__/importers/claude.json';
+import geminiEn from './__fixtures__/importers/gemini-en.json';
+import geminiDe from './__fixtures__/importers/gemini-de.json';
+
+/** Every parent sits before its replies, as tree.ts expects */
+function expectParentsFirst(session: ChatSession) {
+  const seen = new Set<string>();
+  for (const m of session.messages) {
+    if (m.parentId) expect(seen, `${m.id} before its parent`).toContain(m.parentId);
+    seen.add(m.id);
+  }
+}
+
+describe('importForeignChats', () => {
+  it('ChatGPT: keeps branches, thinking and the shown branch; a reply without a time stays after its prompt', () => {
+    const result = importForeignChats(chatgpt)!;
+    expect(result.source).toBe('ChatGPT');
+    expect(result.skipped).toEqual(['1 image']);
+    const [session] = result.sessions;
+    expectParentsFirst(session);
+    expect(session.messages.map(m => [m.id, m.parentId])).toEqual([
+      ['chatgpt:u1', null],
+      ['chatgpt:a1', 'chatgpt:u1'],
+      ['chatgpt:u2', null],
+      ['chatgpt:a2', 'chatgpt:u2'],
+    ]);
+    expect(session.messages[1]).toMatchObject({ content: '<think>\nAverage distance.\n</think>\n\nAbout 384,400 km.', model: 'o3' });
+    expect(session.messages[2].content).toBe('How far is Mars?');
+    expect(session).toMatchObject({ id: 'chatgpt:conv-1', title: 'Distances', model: 'gpt-4o', leafId: 'chatgpt:a2', createdAt: 1700000000000, updatedAt: 1700000201000 });
+  });
+
+  it('Claude: follows parent ids, folds in attachments, and chains exports without them', () => {
+    const result = importForeignChats(claude)!;
+    expect(result.source).toBe('Claude');
+    expect(result.skipped).toEqual(['1 file']);
+    const [recipe, untitled] = result.sessions;
+    expectParentsFirst(recipe);
+    expect(recipe.messages.map(m => m.id)).toEqual(['claude:m1', 'claude:m2', 'claude:m3', 'claude:m4']);
+    expect(recipe.messages[1].content).toBe('<think>\nKeep it simple.\n</think>\n\nBoil water.');
+    expect(recipe.messages[2].content).toBe('Vegan?\n\n**diet.txt**\n\n```\nno eggs\n```');
+    expect(activePath(recipe).map(m => m.id)).toEqual(recipe.messages.map(m => m.id));
+    expect(untitled).toMatchObject({ title: 'Untitled', model: 'claude' });
+    expect(untitled.messages.map(m => m.parentId)).toEqual([null, 'claude:n1']);
+  });
+
+  it('Gemini (English): groups prompts into chats by time gaps and converts replies to Markdown', () => {
+    const result = importForeignChats(geminiEn)!;
+    expect(result.source).toBe('Gemini');
+    expect(result.skipped).toEqual(['1 non-chat activity item', '1 image']);
+    expect(result.sessions.map(s => s.messages.map(m => m.content))).toEqual([
+      ['What is 2+2?', '**4**', 'And 3+3?', '6'],
+      ['New topic', '- one\n- two'],
+    ]);
+    result.sessions.forEach(expectParentsFirst);
+  });
+
+  it('Gemini (localized Takeout): finds prompts by their reply, not by the English title', () => {
+    const result = importForeignChats(geminiDe)!;
+    expect(result.source).toBe('Gemini');
+    expect(result.skipped).toEqual(['2 non-chat activity items']);
+    expect(result.sessions).toHaveLength(1);
+    expect(result.sessions[0].messages.map(m => m.content)).toEqual(['Wie weit ist Berlin von Hamburg entfernt?', 'Etwa **290 km**.']);
+  });
+
+  it('leaves other files to the backup reader', () => {
+    expect(importForeignChats({ version: 5, sessions: [] })).toBeNull();
+    expect(importForeignChats([{ foo: 1 }])).toBeNull();
+  });
+});
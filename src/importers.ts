@@ -0,0 +1,310 @@
+// =============================================================================
+// Foreign Importers — chats exported from ChatGPT, Claude and Gemini
+// =============================================================================
+// Each converter turns the other app's JSON into ChatSession records that go
+// through the same import preview as backups. Ids are derived from the source
+// ids, so importing a newer export later only adds what is new. Only text is
+// kept; images and tool output are counted and reported as skipped.
+//   ChatGPT: conversations.json — a node tree per chat, branches preserved
+//   Claude:  conversations.json — message list, branches when parent ids exist
+//   Gemini:  Takeout "My Activity/Gemini Apps/MyActivity.json" — one prompt per
+//            entry, grouped into chats by gaps of more than 30 minutes
+// =============================================================================
+
+import type { ChatMessage, ChatSession } from './api';
+
+export interface ForeignImport {
+  source: 'ChatGPT' | 'Claude' | 'Gemini';
+  sessions: ChatSession[];
+  /** Readable counts of what could not be converted, e.g. "3 images" */
+  skipped: string[];
+}
+
+const GEMINI_SESSION_GAP = 30 * 60_000;
+
+/** Counts skipped things by label and prints them as "2 images" */
+class SkipCounter {
+  private counts = new Map<string, number>();
+  add(label: string, n = 1) { if (n > 0) this.counts.set(label, (this.counts.get(label) || 0) + n); }
+  list(): string[] { return [...this.counts].map(([label, n]) => `${n} ${label}${n === 1 ? '' : 's'}`); }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const toMs = (v: unknown, fallback: number) => typeof v === 'number' ? Math.round(v * 1000) : typeof v === 'string' && !isNaN(Date.parse(v)) ? Date.parse(v) : fallback;
+const withThinking = (thinking: string, text: string) => thinking ? `<think>\n${thinking}\n</think>\n\n${text}` : text;
+
+/**
+ * Timestamp order with every parent moved ahead of its replies, which tree.ts
+ * relies on. A message without a time of its own gets the conversation's, so
+ * the timestamp alone can put a reply before its prompt.
+ */
+function parentsFirst(messages: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const placed = new Set<string>();
+  const ordered: ChatMessage[] = [];
+  for (const msg of [...messages].sort((a, b) => a.timestamp - b.timestamp)) {
+    const chain: ChatMessage[] = [];
+    for (let m: ChatMessage | undefined = msg; m && !placed.has(m.id); m = m.parentId ? byId.get(m.parentId) : undefined) {
+      placed.add(m.id);
+      chain.push(m);
+    }
+    ordered.push(...chain.reverse());
+  }
+  return ordered;
+}
+
+function finishSession(id: string, title: string, messages: ChatMessage[], fallbackModel: string, leafId?: string): ChatSession {
+  const ordered = parentsFirst(messages);
+  const model = [...ordered].reverse().find(m => m.model)?.model || fallbackModel;
+  return {
+    id,
+    title: title.trim() || 'Untitled',
+    messages: ordered,
+    model,
+    createdAt: ordered.reduce((t, m) => Math.min(t, m.timestamp), Infinity),
+    updatedAt: ordered.reduce((t, m) => Math.max(t, m.timestamp), 0),
+    leafId,
+  };
+}
+
+// ---- ChatGPT ------------------------------------------------------------------
+
+interface GptMessage {
+  author?: { role?: string };
+  create_time?: number | null;
+  recipient?: string;
+  content?: { content_type?: string; parts?: unknown[]; thoughts?: { content?: string }[] };
+  metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+}
+interface GptNode { id: string; parent?: string | null; children?: string[]; message?: GptMessage | null }
+interface GptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  mapping: Record<string, GptNode>;
+  current_node?: string;
+  default_model_slug?: string;
+}
+
+function fromChatGPT(conversations: GptConversation[], skipped: SkipCounter): ChatSession[] {
+  const sessions: ChatSession[] = [];
+  for (const conv of conversations) {
+    const convId = conv.conversation_id || conv.id;
+    if (!convId || !isObject(conv.mapping)) { skipped.add('unreadable conversation'); continue; }
+    const created = toMs(conv.create_time, Date.now());
+    const messages: ChatMessage[] = [];
+    // Per node: the nearest kept message at or above it, and reasoning waiting for the next reply
+    const anchor = new Map<string, { id: string | null; thinking: string }>();
+
+    const roots = Object.values(conv.mapping).filter(n => !n.parent || !conv.mapping[n.parent]);
+    const stack = roots.map(n => ({ node: n, above: { id: null as string | null, thinking: '' } }));
+    while (stack.length > 0) {
+      const { node, above } = stack.pop()!;
+      let here = above;
+      const msg = node.message;
+      const role = msg?.author?.role;
+      const type = msg?.content?.content_type;
+      const hidden = msg?.metadata?.is_visually_hidden_from_conversation || (msg?.recipient && msg.recipient !== 'all');
+
+      if (msg && role === 'assistant' && type === 'thoughts') {
+        const text = (msg.content?.thoughts || []).map(t => t.content || '').filter(Boolean).join('\n\n');
+        here = { id: above.id, thinking: [above.thinking, text].filter(Boolean).join('\n\n') };
+      } else if (msg && (role === 'user' || role === 'assistant') && !hidden && (type === 'text' || type === 'multimodal_text')) {
+        const parts = msg.content?.parts || [];
+        skipped.add('image', parts.filter(p => typeof p !== 'string').length);
+        const text = parts.filter((p): p is string => typeof p === 'string').join('\n').trim();
+        if (text) {
+          const id = `chatgpt:${node.id}`;
+          messages.push({
+            id,
+            parentId: above.id,
+            role,
+            content: role === 'assistant' ? withThinking(above.thinking, text) : text,
+            model: role === 'assistant' ? msg.metadata?.model_slug || conv.default_model_slug : undefined,
+            timestamp: toMs(msg.create_time, created),
+          });
+          here = { id, thinking: '' };
+        }
+      }
+      anchor.set(node.id, here);
+      for (const child of [...(node.children || [])].reverse()) {
+        const next = conv.mapping[child];
+        if (next) stack.push({ node: next, above: here });
+      }
+    }
+
+    if (messages.length === 0) { skipped.add('empty conversation'); continue; }
+    const leaf = conv.current_node ? anchor.get(conv.current_node)?.id ?? undefined : undefined;
+    sessions.push(finishSession(`chatgpt:${convId}`, conv.title || '', messages, 'chatgpt', leaf));
+  }
+  return sessions;
+}
+
+// ---- Claude -------------------------------------------------------------------
+
+interface ClaudeMessage {
+  uuid: string;
+  sender?: 'human' | 'assistant';
+  text?: string;
+  content?: { type?: string; text?: string; thinking?: string }[];
+  created_at?: string;
+  parent_message_uuid?: string;
+  attachments?: { file_name?: string; extracted_content?: string }[];
+  files?: unknown[];
+}
+interface ClaudeConversation {
+  uuid: string;
+  name?: string;
+  created_at?: string;
+  chat_messages: ClaudeMessage[];
+  current_leaf_message_uuid?: string;
+  model?: string;
+}
+
+function fromClaude(conversations: ClaudeConversation[], skipped: SkipCounter): ChatSession[] {
+  const sessions: ChatSession[] = [];
+  for (const conv of conversations) {
+    if (!conv.uuid || !Array.isArray(conv.chat_messages)) { skipped.add('unreadable conversation'); continue; }
+    const created = toMs(conv.created_at, Date.now());
+    const messages: ChatMessage[] = [];
+    const anchor = new Map<string, string | null>();
+    let previous: string | null = null;
+
+    for (const msg of conv.chat_messages) {
+      const blocks = msg.content || [];
+      const text = (blocks.some(b => b.type === 'text') ? blocks.filter(b => b.type === 'text').map(b => b.text || '').join('\n\n') : msg.text || '').trim();
+      const thinking = blocks.filter(b => b.type === 'thinking').map(b => b.thinking || '').join('\n\n').trim();
+      const attached = (msg.attachments || []).filter(a => a.extracted_content).map(a => `**${a.file_name || 'Attachment'}**\n\n\`\`\`\n${a.extracted_content}\n\`\`\``);
+      skipped.add('file', (msg.files || []).length);
+
+      // Older exports have no parent ids and are a single branch
+      const parent = msg.parent_message_uuid !== undefined ? anchor.get(msg.parent_message_uuid) ?? null : previous;
+      const content = [text, ...attached].filter(Boolean).join('\n\n');
+      if (!content || (msg.sender !== 'human' && msg.sender !== 'assistant')) { anchor.set(msg.uuid, parent); continue; }
+
+      const id = `claude:${msg.uuid}`;
+      const assistant = msg.sender === 'assistant';
+      messages.push({
+        id,
+        parentId: parent,
+        role: assistant ? 'assistant' : 'user',
+        content: assistant ? withThinking(thinking, content) : content,
+        model: assistant ? conv.model || 'claude' : undefined,
+        timestamp: toMs(msg.created_at, created),
+      });
+      anchor.set(msg.uuid, id);
+      previous = id;
+    }
+
+    if (messages.length === 0) { skipped.add('empty conversation'); continue; }
+    const leaf = conv.current_leaf_message_uuid ? anchor.get(conv.current_leaf_message_uuid) ?? undefined : undefined;
+    sessions.push(finishSession(`claude:${conv.uuid}`, conv.name || '', messages, 'claude', leaf));
+  }
+  return sessions;
+}
+
+// ---- Gemini -------------------------------------------------------------------
+
+interface GeminiActivity {
+  header?: string;
+  products?: string[];
+  title?: string;
+  /** Set on non-chat items such as extension use or feedback */
+  subtitles?: unknown[];
+  time?: string;
+  safeHtmlItem?: { html?: string }[];
+  attachedFiles?: unknown[];
+  imageFile?: string;
+}
+
+/** Takeout stores replies as HTML; this turns the common tags back into Markdown */
+function htmlToMarkdown(html: string): string {
+  const walk = (node: Node, listPrefix = ''): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+    if (!(node instanceof Element)) return '';
+    const inner = () => [...node.childNodes].map(c => walk(c, listPrefix)).join('');
+    switch (node.tagName.toLowerCase()) {
+      case 'br': return '\n';
+      case 'p': case 'div': return `${inner().trim()}\n\n`;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return `${'#'.repeat(Number(node.tagName[1]))} ${inner().trim()}\n\n`;
+      case 'strong': case 'b': return `**${inner()}**`;
+      case 'em': case 'i': return `_${inner()}_`;
+      case 'code': return node.parentElement?.tagName.toLowerCase() === 'pre' ? inner() : `\`${inner()}\``;
+      case 'pre': return `\`\`\`\n${inner().replace(/\n$/, '')}\n\`\`\`\n\n`;
+      case 'a': return `[${inner()}](${node.getAttribute('href') || ''})`;
+      case 'ul': case 'ol': {
+        const ordered = node.tagName.toLowerCase() === 'ol';
+        const items = [...node.children].filter(c => c.tagName.toLowerCase() === 'li');
+        return items.map((li, i) => `${listPrefix}${ordered ? `${i + 1}.` : '-'} ${[...li.childNodes].map(c => walk(c, listPrefix + '  ')).join('').trim()}`).join('\n') + '\n\n';
+      }
+      default: return inner();
+    }
+  };
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return walk(doc.body).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const PROMPT_PREFIX = /^Prompted\s+/;
+
+/**
+ * The prompt of a chat entry, or null for other activity. English titles read
+ * "Prompted <text>"; other languages use their own wording, so there an entry
+ * with a reply and no subtitles counts as a prompt and its title is kept whole.
+ */
+function geminiPrompt(a: GeminiActivity): string | null {
+  if (typeof a.title !== 'string' || !a.time || isNaN(Date.parse(a.time))) return null;
+  if (PROMPT_PREFIX.test(a.title)) return a.title.replace(PROMPT_PREFIX, '').trim();
+  if (a.safeHtmlItem?.length && !a.subtitles?.length) return a.title.trim();
+  return null;
+}
+
+function fromGemini(activity: GeminiActivity[], skipped: SkipCounter): ChatSession[] {
+  const prompts = activity
+    .flatMap(a => {
+      const prompt = geminiPrompt(a);
+      if (prompt === null) { skipped.add('non-chat activity item'); return []; }
+      return [{ ...a, prompt }];
+    })
+    .sort((a, b) => Date.parse(a.time!) - Date.parse(b.time!));
+
+  const sessions: ChatSession[] = [];
+  let messages: ChatMessage[] = [];
+  let last = 0;
+  const flush = () => {
+    if (messages.length === 0) return;
+    const first = messages[0];
+    const title = first.content.length > 50 ? first.content.slice(0, 50) + '…' : first.content;
+    sessions.push(finishSession(`gemini:${first.timestamp}`, title, messages, 'gemini'));
+    messages = [];
+  };
+
+  for (const entry of prompts) {
+    const time = Date.parse(entry.time!);
+    if (time - last > GEMINI_SESSION_GAP) flush();
+    last = time;
+    skipped.add('image', (entry.attachedFiles || []).length + (entry.imageFile ? 1 : 0));
+    const id = `gemini:${time}`;
+    messages.push({ id, parentId: messages[messages.length - 1]?.id ?? null, role: 'user', content: entry.prompt, timestamp: time });
+    const html = (entry.safeHtmlItem || []).map(i => i.html || '').join('');
+    if (html) messages.push({ id: `${id}:reply`, parentId: id, role: 'assistant', content: htmlToMarkdown(html), model: 'gemini', timestamp: time });
+  }
+  flush();
+  return sessions;
+}
+
+// ---- Detection ----------------------------------------------------------------
+
+/** Recognises the supported exports; null for anything else (e.g. a DophyAI backup) */
+export function importForeignChats(data: unknown): ForeignImport | null {
+  if (!Array.isArray(data) || data.length === 0 || !isObject(data[0])) return null;
+  const first = data[0];
+  const skipped = new SkipCounter();
+  if ('mapping' in first) return { source: 'ChatGPT', sessions: fromChatGPT(data.filter(isObject) as unknown as GptConversation[], skipped), skipped: skipped.list() };
+  if ('chat_messages' in first) return { source: 'Claude', sessions: fromClaude(data.filter(isObject) as unknown as ClaudeConversation[], skipped), skipped: skipped.list() };
+  // Product names stay in English in localized Takeout exports
+  const product = [first.header, ...(Array.isArray(first.products) ? first.products : [])].filter(p => typeof p === 'string').join(' ');
+  if (/Gemini|Bard/.test(product)) return { source: 'Gemini', sessions: fromGemini(data.filter(isObject) as GeminiActivity[], skipped), skipped: skipped.list() };
+  return null;
+}
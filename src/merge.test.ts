@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatSession } from './api';
+import { defaultConfig } from './config';
+import { applyImport, planImport } from './merge';
+
+const chat = (fields: Partial<ChatSession> = {}): ChatSession => ({
+  id: 'c1', title: 'Trip', model: 'auto-gemini-flash', createdAt: 1, updatedAt: 10,
+  messages: [
+    { id: 'm1', role: 'user', content: 'Where to?', timestamp: 1, parentId: null },
+    { id: 'm2', role: 'assistant', content: 'Lisbon', timestamp: 2, parentId: 'm1' },
+  ],
+  ...fields,
+});
+
+function plan(local: ChatSession, incoming: ChatSession) {
+  const current = { config: defaultConfig(), sessions: [local] };
+  const items = planImport(current, { sessions: [incoming] });
+  return { items, apply: () => applyImport(current, items, {}).sessions[0] };
+}
+
+describe('planImport for chats', () => {
+  it('skips a chat that is the same on both sides', () => {
+    expect(plan(chat({ pinned: false, tags: [] }), chat()).items).toEqual([]);
+  });
+
+  it('offers metadata changed on the other device and takes it when the backup is newer', () => {
+    const { items, apply } = plan(chat(), chat({ title: 'Lisbon trip', folderId: 'f1', tags: ['travel'], pinned: true, archived: true, updatedAt: 20 }));
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ status: 'changed', detail: 'changed title, folder, tags, pinned, archived', actions: ['take', 'keep'] });
+    expect(apply()).toMatchObject({ title: 'Lisbon trip', folderId: 'f1', tags: ['travel'], pinned: true, archived: true, updatedAt: 20 });
+  });
+
+  it('suggests keeping local metadata when the backup is older', () => {
+    const { items } = plan(chat({ deletedAt: 50, updatedAt: 50 }), chat());
+    expect(items[0]).toMatchObject({ status: 'changed', detail: 'changed trash (backup is older)', actions: ['keep', 'take'] });
+  });
+
+  it('lists new messages and changed fields together', () => {
+    const incoming = chat({ title: 'Renamed', updatedAt: 20 });
+    incoming.messages = [...incoming.messages, { id: 'm3', role: 'user', content: 'And food?', timestamp: 3, parentId: 'm2' }];
+    const { items, apply } = plan(chat(), incoming);
+    expect(items[0]).toMatchObject({ status: 'changed', detail: '1 new messages, changed title' });
+    expect(apply().messages.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+});
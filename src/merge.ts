@@ -0,0 +1,265 @@
+// =============================================================================
+// Import Merge — preview of what a backup would change, applied per item
+// =============================================================================
+// planImport compares a parsed backup with the current state and lists only
+// what differs: new items, chats that simply continued elsewhere ("changed")
+// and real conflicts. Nothing is written until applyImport runs with the
+// user's choices. Diverged chats are merged through the message tree — both
+// sides' messages are kept and end up as branches of one chat.
+// =============================================================================
+
+import type { AppConfig, ChatComparison, ChatSession } from './api';
+import type { BackupContents } from './config';
+import { withParentLinks } from './tree';
+
+export type ImportAction = 'take' | 'keep' | 'merge';
+export type ImportKind = 'chat' | 'folder' | 'key' | 'model' | 'memory' | 'preset' | 'endpoint' | 'setting';
+
+export interface ImportTarget {
+  config: AppConfig;
+  sessions: ChatSession[];
+}
+
+export interface ImportItem {
+  id: string;
+  kind: ImportKind;
+  label: string;
+  status: 'new' | 'changed' | 'conflict';
+  detail?: string;
+  /** First entry is the suggested choice */
+  actions: ImportAction[];
+  apply: (target: ImportTarget, action: ImportAction) => void;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+const maskKey = (key: string) => `${key.slice(0, 10)}...${key.slice(-4)}`;
+const clip = (text: string, n = 60) => text.length > n ? text.slice(0, n) + '…' : text;
+
+// ---- Chats -------------------------------------------------------------------
+
+/** Union of both message trees; for a message edited on both sides the more recently updated chat wins */
+export function mergeSessions(local: ChatSession, incoming: ChatSession): ChatSession {
+  const newer = incoming.updatedAt > local.updatedAt ? incoming : local;
+  const mine = withParentLinks(local.messages);
+  const theirs = withParentLinks(incoming.messages);
+  const theirsById = new Map(theirs.map(m => [m.id, m]));
+  const mineIds = new Set(mine.map(m => m.id));
+
+  const messages = mine.map(m => newer === incoming ? theirsById.get(m.id) || m : m);
+  for (const m of theirs) if (!mineIds.has(m.id)) messages.push(m);
+
+  const comparisons: ChatComparison[] = [...(local.comparisons || [])];
+  for (const c of incoming.comparisons || []) if (!comparisons.some(x => x.promptId === c.promptId)) comparisons.push(c);
+
+  const { messages: _, ...fields } = newer;
+  return {
+    ...fields,
+    messages,
+    leafId: newer.leafId ?? newer.messages[newer.messages.length - 1]?.id,
+    comparisons: comparisons.length > 0 ? comparisons : undefined,
+    updatedAt: Math.max(local.updatedAt, incoming.updatedAt),
+  };
+}
+
+function replaceSession(target: ImportTarget, session: ChatSession) {
+  target.sessions = target.sessions.map(s => s.id === session.id ? session : s);
+}
+
+/** Chat fields besides the messages that another device may have changed, with their preview labels */
+const CHAT_FIELDS: [keyof ChatSession, string][] = [
+  ['title', 'title'], ['folderId', 'folder'], ['tags', 'tags'], ['pinned', 'pinned'], ['archived', 'archived'],
+  ['deletedAt', 'trash'], ['summary', 'summary'], ['leafId', 'shown branch'], ['prompt', 'persona'], ['params', 'parameters'],
+];
+
+/** Unset, false and [] all mean "not set" */
+const unset = (v: unknown) => v === undefined || v === false || (Array.isArray(v) && v.length === 0);
+const sameField = (a: unknown, b: unknown) => (unset(a) && unset(b)) || same(a, b);
+
+/** Both trees merged, with the backup's value for each of `fields` even when it is the older side */
+function takeFields(local: ChatSession, incoming: ChatSession, fields: (keyof ChatSession)[]): ChatSession {
+  const merged: Record<string, unknown> = { ...mergeSessions(local, incoming) };
+  for (const f of fields) merged[f] = incoming[f];
+  return merged as unknown as ChatSession;
+}
+
+function planChat(local: ChatSession | undefined, incoming: ChatSession): ImportItem | null {
+  const base = { id: `chat:${incoming.id}`, kind: 'chat' as const, label: incoming.title };
+  if (!local) {
+    return { ...base, status: 'new', detail: `${incoming.messages.length} messages`, actions: ['take', 'keep'], apply: t => { t.sessions = [...t.sessions, incoming]; } };
+  }
+
+  const mine = new Map(local.messages.map(m => [m.id, m]));
+  const theirIds = new Set(incoming.messages.map(m => m.id));
+  const added = incoming.messages.filter(m => !mine.has(m.id)).length;
+  const edited = incoming.messages.filter(m => mine.has(m.id) && mine.get(m.id)!.content !== m.content).length;
+  const onlyHere = local.messages.filter(m => !theirIds.has(m.id)).length;
+  const fields = CHAT_FIELDS.filter(([f]) => !sameField(local[f], incoming[f]));
+  if (added === 0 && edited === 0 && fields.length === 0) return null;
+
+  const newer = incoming.updatedAt > local.updatedAt;
+  const changedFields = fields.length > 0 ? `changed ${fields.map(([, label]) => label).join(', ')}` : '';
+  const take = (t: ImportTarget) => replaceSession(t, takeFields(local, incoming, fields.map(([f]) => f)));
+
+  // Only renamed, moved, tagged, ... elsewhere: suggest whichever side was updated last
+  if (added === 0 && edited === 0) {
+    return { ...base, status: 'changed', detail: `${changedFields}${newer ? '' : ' (backup is older)'}`, actions: newer ? ['take', 'keep'] : ['keep', 'take'], apply: take };
+  }
+
+  // Continued on the other device only: the backup is a strict superset
+  if (onlyHere === 0 && edited === 0) {
+    const detail = [`${added} new messages`, changedFields].filter(Boolean).join(', ');
+    return { ...base, status: 'changed', detail, actions: ['take', 'keep'], apply: take };
+  }
+
+  const parts = [added && `${added} new in backup`, onlyHere && `${onlyHere} only here`, edited && `${edited} edited`, changedFields].filter(Boolean);
+  return {
+    ...base,
+    status: 'conflict',
+    detail: parts.join(', '),
+    actions: ['merge', 'keep', 'take'],
+    apply: (t, action) => replaceSession(t, action === 'merge' ? mergeSessions(local, incoming) : incoming),
+  };
+}
+
+// ---- Config ------------------------------------------------------------------
+
+type ListKey = 'googleKeys' | 'anthropicKeys' | 'memories';
+type ModelListKey = 'googleModels' | 'anthropicModels' | 'openrouterModels' | 'sambaModels' | 'ollamaModels';
+type ScalarKey = 'openrouterKey' | 'sambaKey' | 'systemPrompt' | 'ollamaBaseUrl' | 'theme' | 'includeTime' | 'includeDate' | 'autoTitles' | 'trashRetentionDays' | 'enabledTools';
+
+const LIST_LABELS: Record<ListKey, string> = { googleKeys: 'Google key', anthropicKeys: 'Anthropic key', memories: 'Memory' };
+const MODEL_LABELS: Record<ModelListKey, string> = {
+  googleModels: 'Google', anthropicModels: 'Anthropic', openrouterModels: 'OpenRouter', sambaModels: 'SambaNova', ollamaModels: 'Ollama',
+};
+const SCALAR_LABELS: Record<ScalarKey, [ImportKind, string]> = {
+  openrouterKey: ['key', 'OpenRouter key'],
+  sambaKey: ['key', 'SambaNova key'],
+  systemPrompt: ['setting', 'System prompt'],
+  ollamaBaseUrl: ['setting', 'Ollama URL'],
+  theme: ['setting', 'Theme'],
+  includeTime: ['setting', 'Include time'],
+  includeDate: ['setting', 'Include date'],
+  autoTitles: ['setting', 'Automatic titles'],
+  trashRetentionDays: ['setting', 'Trash retention'],
+  enabledTools: ['setting', 'Enabled tools'],
+};
+
+function describe(key: ScalarKey, value: unknown): string {
+  if (key === 'openrouterKey' || key === 'sambaKey') return maskKey(value as string);
+  if (key === 'theme') return (value as AppConfig['theme']).mode;
+  if (typeof value === 'string') return clip(value);
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+}
+
+function planConfig(local: AppConfig, incoming: Partial<AppConfig>): ImportItem[] {
+  const items: ImportItem[] = [];
+
+  for (const key of Object.keys(LIST_LABELS) as ListKey[]) {
+    for (const value of incoming[key] || []) {
+      if (local[key].includes(value)) continue;
+      items.push({
+        id: `${key}:${value}`,
+        kind: key === 'memories' ? 'memory' : 'key',
+        label: key === 'memories' ? clip(value) : `${LIST_LABELS[key]} ${maskKey(value)}`,
+        status: 'new',
+        actions: ['take', 'keep'],
+        apply: t => { if (!t.config[key].includes(value)) t.config = { ...t.config, [key]: [...t.config[key], value] }; },
+      });
+    }
+  }
+
+  for (const key of Object.keys(MODEL_LABELS) as ModelListKey[]) {
+    const fresh = (incoming[key] || []).filter(m => !local[key].includes(m));
+    if (fresh.length === 0) continue;
+    items.push({
+      id: key,
+      kind: 'model',
+      label: `${MODEL_LABELS[key]} models`,
+      status: 'new',
+      detail: fresh.join(', '),
+      actions: ['take', 'keep'],
+      apply: t => { t.config = { ...t.config, [key]: [...t.config[key], ...fresh.filter(m => !t.config[key].includes(m))] }; },
+    });
+  }
+
+  for (const key of Object.keys(SCALAR_LABELS) as ScalarKey[]) {
+    const value = incoming[key];
+    if (value === undefined || same(value, local[key]) || value === '') continue;
+    const [kind, label] = SCALAR_LABELS[key];
+    const empty = local[key] === '';
+    items.push({
+      id: key,
+      kind,
+      label,
+      status: empty ? 'new' : 'conflict',
+      detail: empty ? describe(key, value) : `${describe(key, local[key])} → ${describe(key, value)}`,
+      actions: empty ? ['take', 'keep'] : ['keep', 'take'],
+      apply: t => { t.config = { ...t.config, [key]: value }; },
+    });
+  }
+
+  const byId = <T extends { id: string; name: string }>(field: 'customEndpoints' | 'promptPresets' | 'chatFolders', kind: ImportKind, list: T[] | undefined, current: T[]) => {
+    for (const entry of list || []) {
+      const existing = current.find(x => x.id === entry.id);
+      if (existing && same(existing, entry)) continue;
+      items.push({
+        id: `${field}:${entry.id}`,
+        kind,
+        label: entry.name,
+        status: existing ? 'conflict' : 'new',
+        detail: existing && existing.name !== entry.name ? `was “${existing.name}”` : undefined,
+        actions: existing ? ['keep', 'take'] : ['take', 'keep'],
+        apply: t => {
+          const cur = t.config[field] as unknown as T[];
+          const next = cur.some(x => x.id === entry.id) ? cur.map(x => x.id === entry.id ? entry : x) : [...cur, entry];
+          t.config = { ...t.config, [field]: next };
+        },
+      });
+    }
+  };
+  byId('customEndpoints', 'endpoint', incoming.customEndpoints, local.customEndpoints);
+  byId('promptPresets', 'preset', incoming.promptPresets, local.promptPresets);
+  byId('chatFolders', 'folder', incoming.chatFolders, local.chatFolders);
+
+  for (const field of ['modelParams', 'modelPrices'] as const) {
+    for (const [model, value] of Object.entries(incoming[field] || {})) {
+      const existing = local[field][model];
+      if (existing && same(existing, value)) continue;
+      items.push({
+        id: `${field}:${model}`,
+        kind: 'setting',
+        label: `${field === 'modelParams' ? 'Parameters' : 'Price'} for ${model}`,
+        status: existing ? 'conflict' : 'new',
+        actions: existing ? ['keep', 'take'] : ['take', 'keep'],
+        apply: t => { t.config = { ...t.config, [field]: { ...t.config[field], [model]: value } }; },
+      });
+    }
+  }
+
+  return items;
+}
+
+// ---- Entry points ------------------------------------------------------------
+
+export function planImport(current: ImportTarget, backup: Pick<BackupContents, 'config' | 'sessions' | 'promptPresets'>): ImportItem[] {
+  const items: ImportItem[] = [];
+  for (const incoming of backup.sessions || []) {
+    const item = planChat(current.sessions.find(s => s.id === incoming.id), incoming);
+    if (item) items.push(item);
+  }
+  const config: Partial<AppConfig> = { ...backup.config };
+  if (backup.promptPresets) config.promptPresets = [...(config.promptPresets || []), ...backup.promptPresets];
+  items.push(...planConfig(current.config, config));
+  return items;
+}
+
+/** Applies the chosen action per item (missing choice = the suggested one) to copies of the current state */
+export function applyImport(current: ImportTarget, items: ImportItem[], choices: Record<string, ImportAction>): ImportTarget {
+  const target: ImportTarget = { config: { ...current.config }, sessions: [...current.sessions] };
+  for (const item of items) {
+    const action = choices[item.id] ?? item.actions[0];
+    if (action !== 'keep') item.apply(target, action);
+  }
+  return target;
+}
@@ -0,0 +1,174 @@
+// =============================================================================
+// Anthropic Messages API Streaming (with key rotation)
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, TokenUsage } from '../api';
+import type { ProviderDefinition } from './registry';
+import { isRetryableError, toAnthropicMessages, toAnthropicParams } from './shared';
+import { readSSE } from './streaming';
+
+export const DEFAULT_ANTHROPIC_MODELS = [
+  'claude-sonnet-4-5',
+  'claude-haiku-4-5',
+  'claude-opus-4-1',
+];
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export async function callAnthropicStreaming(
+  messages: ChatMessage[],
+  model: string,
+  keys: string[],
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  onResetContent: () => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {}
+): Promise<GenerationResult> {
+  if (keys.length === 0) {
+    throw new Error('No Anthropic API keys configured. Go to Settings → API Keys.');
+  }
+
+  const shuffledKeys = [...keys].sort(() => Math.random() - 0.5);
+
+  addLog({ timestamp: Date.now(), level: 'info', message: `→ Anthropic [${model}] — ${shuffledKeys.length} key(s)` });
+
+  for (let i = 0; i < shuffledKeys.length; i++) {
+    const key = shuffledKeys[i];
+    const keyHint = key.slice(-6);
+
+    if (signal?.aborted) throw new Error('Request aborted');
+
+    try {
+      addLog({ timestamp: Date.now(), level: 'info', message: `Key ...${keyHint} (${i + 1}/${shuffledKeys.length})` });
+
+      const response = await fetch(`${ANTHROPIC_BASE_URL}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': key,
+          'anthropic-version': ANTHROPIC_VERSION,
+          // Required for calls made straight from the browser
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model,
+          system: systemPrompt,
+          messages: toAnthropicMessages(messages),
+          max_tokens: 8192,
+          ...toAnthropicParams(params),
+          stream: true,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+      }
+
+      onResetContent();
+
+      let fullText = '';
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+      let gotContent = false;
+
+      for await (const event of readSSE(response.body!)) {
+        const jsonStr = event.data.trim();
+        if (!jsonStr) continue;
+
+        try {
+          const data = JSON.parse(jsonStr);
+
+          // Event-typed stream: message_start, content_block_start/delta/stop,
+          // message_delta, message_stop, ping, error
+          if (data.type === 'error') {
+            const errType = data.error?.type || 'error';
+            const errMsg = data.error?.message || JSON.stringify(data.error);
+            throw new Error(`Stream error ${errType}: ${errMsg.slice(0, 200)}`);
+          }
+
+          // Input count arrives with message_start, the running output count with message_delta
+          if (data.type === 'message_start' && data.message?.usage) {
+            const u = data.message.usage;
+            usage.promptTokens = (u.input_tokens || 0) + (u.cache_read_input_tokens || 0) + (u.cache_creation_input_tokens || 0);
+            usage.completionTokens = u.output_tokens || 0;
+          }
+          if (data.type === 'message_delta' && data.usage?.output_tokens) {
+            usage.completionTokens = data.usage.output_tokens;
+          }
+
+          if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta' && data.delta.text) {
+            fullText += data.delta.text;
+            onChunk(data.delta.text);
+            gotContent = true;
+          }
+
+          if (data.type === 'message_stop') break;
+        } catch (parseErr) {
+          if (parseErr instanceof Error && parseErr.message.startsWith('Stream error')) {
+            if (gotContent) {
+              addLog({ timestamp: Date.now(), level: 'warn', message: 'Stream interrupted with partial content' });
+              return { text: fullText, images: [], usage };
+            }
+            throw parseErr;
+          }
+        }
+      }
+
+      if (!gotContent && !fullText) {
+        throw new Error('Empty response from model');
+      }
+
+      addLog({ timestamp: Date.now(), level: 'info', message: `← OK via ...${keyHint} (${fullText.length} chars)` });
+      return { text: fullText, images: [], usage };
+
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      if (errMsg.includes('abort')) throw e;
+
+      addLog({ timestamp: Date.now(), level: 'warn', message: `Key ...${keyHint} failed: ${errMsg.slice(0, 80)}` });
+
+      if (!isRetryableError(errMsg)) throw new Error(errMsg);
+      continue;
+    }
+  }
+
+  addLog({ timestamp: Date.now(), level: 'error', message: `All ${shuffledKeys.length} keys exhausted for ${model}` });
+  throw new Error(`All ${shuffledKeys.length} keys failed for ${model}.`);
+}
+
+export const anthropicProvider: ProviderDefinition = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  icon: 'anthropic',
+  style: {
+    dot: 'bg-rose-400',
+    text: 'text-rose-400',
+    pill: 'bg-rose-500/10 text-rose-400',
+    hint: 'border-rose-500/20 bg-rose-500/5 text-rose-400',
+  },
+  capabilities: { vision: true, imageOutput: false, tools: false },
+  models: {
+    defaults: DEFAULT_ANTHROPIC_MODELS,
+    placeholder: 'claude-...',
+    get: c => c.anthropicModels,
+    set: anthropicModels => ({ anthropicModels }),
+  },
+  keys: {
+    kind: 'list',
+    placeholder: 'sk-ant-...',
+    helpUrl: 'https://console.anthropic.com/settings/keys',
+    helpLabel: 'console.anthropic.com',
+    get: c => c.anthropicKeys,
+    set: anthropicKeys => ({ anthropicKeys }),
+  },
+  contextWindow: () => 200_000,
+  matchesModel: model => model.startsWith('claude'),
+  stream: req => callAnthropicStreaming(
+    req.messages, req.model, req.config.anthropicKeys, req.systemPrompt,
+    req.onChunk, req.onResetContent, req.addLog, req.signal, req.params
+  ),
+};
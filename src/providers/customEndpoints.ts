@@ -0,0 +1,79 @@
+// =============================================================================
+// Custom Endpoints — user-defined OpenAI-compatible servers (llama.cpp, vLLM,
+// Ollama's /v1 shim, ...). Each endpoint becomes its own provider.
+// =============================================================================
+
+import type { AppConfig, CustomEndpoint } from '../api';
+import { normalizeBaseUrl, streamOpenAICompatible } from './openaiCompatible';
+import { namespacedModelId, splitModelId, type ProviderDefinition } from './registry';
+
+export function endpointProviderId(endpoint: CustomEndpoint): string {
+  return `endpoint-${endpoint.id}`;
+}
+
+export function endpointLabel(endpoint: CustomEndpoint): string {
+  if (endpoint.name.trim()) return endpoint.name.trim();
+  try { return new URL(endpoint.baseUrl).host; } catch { return 'Custom endpoint'; }
+}
+
+/** Parses "Header: value" lines; lines without a colon are ignored */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join('\n');
+}
+
+function patchEndpoint(config: AppConfig, id: string, patch: Partial<CustomEndpoint>): Partial<AppConfig> {
+  return { customEndpoints: config.customEndpoints.map(e => e.id === id ? { ...e, ...patch } : e) };
+}
+
+function toProvider(endpoint: CustomEndpoint): ProviderDefinition {
+  const id = endpointProviderId(endpoint);
+  return {
+    id,
+    label: endpointLabel(endpoint),
+    icon: 'server',
+    userDefined: true,
+    style: {
+      dot: 'bg-sky-400',
+      text: 'text-sky-400',
+      pill: 'bg-sky-500/10 text-sky-400',
+      hint: 'border-sky-500/20 bg-sky-500/5 text-sky-400',
+    },
+    capabilities: { vision: true, imageOutput: false, tools: true },
+    models: {
+      defaults: [],
+      placeholder: 'model-id',
+      get: () => endpoint.models.map(m => namespacedModelId(id, m)),
+      set: (models, config) => patchEndpoint(config, endpoint.id, { models: models.map(m => splitModelId(m).model) }),
+    },
+    contextWindow: () => 8192,
+    isConfigured: () => !!endpoint.baseUrl.trim(),
+    stream: async req => {
+      const current = req.config.customEndpoints.find(e => e.id === endpoint.id) || endpoint;
+      if (!current.baseUrl.trim()) {
+        throw new Error(`No base URL for ${endpointLabel(current)}. Go to Settings → API.`);
+      }
+      return streamOpenAICompatible({
+        label: endpointLabel(current),
+        baseUrl: normalizeBaseUrl(current.baseUrl),
+        apiKey: current.apiKey || undefined,
+        headers: current.headers,
+      }, req.messages, splitModelId(req.model).model, req.systemPrompt, req.onChunk, req.addLog, req.signal, req.params, req.tools);
+    },
+  };
+}
+
+export function customEndpointProviders(config: AppConfig): ProviderDefinition[] {
+  return config.customEndpoints.map(toProvider);
+}
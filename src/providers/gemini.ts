@@ -0,0 +1,194 @@
+// =============================================================================
+// Gemini Streaming (with key rotation)
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, TokenUsage, ToolCallRequest, ToolDeclaration } from '../api';
+import type { ProviderDefinition } from './registry';
+import { fromGeminiUsage, isImageCapableModel, isRetryableError, toGeminiContents, toGeminiParams, toGeminiTools } from './shared';
+import { readSSE } from './streaming';
+
+export const DEFAULT_GOOGLE_MODELS = [
+  'gemini-2.0-flash',
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+];
+
+export async function callGeminiStreaming(
+  messages: ChatMessage[],
+  model: string,
+  keys: string[],
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  onResetContent: () => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {},
+  tools: ToolDeclaration[] = []
+): Promise<GenerationResult> {
+  if (keys.length === 0) {
+    throw new Error('No Google API keys configured. Go to Settings → API Keys.');
+  }
+
+  const shuffledKeys = [...keys].sort(() => Math.random() - 0.5);
+  const errors: string[] = [];
+
+  addLog({ timestamp: Date.now(), level: 'info', message: `→ Gemini [${model}] — ${shuffledKeys.length} key(s)` });
+
+  for (let i = 0; i < shuffledKeys.length; i++) {
+    const key = shuffledKeys[i];
+    const keyHint = key.slice(-6);
+
+    if (signal?.aborted) throw new Error('Request aborted');
+
+    try {
+      // Image models reject function declarations
+      const withTools = tools.length > 0 && !isImageCapableModel(model);
+      const contents = toGeminiContents(messages, withTools);
+      const body: Record<string, unknown> = {
+        contents,
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        generationConfig: { temperature: 1.0, maxOutputTokens: 65536, ...toGeminiParams(params) },
+      };
+
+      if (isImageCapableModel(model)) {
+        (body.generationConfig as Record<string, unknown>).responseModalities = ['TEXT', 'IMAGE'];
+      }
+      if (withTools) body.tools = toGeminiTools(tools);
+
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${key}&alt=sse`;
+      addLog({ timestamp: Date.now(), level: 'info', message: `Key ...${keyHint} (${i + 1}/${shuffledKeys.length})` });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+      }
+
+      onResetContent();
+
+      let fullText = '';
+      const images: string[] = [];
+      const toolCalls: ToolCallRequest[] = [];
+      let usage: TokenUsage | undefined;
+      let gotContent = false;
+
+      for await (const event of readSSE(response.body!)) {
+        const jsonStr = event.data.trim();
+        if (!jsonStr || jsonStr === '[DONE]') continue;
+
+        try {
+          const data = JSON.parse(jsonStr);
+
+          if (data.error) {
+            const errMsg = data.error.message || JSON.stringify(data.error);
+            throw new Error(`Stream error ${data.error.code || ''}: ${errMsg.slice(0, 200)}`);
+          }
+
+          if (data.usageMetadata) usage = fromGeminiUsage(data.usageMetadata);
+
+          const candidates = data.candidates || [];
+          if (candidates.length === 0) {
+            if (data.promptFeedback?.blockReason) {
+              throw new Error(`Prompt blocked: ${data.promptFeedback.blockReason}`);
+            }
+            continue;
+          }
+
+          const parts = candidates[0]?.content?.parts || [];
+          for (const part of parts) {
+            if (part.text) {
+              fullText += part.text;
+              onChunk(part.text);
+              gotContent = true;
+            }
+            if (part.inlineData) {
+              images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+              gotContent = true;
+            }
+            if (part.functionCall) {
+              toolCalls.push({
+                id: part.functionCall.id || `call_${Date.now().toString(36)}_${toolCalls.length}`,
+                name: part.functionCall.name,
+                args: part.functionCall.args || {},
+                signature: part.thoughtSignature,
+              });
+              gotContent = true;
+            }
+          }
+        } catch (parseErr) {
+          if (parseErr instanceof Error && (
+            parseErr.message.startsWith('Stream error') ||
+            parseErr.message.startsWith('Prompt blocked')
+          )) {
+            if (gotContent) {
+              addLog({ timestamp: Date.now(), level: 'warn', message: 'Stream interrupted with partial content' });
+              return { text: fullText, images, usage, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+            }
+            throw parseErr;
+          }
+        }
+      }
+
+      if (!gotContent && !fullText && images.length === 0) {
+        throw new Error('Empty response from model');
+      }
+
+      addLog({ timestamp: Date.now(), level: 'info', message: `← OK via ...${keyHint} (${fullText.length} chars${images.length ? `, ${images.length} imgs` : ''}${toolCalls.length ? `, ${toolCalls.length} tool calls` : ''})` });
+      return { text: fullText, images, usage, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+
+    } catch (e) {
+      const errMsg = e instanceof Error ? e.message : String(e);
+      if (errMsg.includes('abort')) throw e;
+
+      errors.push(`...${keyHint}: ${errMsg.slice(0, 100)}`);
+      addLog({ timestamp: Date.now(), level: 'warn', message: `Key ...${keyHint} failed: ${errMsg.slice(0, 80)}` });
+
+      if (!isRetryableError(errMsg)) throw new Error(errMsg);
+      continue;
+    }
+  }
+
+  addLog({ timestamp: Date.now(), level: 'error', message: `All ${shuffledKeys.length} keys exhausted for ${model}` });
+  throw new Error(`All ${shuffledKeys.length} keys failed for ${model}.`);
+}
+
+export const googleProvider: ProviderDefinition = {
+  id: 'google',
+  label: 'Google Gemini',
+  icon: 'google',
+  style: {
+    dot: 'bg-blue-400',
+    text: 'text-blue-400',
+    pill: 'bg-[var(--c-accent-bg)] text-[var(--c-accent-t)]',
+    hint: 'border-amber-500/20 bg-amber-500/5 text-amber-400',
+  },
+  capabilities: { vision: true, imageOutput: true, tools: true },
+  models: {
+    defaults: DEFAULT_GOOGLE_MODELS,
+    placeholder: 'gemini-...',
+    get: c => c.googleModels,
+    set: googleModels => ({ googleModels }),
+  },
+  keys: {
+    kind: 'list',
+    placeholder: 'AIzaSy...',
+    helpUrl: 'https://aistudio.google.com/apikey',
+    helpLabel: 'aistudio.google.com',
+    get: c => c.googleKeys,
+    set: googleKeys => ({ googleKeys }),
+  },
+  contextWindow: model => model.includes('image') ? 32_768 : 1_048_576,
+  matchesModel: model => model.startsWith('gemini'),
+  stream: req => callGeminiStreaming(
+    req.messages, req.model, req.config.googleKeys, req.systemPrompt,
+    req.onChunk, req.onResetContent, req.addLog, req.signal, req.params, req.tools
+  ),
+};
@@ -0,0 +1,29 @@
+// =============================================================================
+// Provider registration — built-ins in display order, then user-defined endpoints
+// =============================================================================
+
+import { anthropicProvider } from './anthropic';
+import { customEndpointProviders } from './customEndpoints';
+import { googleProvider } from './gemini';
+import { ollamaProvider } from './ollama';
+import { openrouterProvider } from './openrouter';
+import { registerProvider, registerProviderSource } from './registry';
+import { sambanovaProvider } from './sambanova';
+
+registerProvider(googleProvider);
+registerProvider(anthropicProvider);
+registerProvider(sambanovaProvider);
+registerProvider(ollamaProvider);
+registerProvider(openrouterProvider, { fallback: true });
+registerProviderSource(customEndpointProviders);
+
+export * from './registry';
+export { callAnthropicStreaming, DEFAULT_ANTHROPIC_MODELS } from './anthropic';
+export { endpointLabel, endpointProviderId, formatHeaderLines, parseHeaderLines } from './customEndpoints';
+export { callGeminiStreaming, DEFAULT_GOOGLE_MODELS } from './gemini';
+export { callOllamaStreaming, DEFAULT_OLLAMA_URL, listOllamaModels } from './ollama';
+export { normalizeBaseUrl, streamOpenAICompatible } from './openaiCompatible';
+export { callOpenRouter, DEFAULT_OPENROUTER_MODELS } from './openrouter';
+export { callSambaNovaStreaming, DEFAULT_SAMBA_MODELS } from './sambanova';
+export { fromGeminiUsage, fromOpenAIUsage, isImageCapableModel, isRetryableError, shortModelId, toGeminiContents } from './shared';
+export { createLineSplitter, createSSEParser, readNDJSON, readSSE, type SSEEvent } from './streaming';
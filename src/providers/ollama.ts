@@ -0,0 +1,122 @@
+// =============================================================================
+// Ollama Native Streaming — /api/chat (NDJSON) + /api/tags model discovery
+// =============================================================================
+// Runs against a local server, so no API key is involved. The browser origin
+// must be allowed via OLLAMA_ORIGINS for the requests to pass CORS.
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, TokenUsage } from '../api';
+import { namespacedModelId, splitModelId, type ProviderDefinition } from './registry';
+import { toOllamaMessages, toOllamaOptions } from './shared';
+import { readNDJSON } from './streaming';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+/** One line of a /api/chat stream */
+interface OllamaChunk {
+  error?: unknown;
+  message?: { content?: string };
+  done?: boolean;
+  eval_count?: number;
+  prompt_eval_count?: number;
+}
+
+function ollamaUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.trim().replace(/\/+$/, '')}${path}`;
+}
+
+export async function listOllamaModels(baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+  if (!baseUrl.trim()) throw new Error('No Ollama URL configured. Go to Settings → API.');
+
+  const response = await fetch(ollamaUrl(baseUrl, '/api/tags'), { signal });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Ollama ${response.status}: ${errorText.slice(0, 200)}`);
+  }
+
+  const data = await response.json();
+  const models: { name?: string; model?: string }[] = Array.isArray(data.models) ? data.models : [];
+  return models.map(m => m.name || m.model || '').filter(Boolean).sort();
+}
+
+export async function callOllamaStreaming(
+  messages: ChatMessage[],
+  model: string,
+  baseUrl: string,
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {}
+): Promise<GenerationResult> {
+  if (!baseUrl.trim()) {
+    throw new Error('No Ollama URL configured. Go to Settings → API.');
+  }
+
+  addLog({ timestamp: Date.now(), level: 'info', message: `→ Ollama [${model}]` });
+
+  const response = await fetch(ollamaUrl(baseUrl, '/api/chat'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, messages: toOllamaMessages(messages, systemPrompt), options: toOllamaOptions(params), stream: true }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Ollama ${response.status}: ${errorText.slice(0, 200)}`);
+  }
+
+  let fullText = '';
+  let usage: TokenUsage | undefined;
+
+  // One JSON object per line; the last one has `done: true`
+  for await (const value of readNDJSON(response.body!)) {
+    if (!value || typeof value !== 'object') continue;
+    const data = value as OllamaChunk;
+    if (data.error) throw new Error(`Ollama error: ${String(data.error).slice(0, 200)}`);
+    const chunk = data.message?.content;
+    if (chunk) { fullText += chunk; onChunk(chunk); }
+    if (data.done) {
+      if (data.eval_count !== undefined) usage = { promptTokens: data.prompt_eval_count || 0, completionTokens: data.eval_count };
+      break;
+    }
+  }
+
+  addLog({ timestamp: Date.now(), level: 'info', message: `← Ollama OK (${fullText.length} chars)` });
+  return { text: fullText, images: [], usage };
+}
+
+export const ollamaProvider: ProviderDefinition = {
+  id: 'ollama',
+  label: 'Ollama',
+  icon: 'server',
+  style: {
+    dot: 'bg-teal-400',
+    text: 'text-teal-400',
+    pill: 'bg-teal-500/10 text-teal-400',
+    hint: 'border-teal-500/20 bg-teal-500/5 text-teal-400',
+    badge: { label: 'LOCAL', className: 'bg-teal-500/20 text-teal-400' },
+  },
+  capabilities: { vision: true, imageOutput: false, tools: false },
+  models: {
+    defaults: [],
+    placeholder: 'llama3.2',
+    get: c => c.ollamaModels.map(m => namespacedModelId('ollama', m)),
+    set: models => ({ ollamaModels: models.map(m => splitModelId(m).model) }),
+    discover: (c, signal) => listOllamaModels(c.ollamaBaseUrl, signal),
+  },
+  connection: {
+    placeholder: DEFAULT_OLLAMA_URL,
+    hint: 'Start Ollama with OLLAMA_ORIGINS set to this site so the browser may call it.',
+    get: c => c.ollamaBaseUrl,
+    set: ollamaBaseUrl => ({ ollamaBaseUrl }),
+  },
+  // Ollama's default num_ctx; longer prompts are silently cut server-side
+  contextWindow: () => 4096,
+  isConfigured: c => !!c.ollamaBaseUrl.trim(),
+  stream: req => callOllamaStreaming(
+    req.messages, splitModelId(req.model).model, req.config.ollamaBaseUrl, req.systemPrompt,
+    req.onChunk, req.addLog, req.signal, req.params
+  ),
+};
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { streamOpenAICompatible } from './openaiCompatible';
+
+/** Stubs fetch with a 200 response streaming one SSE event per chunk */
+function serve(chunks: unknown[]) {
+  const body = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200 })));
+}
+
+const toolDelta = (tc: Record<string, unknown>) => ({ choices: [{ delta: { tool_calls: [tc] } }] });
+
+function run() {
+  return streamOpenAICompatible({ label: 'Test', baseUrl: 'http://localhost/v1' }, [], 'm', '', () => {}, () => {});
+}
+
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe('streamOpenAICompatible tool calls', () => {
+  it('assembles a call from deltas without an index', async () => {
+    serve([
+      toolDelta({ id: 'call_a', function: { name: 'calculator', arguments: '{"expr' } }),
+      toolDelta({ function: { arguments: 'ession":"1+1"}' } }),
+    ]);
+    const result = await run();
+    expect(result.toolCalls).toEqual([{ id: 'call_a', name: 'calculator', args: { expression: '1+1' } }]);
+  });
+
+  it('starts a new call when an index-less delta brings a new id', async () => {
+    serve([
+      toolDelta({ id: 'call_a', function: { name: 'calculator', arguments: '{"expression":"2"}' } }),
+      toolDelta({ id: 'call_b', function: { name: 'date_calc', arguments: '{"operation":"info","date":"today"}' } }),
+    ]);
+    const result = await run();
+    expect(result.toolCalls?.map(c => [c.id, c.name])).toEqual([['call_a', 'calculator'], ['call_b', 'date_calc']]);
+  });
+
+  it('keeps collected calls when the stream fails before any text', async () => {
+    serve([
+      toolDelta({ index: 0, id: 'call_a', function: { name: 'calculator', arguments: '{"expression":"2"}' } }),
+      { error: { message: 'upstream timeout', code: 504 } },
+    ]);
+    const result = await run();
+    expect(result.toolCalls).toEqual([{ id: 'call_a', name: 'calculator', args: { expression: '2' } }]);
+  });
+
+  it('throws when the stream fails before anything arrived', async () => {
+    serve([{ error: { message: 'upstream timeout', code: 504 } }]);
+    await expect(run()).rejects.toThrow('Stream error 504: upstream timeout');
+  });
+
+  it('keys interleaved deltas by index', async () => {
+    serve([
+      toolDelta({ index: 0, id: 'call_a', function: { name: 'calculator', arguments: '' } }),
+      toolDelta({ index: 1, id: 'call_b', function: { name: 'calculator', arguments: '{"expression":"3"}' } }),
+      toolDelta({ index: 0, function: { arguments: '{"expression":"2"}' } }),
+    ]);
+    const result = await run();
+    expect(result.toolCalls?.map(c => c.args)).toEqual([{ expression: '2' }, { expression: '3' }]);
+  });
+});
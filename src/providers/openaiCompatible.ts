@@ -0,0 +1,121 @@
+// =============================================================================
+// OpenAI-compatible Streaming — any `/chat/completions` endpoint
+// (OpenRouter, SambaNova, llama.cpp server, vLLM, Ollama's OpenAI shim, ...)
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, TokenUsage, ToolCallRequest, ToolDeclaration } from '../api';
+import { fromOpenAIUsage, parseToolArgs, shortModelId, toOpenAIMessages, toOpenAIParams, toOpenAITools } from './shared';
+import { readSSE } from './streaming';
+
+export interface OpenAICompatibleTarget {
+  /** Name used in logs and error messages */
+  label: string;
+  /** Base URL without the trailing `/chat/completions` */
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/** The parts of a streamed `/chat/completions` chunk this reader uses */
+interface OpenAIChunk {
+  error?: { message?: string; code?: string | number };
+  usage?: Parameters<typeof fromOpenAIUsage>[0];
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+}
+
+export async function streamOpenAICompatible(
+  target: OpenAICompatibleTarget,
+  messages: ChatMessage[],
+  model: string,
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {},
+  tools: ToolDeclaration[] = []
+): Promise<GenerationResult> {
+  addLog({ timestamp: Date.now(), level: 'info', message: `→ ${target.label} [${shortModelId(model)}]` });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...target.headers };
+  if (target.apiKey) headers['Authorization'] = `Bearer ${target.apiKey}`;
+
+  const response = await fetch(`${normalizeBaseUrl(target.baseUrl)}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: toOpenAIMessages(messages, systemPrompt, tools.length > 0),
+      ...toOpenAIParams(params),
+      ...(tools.length > 0 ? { tools: toOpenAITools(tools), tool_choice: 'auto' } : {}),
+      stream: true,
+      // Asks for a final chunk carrying `usage`; servers that don't know it ignore it
+      stream_options: { include_usage: true },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${target.label} ${response.status}: ${errorText.slice(0, 200)}`);
+  }
+
+  let fullText = '';
+  let usage: TokenUsage | undefined;
+  // Tool calls stream in pieces keyed by `index`; arguments are JSON text split across chunks
+  const calls: { id: string; name: string; args: string }[] = [];
+
+  for await (const event of readSSE(response.body!)) {
+    const jsonStr = event.data.trim();
+    if (!jsonStr) continue;
+    if (jsonStr === '[DONE]') break;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonStr);
+    } catch {
+      addLog({ timestamp: Date.now(), level: 'warn', message: `${target.label}: unparseable chunk ${jsonStr.slice(0, 60)}` });
+      continue;
+    }
+    if (!parsed || typeof parsed !== 'object') continue;
+    const data = parsed as OpenAIChunk;
+
+    // Upstream failures arrive as `{ error: {...} }` after a 200 response
+    if (data.error) {
+      const errMsg = data.error.message || JSON.stringify(data.error);
+      // Keep what already arrived, tool calls included, and end the reply there
+      if (fullText || calls.length > 0) {
+        addLog({ timestamp: Date.now(), level: 'warn', message: `Stream interrupted with partial content: ${errMsg.slice(0, 80)}` });
+        break;
+      }
+      throw new Error(`Stream error ${data.error.code || ''}: ${errMsg.slice(0, 200)}`);
+    }
+
+    if (data.usage) usage = fromOpenAIUsage(data.usage);
+
+    const delta = data.choices?.[0]?.delta;
+    const chunk = delta?.content;
+    if (chunk) { fullText += chunk; onChunk(chunk); }
+    for (const tc of delta?.tool_calls || []) {
+      // Some servers omit `index`; such a delta continues the last call unless it brings a new id
+      const last = calls[calls.length - 1];
+      const index = tc.index ?? (tc.id && last?.id && tc.id !== last.id ? calls.length : Math.max(0, calls.length - 1));
+      const call = calls[index] ??= { id: '', name: '', args: '' };
+      if (tc.id) call.id = tc.id;
+      if (tc.function?.name) call.name += tc.function.name;
+      if (tc.function?.arguments) call.args += tc.function.arguments;
+    }
+  }
+
+  const toolCalls: ToolCallRequest[] = calls.filter(c => c?.name).map((c, i) => ({ id: c.id || `call_${i}`, name: c.name, args: parseToolArgs(c.args) }));
+  addLog({ timestamp: Date.now(), level: 'info', message: `← ${target.label} OK (${fullText.length} chars${toolCalls.length ? `, ${toolCalls.length} tool calls` : ''})` });
+  return { text: fullText, images: [], usage, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+}
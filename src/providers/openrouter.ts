@@ -0,0 +1,71 @@
+// =============================================================================
+// OpenRouter Streaming
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, ToolDeclaration } from '../api';
+import type { ProviderDefinition } from './registry';
+import { streamOpenAICompatible } from './openaiCompatible';
+
+export const DEFAULT_OPENROUTER_MODELS = [
+  'deepseek/deepseek-r1-0528:free',
+  'tngtech/deepseek-r1t2-chimera:free',
+];
+
+export async function callOpenRouter(
+  messages: ChatMessage[],
+  model: string,
+  apiKey: string,
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {},
+  tools: ToolDeclaration[] = []
+): Promise<GenerationResult> {
+  if (!apiKey) {
+    throw new Error('No OpenRouter API key. Go to Settings → API Keys.');
+  }
+
+  return streamOpenAICompatible({
+    label: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey,
+    headers: {
+      'HTTP-Referer': window.location.origin,
+      'X-Title': 'DophyAI',
+    },
+  }, messages, model, systemPrompt, onChunk, addLog, signal, params, tools);
+}
+
+export const openrouterProvider: ProviderDefinition = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  icon: 'openrouter',
+  style: {
+    dot: 'bg-emerald-400',
+    text: 'text-emerald-400',
+    pill: 'bg-emerald-500/10 text-emerald-400',
+    hint: 'border-emerald-500/20 bg-emerald-500/5 text-emerald-400',
+    badge: { label: 'FREE', className: 'bg-emerald-500/20 text-emerald-400' },
+  },
+  capabilities: { vision: true, imageOutput: false, tools: true },
+  models: {
+    defaults: DEFAULT_OPENROUTER_MODELS,
+    placeholder: 'provider/model:free',
+    get: c => c.openrouterModels,
+    set: openrouterModels => ({ openrouterModels }),
+  },
+  keys: {
+    kind: 'single',
+    placeholder: 'sk-or-...',
+    helpUrl: 'https://openrouter.ai/keys',
+    helpLabel: 'openrouter.ai/keys',
+    get: c => c.openrouterKey ? [c.openrouterKey] : [],
+    set: keys => ({ openrouterKey: keys[0] || '' }),
+  },
+  contextWindow: () => 65_536,
+  stream: req => callOpenRouter(
+    req.messages, req.model, req.config.openrouterKey, req.systemPrompt,
+    req.onChunk, req.addLog, req.signal, req.params, req.tools
+  ),
+};
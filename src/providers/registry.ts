@@ -0,0 +1,167 @@
+// =============================================================================
+// Provider Registry — every backend declares itself here instead of being
+// special-cased in generateResponse / handleSend / Settings
+// =============================================================================
+
+import type { AppConfig, ChatMessage, GenerationParams, GenerationResult, LogEntry, ToolDeclaration } from '../api';
+
+export interface ProviderRequest {
+  messages: ChatMessage[];
+  model: string;
+  config: AppConfig;
+  systemPrompt: string;
+  params: GenerationParams;
+  onChunk: (text: string) => void;
+  onResetContent: () => void;
+  addLog: (entry: LogEntry) => void;
+  signal?: AbortSignal;
+  /** Offered to the model; only read by providers with `capabilities.tools` */
+  tools?: ToolDeclaration[];
+}
+
+/**
+ * How a provider stores its credentials in AppConfig.
+ * 'list' — several keys rotated per request (Google), 'single' — one key field.
+ */
+export interface ProviderKeySpec {
+  kind: 'list' | 'single';
+  placeholder: string;
+  helpUrl?: string;
+  helpLabel?: string;
+  get: (config: AppConfig) => string[];
+  set: (keys: string[], config: AppConfig) => Partial<AppConfig>;
+}
+
+export interface ProviderModelSpec {
+  defaults: string[];
+  placeholder: string;
+  get: (config: AppConfig) => string[];
+  set: (models: string[], config: AppConfig) => Partial<AppConfig>;
+  /** Lists the models the backend actually has (e.g. Ollama's /api/tags) */
+  discover?: (config: AppConfig, signal?: AbortSignal) => Promise<string[]>;
+}
+
+/** Server address for self-hosted backends, edited next to the API keys */
+export interface ProviderConnectionSpec {
+  placeholder: string;
+  hint?: string;
+  get: (config: AppConfig) => string;
+  set: (value: string, config: AppConfig) => Partial<AppConfig>;
+}
+
+export interface ProviderCapabilities {
+  /** Accepts user-attached images (ChatMessage.images) */
+  vision: boolean;
+  /** Can return generated images (responseImages) for image-capable models */
+  imageOutput: boolean;
+  /** Accepts tool declarations and returns tool calls */
+  tools: boolean;
+}
+
+/** Tailwind classes used by the sidebar, header and Settings tabs */
+export interface ProviderStyle {
+  dot: string;
+  text: string;
+  pill: string;
+  hint: string;
+  badge?: { label: string; className: string };
+}
+
+export interface ProviderDefinition {
+  id: string;
+  label: string;
+  /** Icon key resolved by the UI; unknown keys get a generic chip icon */
+  icon?: string;
+  style: ProviderStyle;
+  capabilities: ProviderCapabilities;
+  models: ProviderModelSpec;
+  /** Omitted for providers that work without credentials */
+  keys?: ProviderKeySpec;
+  connection?: ProviderConnectionSpec;
+  /** Tokens a model accepts, prompt and output together */
+  contextWindow?: (model: string) => number;
+  /** Name-based routing for models that are not in any configured list */
+  matchesModel?: (model: string) => boolean;
+  /** Overrides the default "has at least one key" check */
+  isConfigured?: (config: AppConfig) => boolean;
+  /** Created from user config (custom endpoints) rather than built in */
+  userDefined?: boolean;
+  stream: (req: ProviderRequest) => Promise<GenerationResult>;
+}
+
+/** Produces providers from user config, e.g. one per custom endpoint */
+export type ProviderSource = (config: AppConfig) => ProviderDefinition[];
+
+const providers = new Map<string, ProviderDefinition>();
+const sources: ProviderSource[] = [];
+let fallbackProviderId: string | null = null;
+
+export function registerProvider(def: ProviderDefinition, options?: { fallback?: boolean }): void {
+  providers.set(def.id, def);
+  if (options?.fallback) fallbackProviderId = def.id;
+}
+
+export function registerProviderSource(source: ProviderSource): void {
+  sources.push(source);
+}
+
+/** Built-in providers, plus user-defined ones when a config is given */
+export function listProviders(config?: AppConfig): ProviderDefinition[] {
+  const builtIn = Array.from(providers.values());
+  if (!config) return builtIn;
+  return [...builtIn, ...sources.flatMap(source => source(config))];
+}
+
+export function getProvider(id: string, config?: AppConfig): ProviderDefinition | undefined {
+  return providers.get(id) || listProviders(config).find(p => p.id === id);
+}
+
+// =============================================================================
+// Namespaced model ids — `<providerId>::<model>` pins a model to one provider,
+// so two endpoints can both serve e.g. `llama3` without colliding
+// =============================================================================
+
+const NAMESPACE_SEPARATOR = '::';
+
+export function namespacedModelId(providerId: string, model: string): string {
+  return `${providerId}${NAMESPACE_SEPARATOR}${model}`;
+}
+
+export function splitModelId(model: string): { providerId: string | null; model: string } {
+  const idx = model.indexOf(NAMESPACE_SEPARATOR);
+  if (idx === -1) return { providerId: null, model };
+  return { providerId: model.slice(0, idx), model: model.slice(idx + NAMESPACE_SEPARATOR.length) };
+}
+
+/**
+ * Finds the backend for a concrete model id. Namespaced ids go straight to
+ * their provider, explicitly configured model lists win over name patterns,
+ * and unknown ids go to the fallback provider.
+ */
+export function resolveProvider(model: string, config?: AppConfig): ProviderDefinition {
+  const all = listProviders(config);
+
+  const { providerId } = splitModelId(model);
+  if (providerId) {
+    const pinned = all.find(p => p.id === providerId);
+    if (pinned) return pinned;
+  }
+
+  if (config) {
+    const listed = all.find(p => p.models.get(config).includes(model));
+    if (listed) return listed;
+  }
+
+  const matched = all.find(p => p.matchesModel?.(model));
+  if (matched) return matched;
+
+  const fallback = fallbackProviderId ? providers.get(fallbackProviderId) : all[all.length - 1];
+  if (!fallback) throw new Error(`No provider registered for model: ${model}`);
+  return fallback;
+}
+
+export function isProviderConfigured(provider: ProviderDefinition, config: AppConfig): boolean {
+  if (provider.isConfigured) return provider.isConfigured(config);
+  if (!provider.keys) return true;
+  return provider.keys.get(config).length > 0;
+}
@@ -0,0 +1,73 @@
+// =============================================================================
+// SambaNova Streaming (OpenAI-compatible API)
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, GenerationResult, LogEntry, ToolDeclaration } from '../api';
+import type { ProviderDefinition } from './registry';
+import { streamOpenAICompatible } from './openaiCompatible';
+
+export const DEFAULT_SAMBA_MODELS = [
+  'DeepSeek-R1-0528',
+  'DeepSeek-V3-0324',
+  'DeepSeek-V3.1',
+  'gpt-oss-120b',
+];
+
+const SAMBA_BASE_URL = 'https://api.sambanova.ai/v1';
+
+export async function callSambaNovaStreaming(
+  messages: ChatMessage[],
+  model: string,
+  apiKey: string,
+  systemPrompt: string,
+  onChunk: (text: string) => void,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal,
+  params: GenerationParams = {},
+  tools: ToolDeclaration[] = []
+): Promise<GenerationResult> {
+  if (!apiKey) {
+    throw new Error('No SambaNova API key. Go to Settings → API Keys.');
+  }
+
+  return streamOpenAICompatible({
+    label: 'SambaNova',
+    baseUrl: SAMBA_BASE_URL,
+    apiKey,
+  }, messages, model, systemPrompt, onChunk, addLog, signal, params, tools);
+}
+
+export const sambanovaProvider: ProviderDefinition = {
+  id: 'sambanova',
+  label: 'SambaNova',
+  icon: 'sambanova',
+  style: {
+    dot: 'bg-orange-400',
+    text: 'text-orange-400',
+    pill: 'bg-orange-500/10 text-orange-400',
+    hint: 'border-orange-500/20 bg-orange-500/5 text-orange-400',
+    badge: { label: 'FAST', className: 'bg-orange-500/20 text-orange-400' },
+  },
+  capabilities: { vision: true, imageOutput: false, tools: true },
+  models: {
+    defaults: DEFAULT_SAMBA_MODELS,
+    placeholder: 'Model-Name',
+    get: c => c.sambaModels,
+    set: sambaModels => ({ sambaModels }),
+  },
+  keys: {
+    kind: 'single',
+    placeholder: 'api key...',
+    helpUrl: 'https://cloud.sambanova.ai/apis',
+    helpLabel: 'cloud.sambanova.ai',
+    get: c => c.sambaKey ? [c.sambaKey] : [],
+    set: keys => ({ sambaKey: keys[0] || '' }),
+  },
+  // SambaNova serves DeepSeek with a shorter window than upstream
+  contextWindow: model => model.startsWith('gpt-oss') ? 131_072 : 32_768,
+  matchesModel: model => /^(DeepSeek-|gpt-oss-)/.test(model),
+  stream: req => callSambaNovaStreaming(
+    req.messages, req.model, req.config.sambaKey, req.systemPrompt,
+    req.onChunk, req.addLog, req.signal, req.params, req.tools
+  ),
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../api';
+import { toAnthropicMessages } from './shared';
+
+const msg = (role: ChatMessage['role'], content: string, images?: string[]): ChatMessage => ({ id: content, role, content, timestamp: 0, images });
+
+describe('toAnthropicMessages', () => {
+  it('merges adjacent turns with the same role into one', () => {
+    const turns = toAnthropicMessages([
+      msg('user', 'first try'),
+      msg('user', 'second try', ['data:image/png;base64,AAAA']),
+      msg('assistant', 'reply'),
+      msg('assistant', ''),
+      msg('user', 'next'),
+    ]);
+    expect(turns).toEqual([
+      { role: 'user', content: [
+        { type: 'text', text: 'first try' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+        { type: 'text', text: 'second try' },
+      ] },
+      { role: 'assistant', content: [{ type: 'text', text: 'reply' }, { type: 'text', text: '...' }] },
+      { role: 'user', content: [{ type: 'text', text: 'next' }] },
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+// =============================================================================
+// Shared helpers for provider implementations
+// =============================================================================
+
+import type { ChatMessage, GenerationParams, TokenUsage, ToolDeclaration, ToolInvocation } from '../api';
+import { splitModelId } from './registry';
+
+/** Finished calls of a reply grouped per model round, oldest first */
+function toolRounds(calls: ToolInvocation[] | undefined): ToolInvocation[][] {
+  const done = (calls || []).filter(c => c.result !== undefined);
+  return [...new Set(done.map(c => c.step))].map(step => done.filter(c => c.step === step));
+}
+
+/**
+ * With `withTools`, a reply that called tools expands into call / response
+ * turns before its text; without, only the text is sent.
+ */
+export function toGeminiContents(messages: ChatMessage[], withTools = false) {
+  return messages.flatMap(msg => {
+    const rounds = withTools && msg.role === 'assistant' ? toolRounds(msg.toolCalls) : [];
+    const turns = rounds.flatMap(round => [
+      { role: 'model', parts: round.map(c => ({ functionCall: { name: c.name, args: c.args }, ...(c.signature ? { thoughtSignature: c.signature } : {}) })) },
+      { role: 'user', parts: round.map(c => ({ functionResponse: { name: c.name, response: { result: c.result } } })) },
+    ]);
+    // Mid-loop the reply has no text yet; the model continues after the responses
+    if (turns.length > 0 && !msg.content) return turns;
+
+    const parts: Record<string, unknown>[] = [];
+    if (msg.images && msg.images.length > 0) {
+      for (const img of msg.images) {
+        const match = img.match(/^data:(image\/\w+);base64,(.+)$/);
+        if (match) {
+          parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
+        }
+      }
+    }
+    parts.push({ text: msg.content || ' ' });
+    return [...turns, { role: msg.role === 'assistant' ? 'model' : 'user', parts }];
+  });
+}
+
+export function toOpenAIMessages(messages: ChatMessage[], systemPrompt: string, withTools = false) {
+  const result: Record<string, unknown>[] = [
+    { role: 'system', content: systemPrompt }
+  ];
+  for (const msg of messages) {
+    if (withTools && msg.role === 'assistant') {
+      for (const round of toolRounds(msg.toolCalls)) {
+        result.push({
+          role: 'assistant',
+          content: null,
+          tool_calls: round.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.args) } })),
+        });
+        for (const c of round) result.push({ role: 'tool', tool_call_id: c.id, content: c.result });
+      }
+      if (msg.toolCalls?.length && !msg.content) continue;
+    }
+    if (msg.role === 'user' && msg.images && msg.images.length > 0) {
+      const content: { type: string; text?: string; image_url?: { url: string } }[] = [];
+      content.push({ type: 'text', text: msg.content || 'Describe this image' });
+      for (const img of msg.images) {
+        content.push({ type: 'image_url', image_url: { url: img } });
+      }
+      result.push({ role: 'user', content });
+    } else {
+      result.push({
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content: msg.content,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * The Messages API requires turns to alternate, so adjacent messages with the
+ * same role (a skipped error reply, a re-send after a failure) become one turn.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]) {
+  const turns: { role: 'user' | 'assistant'; content: Record<string, unknown>[] }[] = [];
+  for (const msg of messages) {
+    const content: Record<string, unknown>[] = [];
+    if (msg.images && msg.images.length > 0) {
+      for (const img of msg.images) {
+        const match = img.match(/^data:(image\/\w+);base64,(.+)$/);
+        if (match) {
+          content.push({ type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } });
+        }
+      }
+    }
+    // Anthropic rejects empty or whitespace-only text blocks
+    content.push({ type: 'text', text: msg.content.trim() ? msg.content : '...' });
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.content.push(...content);
+    else turns.push({ role, content });
+  }
+  return turns;
+}
+
+/** Ollama wants bare base64 in `images`, without the data: URL prefix */
+export function toOllamaMessages(messages: ChatMessage[], systemPrompt: string) {
+  const result: { role: string; content: string; images?: string[] }[] = [
+    { role: 'system', content: systemPrompt }
+  ];
+  for (const msg of messages) {
+    const images = (msg.images || [])
+      .map(img => img.match(/^data:image\/\w+;base64,(.+)$/)?.[1])
+      .filter((data): data is string => !!data);
+    result.push({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content,
+      ...(images.length > 0 ? { images } : {}),
+    });
+  }
+  return result;
+}
+
+// -----------------------------------------------------------------------------
+// Generation parameters — each API names and nests the same knobs differently
+// -----------------------------------------------------------------------------
+
+function definedOnly(fields: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(fields)) {
+    if (v === undefined || (Array.isArray(v) && v.length === 0)) continue;
+    out[k] = v;
+  }
+  return out;
+}
+
+/** Goes into `generationConfig` */
+export function toGeminiParams(p: GenerationParams) {
+  return definedOnly({
+    temperature: p.temperature,
+    topP: p.topP,
+    topK: p.topK,
+    maxOutputTokens: p.maxOutputTokens,
+    stopSequences: p.stopSequences,
+    seed: p.seed,
+    presencePenalty: p.presencePenalty,
+    frequencyPenalty: p.frequencyPenalty,
+  });
+}
+
+/** `top_k` is not in the OpenAI spec but OpenRouter, vLLM and llama.cpp accept it */
+export function toOpenAIParams(p: GenerationParams) {
+  return definedOnly({
+    temperature: p.temperature,
+    top_p: p.topP,
+    top_k: p.topK,
+    max_tokens: p.maxOutputTokens,
+    stop: p.stopSequences,
+    seed: p.seed,
+    presence_penalty: p.presencePenalty,
+    frequency_penalty: p.frequencyPenalty,
+  });
+}
+
+/** The Messages API has no seed or penalties */
+export function toAnthropicParams(p: GenerationParams) {
+  return definedOnly({
+    temperature: p.temperature,
+    top_p: p.topP,
+    top_k: p.topK,
+    max_tokens: p.maxOutputTokens,
+    stop_sequences: p.stopSequences,
+  });
+}
+
+/** Goes into Ollama's `options` */
+export function toOllamaOptions(p: GenerationParams) {
+  return definedOnly({
+    temperature: p.temperature,
+    top_p: p.topP,
+    top_k: p.topK,
+    num_predict: p.maxOutputTokens,
+    stop: p.stopSequences,
+    seed: p.seed,
+    presence_penalty: p.presencePenalty,
+    frequency_penalty: p.frequencyPenalty,
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Tool declarations
+// -----------------------------------------------------------------------------
+
+/** Goes into the request's `tools` */
+export function toGeminiTools(tools: ToolDeclaration[]) {
+  return [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parameters: t.parameters })) }];
+}
+
+export function toOpenAITools(tools: ToolDeclaration[]) {
+  return tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }));
+}
+
+/** Streamed tool-call arguments arrive as JSON text; anything unparseable becomes no arguments */
+export function parseToolArgs(json: string): Record<string, unknown> {
+  try {
+    const args = JSON.parse(json || '{}');
+    return args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Usage reports
+// -----------------------------------------------------------------------------
+
+/** Gemini `usageMetadata`; sent on every chunk, the last one is final */
+export function fromGeminiUsage(meta: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): TokenUsage {
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    completionTokens: meta.candidatesTokenCount || 0,
+    thinkingTokens: meta.thoughtsTokenCount || undefined,
+  };
+}
+
+/** OpenAI `usage`; reasoning tokens are already part of completion_tokens there */
+export function fromOpenAIUsage(u: { prompt_tokens?: number; completion_tokens?: number; completion_tokens_details?: { reasoning_tokens?: number } }): TokenUsage {
+  const thinking = u.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    promptTokens: u.prompt_tokens || 0,
+    completionTokens: (u.completion_tokens || 0) - thinking,
+    thinkingTokens: thinking || undefined,
+  };
+}
+
+/** 529 / overloaded_error and rate_limit_error come from Anthropic */
+export function isRetryableError(errorMsg: string): boolean {
+  return /429|500|503|529|overloaded|quota|rate.?limit|capacity|unavailable|keys? failed|exhausted/i.test(errorMsg);
+}
+
+export function isImageCapableModel(model: string): boolean {
+  return model.includes('image');
+}
+
+/** Strips the provider namespace, vendor prefix and ':free' suffix from a model id */
+export function shortModelId(model: string): string {
+  const bare = splitModelId(model).model;
+  if (bare.includes('/')) return bare.split('/').pop()?.replace(':free', '') || bare;
+  return bare;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEParser, readNDJSON, readSSE, type SSEEvent } from './streaming';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** A response body that delivers `bytes` in the given pieces */
+function bodyOf(bytes: Uint8Array, cuts: number[]): ReadableStream<Uint8Array> {
+  const bounds = [0, ...cuts, bytes.length];
+  const chunks = bounds.slice(1).map((end, i) => bytes.slice(bounds[i], end));
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(gen: AsyncGenerator<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of gen) out.push(item);
+  return out;
+}
+
+/** Every way to cut `bytes` into two pieces, plus one byte at a time */
+function splits(bytes: Uint8Array): number[][] {
+  const out: number[][] = [[]];
+  for (let i = 1; i < bytes.length; i++) out.push([i]);
+  out.push(Array.from({ length: bytes.length - 1 }, (_, i) => i + 1));
+  return out;
+}
+
+// Recorded from an OpenAI-compatible server, with the awkward parts added in
+const SSE_STREAM = [
+  ': keep-alive comment',
+  'event: message',
+  'id: 1',
+  'data: {"delta":"Привет"}',
+  '',
+  'data: first line',
+  'data: second line 🙂',
+  '',
+  'event: error',
+  'data:no space after colon',
+  '',
+  ':another comment',
+  'data: [DONE]',
+  '',
+  '',
+].join('\r\n');
+
+const SSE_EVENTS: SSEEvent[] = [
+  { event: 'message', data: '{"delta":"Привет"}', id: '1' },
+  { event: 'message', data: 'first line\nsecond line 🙂', id: '1' },
+  { event: 'error', data: 'no space after colon', id: '1' },
+  { event: 'message', data: '[DONE]', id: '1' },
+];
+
+describe('readSSE', () => {
+  it('parses the same events however the bytes are split', async () => {
+    const bytes = encode(SSE_STREAM);
+    for (const cuts of splits(bytes)) {
+      expect(await collect(readSSE(bodyOf(bytes, cuts))), `cuts at ${cuts.join(',')}`).toEqual(SSE_EVENTS);
+    }
+  });
+
+  it('accepts LF and lone CR line endings', async () => {
+    for (const eol of ['\n', '\r']) {
+      const bytes = encode(SSE_STREAM.split('\r\n').join(eol));
+      expect(await collect(readSSE(bodyOf(bytes, [7, 40])))).toEqual(SSE_EVENTS);
+    }
+  });
+
+  it('dispatches an event left open at the end of the stream', async () => {
+    expect(await collect(readSSE(bodyOf(encode('data: tail'), [3])))).toEqual([{ event: 'message', data: 'tail', id: undefined }]);
+  });
+});
+
+describe('createSSEParser', () => {
+  it('treats a CRLF split across pushes as one line break', () => {
+    const parser = createSSEParser();
+    expect(parser.push('data: a\r')).toEqual([]);
+    expect(parser.push('\n\r')).toEqual([{ event: 'message', data: 'a', id: undefined }]);
+    expect(parser.push('\ndata: b\r\n\r\n')).toEqual([{ event: 'message', data: 'b', id: undefined }]);
+  });
+
+  it('ignores comments and events without data', () => {
+    const parser = createSSEParser();
+    expect(parser.push(': ping\n\nevent: ping\n\nretry: 100\n\n')).toEqual([]);
+  });
+});
+
+const NDJSON_STREAM = [
+  '{"message":{"content":"Grüße"},"done":false}',
+  '',
+  '{"message":{"content":"日本語"},"done":false}',
+  '{"done":true,"eval_count":3}',
+].join('\r\n');
+
+describe('readNDJSON', () => {
+  it('yields one value per line however the bytes are split', async () => {
+    const bytes = encode(NDJSON_STREAM);
+    const expected = [
+      { message: { content: 'Grüße' }, done: false },
+      { message: { content: '日本語' }, done: false },
+      { done: true, eval_count: 3 },
+    ];
+    for (const cuts of splits(bytes)) {
+      expect(await collect(readNDJSON(bodyOf(bytes, cuts))), `cuts at ${cuts.join(',')}`).toEqual(expected);
+    }
+  });
+
+  it('throws on a malformed line', async () => {
+    await expect(collect(readNDJSON(bodyOf(encode('{"a":1}\n{oops\n'), [])))).rejects.toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,151 @@
+// =============================================================================
+// Stream Framing — Server-Sent Events and newline-delimited JSON readers
+// =============================================================================
+// SSE follows the WHATWG event-stream rules: CR, LF and CRLF line endings,
+// multi-line `data:` fields, `event:`/`id:` fields and `:` comments. Both
+// readers tolerate chunks split anywhere, including inside a CRLF pair or a
+// multi-byte UTF-8 character.
+// =============================================================================
+
+export interface SSEEvent {
+  /** `event:` field, 'message' when the server sent none */
+  event: string;
+  /** `data:` lines joined with '\n' */
+  data: string;
+  id?: string;
+}
+
+export interface LineSplitter {
+  /** Returns every line completed by `text` */
+  push(text: string): string[];
+  /** Returns the unterminated tail, if any */
+  flush(): string[];
+}
+
+export function createLineSplitter(): LineSplitter {
+  let buf = '';
+  // A chunk ending in '\r' may be the first half of a CRLF pair
+  let pendingCR = false;
+
+  return {
+    push(text) {
+      if (!text) return [];
+      if (pendingCR && text.startsWith('\n')) text = text.slice(1);
+      pendingCR = false;
+      buf += text;
+
+      const lines: string[] = [];
+      let start = 0;
+      for (let i = 0; i < buf.length; i++) {
+        const ch = buf[i];
+        if (ch !== '\n' && ch !== '\r') continue;
+        lines.push(buf.slice(start, i));
+        if (ch === '\r') {
+          if (i + 1 === buf.length) pendingCR = true;
+          else if (buf[i + 1] === '\n') i++;
+        }
+        start = i + 1;
+      }
+      buf = buf.slice(start);
+      return lines;
+    },
+    flush() {
+      const rest = buf;
+      buf = '';
+      pendingCR = false;
+      return rest ? [rest] : [];
+    },
+  };
+}
+
+export interface SSEParser {
+  push(text: string): SSEEvent[];
+  /** Dispatches an event left open when the stream ended without a blank line */
+  flush(): SSEEvent[];
+}
+
+export function createSSEParser(): SSEParser {
+  const lines = createLineSplitter();
+  let event = '';
+  let data: string[] = [];
+  // Per spec the last seen id carries over to later events
+  let lastId: string | undefined;
+
+  const dispatch = (out: SSEEvent[]) => {
+    if (data.length > 0) {
+      out.push({ event: event || 'message', data: data.join('\n'), id: lastId });
+    }
+    event = '';
+    data = [];
+  };
+
+  const processLine = (line: string, out: SSEEvent[]) => {
+    if (line === '') { dispatch(out); return; }
+    if (line.startsWith(':')) return;
+
+    const idx = line.indexOf(':');
+    const field = idx === -1 ? line : line.slice(0, idx);
+    let value = idx === -1 ? '' : line.slice(idx + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data': data.push(value); break;
+      case 'event': event = value; break;
+      case 'id': if (!value.includes('\0')) lastId = value; break;
+      // `retry` and unknown fields are ignored
+    }
+  };
+
+  return {
+    push(text) {
+      const out: SSEEvent[] = [];
+      for (const line of lines.push(text)) processLine(line, out);
+      return out;
+    },
+    flush() {
+      const out: SSEEvent[] = [];
+      for (const line of lines.flush()) processLine(line, out);
+      dispatch(out);
+      return out;
+    },
+  };
+}
+
+async function* readText(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    finished = true;
+    const tail = decoder.decode();
+    if (tail) yield tail;
+  } finally {
+    // Consumer stopped early (error payload, abort, ...) — drop the connection
+    if (!finished) reader.cancel().catch(() => {});
+  }
+}
+
+/** Yields SSE events from a fetch response body */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const parser = createSSEParser();
+  for await (const text of readText(body)) yield* parser.push(text);
+  yield* parser.flush();
+}
+
+/** Yields one parsed JSON value per non-blank line; callers narrow the values */
+export async function* readNDJSON(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const lines = createLineSplitter();
+  for await (const text of readText(body)) {
+    for (const line of lines.push(text)) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  for (const line of lines.flush()) {
+    if (line.trim()) yield JSON.parse(line);
+  }
+}
@@ -0,0 +1,156 @@
+// =============================================================================
+// JavaScript Sandbox — runs model-written code in a throwaway Web Worker
+// =============================================================================
+// Each run gets a fresh sandboxed iframe (opaque origin, scripts only) that
+// starts a worker and relays its result, so nothing survives between runs and
+// the page's DOM, storage and keys are out of reach. The iframe's CSP forbids
+// every fetch, script and module load; the worker inherits that policy, so
+// neither fetch() nor import() — static or built at run time — reaches the
+// network. The API shadowing below is a second layer on top. When the time
+// limit passes or the reply is stopped, the iframe is removed, which ends the
+// worker. Browsers offer no way to cap or even read a worker's heap from a
+// page, so there is no memory limit as such: the result is cut to
+// SANDBOX_OUTPUT_LIMIT here as well as in the worker, a runaway allocation
+// runs into the time limit, and a worker the browser kills for memory is
+// reported as out of memory.
+// =============================================================================
+
+export const SANDBOX_TIMEOUT_MS = 5000;
+/** Console output plus the result, in characters */
+export const SANDBOX_OUTPUT_LIMIT = 20_000;
+
+export interface SandboxResult {
+  logs: string[];
+  /** Completion value of the code (or what a top-level `return` gave in code using await), serialized */
+  value?: string;
+  error?: string;
+}
+
+const WORKER_SOURCE = `
+'use strict';
+const post = self.postMessage.bind(self);
+const LIMIT = ${SANDBOX_OUTPUT_LIMIT};
+// Shadow the APIs on the global and on every prototype it inherits from
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'EventSource', 'WebTransport', 'importScripts',
+  'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'navigator', 'postMessage', 'close']) {
+  for (let o = self; o; o = Object.getPrototypeOf(o)) {
+    if (Object.prototype.hasOwnProperty.call(o, name)) {
+      try { Object.defineProperty(o, name, { value: undefined, configurable: false, writable: false }); } catch {}
+    }
+  }
+}
+
+const show = v => {
+  if (typeof v === 'string') return v;
+  if (typeof v === 'bigint') return v + 'n';
+  if (typeof v === 'function') return v.toString();
+  if (v instanceof Error) return v.name + ': ' + v.message;
+  try {
+    const json = JSON.stringify(v, (_, x) => typeof x === 'bigint' ? x.toString() : x instanceof Map ? Object.fromEntries(x) : x instanceof Set ? [...x] : x, 2);
+    return json === undefined ? String(v) : json;
+  } catch { return String(v); }
+};
+
+self.onmessage = async e => {
+  const logs = [];
+  let size = 0;
+  const log = (...args) => {
+    const line = args.map(show).join(' ');
+    size += line.length;
+    if (size > LIMIT) throw new Error('Output limit of ' + LIMIT + ' characters exceeded');
+    logs.push(line);
+  };
+  Object.defineProperty(self, 'console', { value: { log, info: log, warn: log, error: log, debug: log, table: log, dir: log } });
+  const AsyncFunction = (async () => {}).constructor;
+  let started = false;
+  Object.defineProperty(self, '__sandboxStart', { value: () => { started = true; } });
+  try {
+    let value;
+    try {
+      // Global eval yields the value of the last statement
+      value = (0, eval)('__sandboxStart();\\n' + e.data);
+    } catch (err) {
+      // Top-level await or return does not parse as a script; such code runs as an async function body
+      if (started || !(err instanceof SyntaxError)) throw err;
+      value = new AsyncFunction(e.data)();
+    }
+    value = await value;
+    post({ logs, value: value === undefined ? undefined : show(value).slice(0, LIMIT) });
+  } catch (err) {
+    post({ logs, error: err instanceof Error ? err.name + ': ' + err.message : show(err) });
+  }
+};
+`;
+
+/**
+ * The iframe page: its CSP allows only its own inline script, eval for the
+ * worker, and blob: workers. It starts the worker from the source it is sent
+ * and passes the outcome back through the port that came with the code.
+ */
+const FRAME_HTML = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:">
+<script>
+onmessage = e => {
+  const port = e.ports[0];
+  if (!port || typeof e.data?.source !== 'string') return;
+  const worker = new Worker(URL.createObjectURL(new Blob([e.data.source], { type: 'text/javascript' })));
+  worker.onmessage = r => port.postMessage({ result: r.data });
+  worker.onerror = r => { r.preventDefault(); port.postMessage({ crash: r.message || '' }); };
+  worker.postMessage(e.data.code);
+};
+</script>`;
+
+/** The worker's reply is shaped by the code it ran, so it is checked and cut to size here */
+function toSandboxResult(data: unknown): SandboxResult {
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  let left = SANDBOX_OUTPUT_LIMIT;
+  const take = (v: unknown) => {
+    const text = String(v).slice(0, Math.max(0, left));
+    left -= text.length;
+    return text;
+  };
+  const logs = (Array.isArray(raw.logs) ? raw.logs : []).map(take).filter(Boolean);
+  return {
+    logs,
+    value: raw.value === undefined ? undefined : take(raw.value),
+    error: raw.error === undefined ? undefined : String(raw.error).slice(0, 1000),
+  };
+}
+
+export function runInSandbox(code: string, signal?: AbortSignal, timeoutMs = SANDBOX_TIMEOUT_MS): Promise<SandboxResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(new Error('Request aborted')); return; }
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = FRAME_HTML;
+    const channel = new MessageChannel();
+    const finish = () => {
+      clearTimeout(timer);
+      channel.port1.close();
+      // Removing the iframe ends its worker
+      frame.remove();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => { finish(); reject(new Error('Request aborted')); };
+    const timer = setTimeout(() => { finish(); reject(new Error(`Timed out after ${timeoutMs / 1000}s (endless loop or too much work?)`)); }, timeoutMs);
+
+    signal?.addEventListener('abort', onAbort);
+    channel.port1.onmessage = (e: MessageEvent<{ result?: unknown; crash?: string }>) => {
+      finish();
+      if (e.data?.crash === undefined) { resolve(toSandboxResult(e.data?.result)); return; }
+      const message = String(e.data.crash);
+      reject(new Error(/memory|allocation/i.test(message) ? 'Ran out of memory' : message || 'The sandbox crashed (likely out of memory)'));
+    };
+    frame.onload = () => frame.contentWindow?.postMessage({ source: WORKER_SOURCE, code }, '*', [channel.port2]);
+    document.body.appendChild(frame);
+  });
+}
+
+/** Console output followed by the result, the way the tool reports it */
+export function formatSandboxResult(r: SandboxResult): string {
+  const parts = [...r.logs];
+  if (r.error) parts.push(`Uncaught ${r.error}`);
+  else if (r.value !== undefined) parts.push(`→ ${r.value}`);
+  return parts.length > 0 ? parts.join('\n') : '(no output)';
+}
@@ -0,0 +1,217 @@
+// =============================================================================
+// Chat Search — full-text index over every message in every chat
+// =============================================================================
+// Words are indexed per message and the index is refreshed per chat: state is
+// immutable, so a chat whose object is the one indexed last time is skipped.
+// A query narrows candidates through the word list, then checks the message
+// text itself, so phrases and partial words both work. Reasoning inside
+// <think> is indexed apart from the answer and only searched on request.
+// Query syntax: plain words (all must match), "exact phrase", model:<part of
+// a model id>, after:YYYY-MM-DD and before:YYYY-MM-DD (or YYYY-MM).
+// =============================================================================
+
+import type { ChatSession } from './api';
+import { parseThinkContent } from './content';
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+const MAX_HITS = 200;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+interface Doc {
+  sessionId: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  text: string;
+  lower: string;
+  thinking: string;
+  thinkingLower: string;
+  words: string[];
+}
+
+export interface SearchQuery {
+  /** Lowercased words and phrases that must all occur */
+  terms: string[];
+  model?: string;
+  after?: number;
+  before?: number;
+}
+
+export interface SnippetPart { text: string; hit: boolean }
+
+export interface SearchHit {
+  sessionId: string;
+  messageId: string;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  /** Matched in the reasoning rather than the answer */
+  inReasoning: boolean;
+  snippet: SnippetPart[];
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  /** Matches before the MAX_HITS cut */
+  total: number;
+}
+
+function parseDate(value: string, end: boolean): number | undefined {
+  const m = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (!m) return undefined;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]) - 1, m[3] ? Number(m[3]) : undefined];
+  if (d === undefined) return new Date(y, end ? mo + 1 : mo, 1).getTime();
+  return new Date(y, mo, end ? d + 1 : d).getTime();
+}
+
+export function parseQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [] };
+  for (const [, phrase, word] of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) { if (phrase.trim()) query.terms.push(phrase.trim().toLowerCase()); continue; }
+    const filter = word.match(/^(model|after|before):(.+)$/i);
+    const key = filter?.[1].toLowerCase();
+    if (key === 'model') query.model = filter![2].toLowerCase();
+    else if (key === 'after' && parseDate(filter![2], false) !== undefined) query.after = parseDate(filter![2], false);
+    else if (key === 'before' && parseDate(filter![2], true) !== undefined) query.before = parseDate(filter![2], true);
+    else query.terms.push(word.toLowerCase());
+  }
+  return query;
+}
+
+function snippet(text: string, lower: string, terms: string[]): SnippetPart[] {
+  let first = -1;
+  for (const t of terms) {
+    const i = lower.indexOf(t);
+    if (i !== -1 && (first === -1 || i < first)) first = i;
+  }
+  let start = Math.max(0, first - SNIPPET_BEFORE);
+  if (start > 0) { const space = text.indexOf(' ', start); if (space !== -1 && space < first) start = space + 1; }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  // Merge every term occurrence inside the window into highlight ranges
+  const ranges: [number, number][] = [];
+  for (const t of terms) {
+    for (let i = lower.indexOf(t, start); i !== -1 && i < end; i = lower.indexOf(t, i + t.length)) ranges.push([i, Math.min(end, i + t.length)]);
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: SnippetPart[] = [];
+  const flat = (s: string) => s.replace(/\s+/g, ' ');
+  let pos = start;
+  for (const [from, to] of ranges) {
+    if (to <= pos) continue;
+    if (from > pos) parts.push({ text: flat(text.slice(pos, from)), hit: false });
+    parts.push({ text: flat(text.slice(Math.max(from, pos), to)), hit: true });
+    pos = to;
+  }
+  if (pos < end) parts.push({ text: flat(text.slice(pos, end)), hit: false });
+  if (start > 0) parts.unshift({ text: '…', hit: false });
+  if (end < text.length) parts.push({ text: '…', hit: false });
+  return parts;
+}
+
+export class SearchIndex {
+  private docs = new Map<string, Doc>();
+  private words = new Map<string, Set<string>>();
+  private sessions = new Map<string, { session: ChatSession; ids: string[]; models: string }>();
+
+  /** Re-indexes the chats that changed since the last call */
+  sync(sessions: ChatSession[]) {
+    const live = new Set<string>();
+    for (const session of sessions) {
+      live.add(session.id);
+      if (this.sessions.get(session.id)?.session === session) continue;
+      this.remove(session.id);
+      this.add(session);
+    }
+    for (const id of [...this.sessions.keys()]) if (!live.has(id)) this.remove(id);
+  }
+
+  private add(session: ChatSession) {
+    const ids: string[] = [];
+    const models = new Set([session.model]);
+    for (const msg of session.messages) {
+      if (msg.isError || msg.isStreaming) continue;
+      if (msg.model) models.add(msg.model);
+      const { thinking, response } = msg.role === 'assistant' ? parseThinkContent(msg.content) : { thinking: '', response: msg.content };
+      const lower = response.toLowerCase();
+      const thinkingLower = thinking.toLowerCase();
+      const words = [...new Set([...lower.matchAll(WORD), ...thinkingLower.matchAll(WORD)].map(m => m[0]))];
+      this.docs.set(msg.id, { sessionId: session.id, messageId: msg.id, role: msg.role, timestamp: msg.timestamp, text: response, lower, thinking, thinkingLower, words });
+      for (const w of words) {
+        const set = this.words.get(w);
+        if (set) set.add(msg.id); else this.words.set(w, new Set([msg.id]));
+      }
+      ids.push(msg.id);
+    }
+    this.sessions.set(session.id, { session, ids, models: [...models].join(' ').toLowerCase() });
+  }
+
+  private remove(sessionId: string) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+    for (const id of entry.ids) {
+      const doc = this.docs.get(id);
+      if (!doc) continue;
+      for (const w of doc.words) {
+        const set = this.words.get(w);
+        set?.delete(id);
+        if (set?.size === 0) this.words.delete(w);
+      }
+      this.docs.delete(id);
+    }
+    this.sessions.delete(sessionId);
+  }
+
+  /** Messages containing any indexed word that contains `part` */
+  private candidates(part: string): Set<string> {
+    const out = new Set<string>();
+    for (const [word, ids] of this.words) if (word.includes(part)) for (const id of ids) out.add(id);
+    return out;
+  }
+
+  search(query: SearchQuery, includeReasoning = false): SearchResult {
+    const hasFilter = query.model !== undefined || query.after !== undefined || query.before !== undefined;
+    if (query.terms.length === 0 && !hasFilter) return { hits: [], total: 0 };
+
+    // Narrow by the longest (usually rarest) word first; phrases contribute their words
+    let pool = null as Set<string> | null;
+    const parts = [...new Set(query.terms.flatMap(t => t.match(WORD) || []))];
+    for (const part of parts.sort((a, b) => b.length - a.length)) {
+      const found = this.candidates(part);
+      pool = pool ? new Set([...pool].filter(id => found.has(id))) : found;
+      if (pool.size === 0) break;
+    }
+
+    const hits: SearchHit[] = [];
+    let total = 0;
+    for (const id of pool ?? this.docs.keys()) {
+      const doc = this.docs.get(id)!;
+      if (query.after !== undefined && doc.timestamp < query.after) continue;
+      if (query.before !== undefined && doc.timestamp >= query.before) continue;
+      if (query.model !== undefined && !this.sessions.get(doc.sessionId)!.models.includes(query.model)) continue;
+      const inAnswer = query.terms.every(t => doc.lower.includes(t));
+      const inReasoning = !inAnswer && includeReasoning && query.terms.every(t => doc.lower.includes(t) || doc.thinkingLower.includes(t));
+      if (!inAnswer && !inReasoning) continue;
+      total++;
+      hits.push({
+        sessionId: doc.sessionId,
+        messageId: doc.messageId,
+        role: doc.role,
+        timestamp: doc.timestamp,
+        inReasoning,
+        snippet: [],
+      });
+    }
+
+    hits.sort((a, b) => b.timestamp - a.timestamp);
+    hits.length = Math.min(hits.length, MAX_HITS);
+    // Snippets only for what is shown
+    for (const hit of hits) {
+      const doc = this.docs.get(hit.messageId)!;
+      const [text, lower] = hit.inReasoning && !query.terms.some(t => doc.lower.includes(t)) ? [doc.thinking, doc.thinkingLower] : [doc.text, doc.lower];
+      hit.snippet = snippet(text, lower, query.terms);
+    }
+    return { hits, total };
+  }
+}
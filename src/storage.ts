@@ -0,0 +1,282 @@
+// =============================================================================
+// Chat Storage — IndexedDB with one record per session, message and image
+// =============================================================================
+// Sessions are written incrementally: state is immutable, so a session or
+// message whose object is the one last written is skipped. Attached and
+// generated images are stored as Blobs and turned back into data URLs on load.
+// Chats from the old single-key localStorage format are moved over once. When
+// IndexedDB can't be opened (some private modes) the old format is used.
+// =============================================================================
+
+import type { ChatMessage, ChatSession } from './api';
+
+const DB_NAME = 'dophy';
+const DB_VERSION = 1;
+const LEGACY_KEY = 'dophy-sessions';
+
+type SessionRecord = Omit<ChatSession, 'messages'>;
+type StoredImage = { blobId: string } | { url: string };
+interface MessageRecord extends Omit<ChatMessage, 'images' | 'responseImages'> {
+  sessionId: string;
+  /** Position in `ChatSession.messages` */
+  order: number;
+  images?: StoredImage[];
+  responseImages?: StoredImage[];
+}
+interface BlobRecord { id: string; messageId: string; blob: Blob }
+
+export interface StorageInfo {
+  backend: 'indexeddb' | 'localstorage';
+  /** Bytes, from the browser's estimate; null when unavailable */
+  usage: number | null;
+  quota: number | null;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, readonly quotaExceeded = false) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+function toStorageError(err: unknown): StorageError {
+  if (err instanceof StorageError) return err;
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'QuotaExceededError') return new StorageError('Browser storage is full — delete old chats or export and clear them', true);
+  return new StorageError(err instanceof Error ? err.message : String(err));
+}
+
+// ---- IndexedDB plumbing ------------------------------------------------------
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') { reject(new Error('IndexedDB is not available')); return; }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('messages', { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        db.createObjectStore('blobs', { keyPath: 'id' }).createIndex('messageId', 'messageId');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('Storage is blocked by another open tab'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// ---- Images ------------------------------------------------------------------
+
+async function dataUrlToBlob(url: string): Promise<Blob> {
+  return (await fetch(url)).blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function storeImages(messageId: string, kind: 'i' | 'r', urls: string[] | undefined, blobs: BlobRecord[]): Promise<StoredImage[] | undefined> {
+  if (!urls) return undefined;
+  return Promise.all(urls.map(async (url, n) => {
+    if (!url.startsWith('data:')) return { url };
+    const id = `${messageId}:${kind}${n}`;
+    blobs.push({ id, messageId, blob: await dataUrlToBlob(url) });
+    return { blobId: id };
+  }));
+}
+
+async function loadImages(stored: StoredImage[] | undefined, blobs: Map<string, Blob>): Promise<string[] | undefined> {
+  if (!stored) return undefined;
+  const urls = await Promise.all(stored.map(img => {
+    if ('url' in img) return img.url;
+    const blob = blobs.get(img.blobId);
+    return blob ? blobToDataUrl(blob) : null;
+  }));
+  return urls.filter((u): u is string => u !== null);
+}
+
+// ---- Session store -----------------------------------------------------------
+
+let backend: StorageInfo['backend'] = 'indexeddb';
+/** What was last written, by id — objects compared by reference */
+const written = new Map<string, { session: ChatSession; messages: Map<string, ChatMessage> }>();
+let queue: Promise<void> = Promise.resolve();
+
+function remember(sessions: ChatSession[]) {
+  written.clear();
+  for (const s of sessions) written.set(s.id, { session: s, messages: new Map(s.messages.map(m => [m.id, m])) });
+}
+
+function loadLegacy(): ChatSession[] {
+  try { const r = localStorage.getItem(LEGACY_KEY); if (r) return JSON.parse(r); } catch {}
+  return [];
+}
+
+async function readAll(db: IDBDatabase): Promise<ChatSession[]> {
+  const tx = db.transaction(['sessions', 'messages', 'blobs'], 'readonly');
+  const [sessionRecs, messageRecs, blobRecs] = await Promise.all([
+    request(tx.objectStore('sessions').getAll() as IDBRequest<SessionRecord[]>),
+    request(tx.objectStore('messages').getAll() as IDBRequest<MessageRecord[]>),
+    request(tx.objectStore('blobs').getAll() as IDBRequest<BlobRecord[]>),
+  ]);
+
+  const blobs = new Map(blobRecs.map(b => [b.id, b.blob]));
+  const bySession = new Map<string, MessageRecord[]>();
+  for (const m of messageRecs) {
+    const list = bySession.get(m.sessionId);
+    if (list) list.push(m); else bySession.set(m.sessionId, [m]);
+  }
+
+  return Promise.all(sessionRecs.map(async rec => {
+    const recs = (bySession.get(rec.id) || []).sort((a, b) => a.order - b.order);
+    const messages = await Promise.all(recs.map(async ({ sessionId: _s, order: _o, images, responseImages, ...msg }): Promise<ChatMessage> => ({
+      ...msg,
+      images: await loadImages(images, blobs),
+      responseImages: await loadImages(responseImages, blobs),
+    })));
+    return { ...rec, messages };
+  }));
+}
+
+async function writeChanges(sessions: ChatSession[]): Promise<void> {
+  const db = await openDB();
+
+  // Encode images before the transaction opens — it would auto-commit while awaiting
+  const sessionPuts: SessionRecord[] = [];
+  const messagePuts: MessageRecord[] = [];
+  const blobPuts: BlobRecord[] = [];
+  const staleMessages: string[] = [];
+  const live = new Set(sessions.map(s => s.id));
+
+  for (const session of sessions) {
+    const prev = written.get(session.id);
+    if (prev?.session === session) continue;
+    const { messages, ...rec } = session;
+    sessionPuts.push(rec);
+
+    for (let order = 0; order < messages.length; order++) {
+      const msg = messages[order];
+      const old = prev?.messages.get(msg.id);
+      if (old === msg && prev!.session.messages[order] === msg) continue;
+      const { images, responseImages, ...rest } = msg;
+      messagePuts.push({
+        ...rest,
+        sessionId: session.id,
+        order,
+        images: await storeImages(msg.id, 'i', images, blobPuts),
+        responseImages: await storeImages(msg.id, 'r', responseImages, blobPuts),
+      });
+    }
+    if (prev) {
+      const ids = new Set(messages.map(m => m.id));
+      for (const id of prev.messages.keys()) if (!ids.has(id)) staleMessages.push(id);
+    }
+  }
+  const staleSessions = [...written.keys()].filter(id => !live.has(id));
+  for (const id of staleSessions) staleMessages.push(...written.get(id)!.messages.keys());
+
+  if (!sessionPuts.length && !messagePuts.length && !staleSessions.length && !staleMessages.length) return;
+
+  const tx = db.transaction(['sessions', 'messages', 'blobs'], 'readwrite');
+  const sessionStore = tx.objectStore('sessions');
+  const messageStore = tx.objectStore('messages');
+  const blobStore = tx.objectStore('blobs');
+  const blobIndex = blobStore.index('messageId');
+
+  for (const id of staleSessions) sessionStore.delete(id);
+  for (const id of staleMessages) {
+    messageStore.delete(id);
+    blobIndex.getAllKeys(id).onsuccess = e => { for (const key of (e.target as IDBRequest<IDBValidKey[]>).result) blobStore.delete(key); };
+  }
+  // Rewritten messages may have fewer images than before
+  for (const m of messagePuts) {
+    const keep = new Set(blobPuts.filter(b => b.messageId === m.id).map(b => b.id));
+    blobIndex.getAllKeys(m.id).onsuccess = e => {
+      for (const key of (e.target as IDBRequest<IDBValidKey[]>).result) if (!keep.has(key as string)) blobStore.delete(key);
+    };
+  }
+  for (const rec of sessionPuts) sessionStore.put(rec);
+  for (const rec of messagePuts) messageStore.put(rec);
+  for (const rec of blobPuts) blobStore.put(rec);
+  await done(tx);
+
+  remember(sessions);
+}
+
+/** Loads all chats, moving them out of localStorage on first run */
+export async function loadSessions(): Promise<ChatSession[]> {
+  let db: IDBDatabase;
+  try {
+    db = await openDB();
+  } catch {
+    backend = 'localstorage';
+    const sessions = loadLegacy();
+    remember(sessions);
+    return sessions;
+  }
+
+  const sessions = await readAll(db);
+  remember(sessions);
+  if (sessions.length > 0 || localStorage.getItem(LEGACY_KEY) === null) return sessions;
+
+  const legacy = loadLegacy();
+  await writeChanges(legacy);
+  localStorage.removeItem(LEGACY_KEY);
+  return legacy;
+}
+
+/** Persists whatever changed since the last save. Saves run one at a time. */
+export function saveSessions(sessions: ChatSession[]): Promise<void> {
+  const run = async () => {
+    try {
+      if (backend === 'localstorage') localStorage.setItem(LEGACY_KEY, JSON.stringify(sessions));
+      else await writeChanges(sessions);
+    } catch (err) {
+      throw toStorageError(err);
+    }
+  };
+  const next = queue.then(run);
+  queue = next.catch(() => {});
+  return next;
+}
+
+export async function getStorageInfo(): Promise<StorageInfo> {
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { backend, usage: usage ?? null, quota: quota ?? null };
+  } catch {
+    return { backend, usage: null, quota: null };
+  }
+}
+
+export function formatBytes(n: number): string {
+  if (n >= 1024 ** 3) return `${(n / 1024 ** 3).toFixed(1)} GB`;
+  if (n >= 1024 ** 2) return `${(n / 1024 ** 2).toFixed(1)} MB`;
+  if (n >= 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${n} B`;
+}
@@ -0,0 +1,109 @@
+// =============================================================================
+// Conversation Summary — rolling summary of turns that fell out of the window
+// =============================================================================
+// The summary covers the oldest `count` messages. When more messages drop out
+// it is extended with just the new ones; when the covered messages change
+// (edited or deleted) it is rebuilt from scratch.
+// =============================================================================
+
+import { generateResponse, type AppConfig, type ChatMessage, type ChatSummary, type LogEntry } from './api';
+import { estimateTokens } from './usage';
+
+/** Kept free in the context budget until the first summary exists */
+export const SUMMARY_RESERVE_TOKENS = 1024;
+/** Transcript cap per summarization call, in characters */
+const MAX_TRANSCRIPT_CHARS = 400_000;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Write a compact summary (at most ~300 words) of the transcript you are given, merged with the previous summary if there is one.
+Keep facts, decisions, names, numbers, code identifiers and open questions. Drop pleasantries.
+Write in the same language as the conversation. Output only the summary.`;
+
+export const SUMMARY_MARKER = '[Summary of the earlier conversation]';
+
+/** Cheap djb2 over ids and contents — enough to notice edits and deletions */
+export function summaryFingerprint(messages: ChatMessage[]): string {
+  let h = 5381;
+  for (const m of messages) {
+    const s = `${m.id}:${m.content}`;
+    for (let i = 0; i < s.length; i++) h = ((h << 5) + h + s.charCodeAt(i)) | 0;
+  }
+  return `${messages.length}-${(h >>> 0).toString(36)}`;
+}
+
+export function summaryTokens(summary?: ChatSummary): number {
+  return summary ? estimateTokens(summary.text) + 32 : 0;
+}
+
+/** Is the stored summary exactly in sync with the messages that were left out? */
+export function isSummaryCurrent(summary: ChatSummary | undefined, omitted: ChatMessage[]): boolean {
+  return !!summary && summary.count === omitted.length && summary.fingerprint === summaryFingerprint(omitted);
+}
+
+function toTranscript(messages: ChatMessage[]): string {
+  const text = messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}${m.images?.length ? ` [${m.images.length} image(s)]` : ''}`)
+    .join('\n\n');
+  return text.length > MAX_TRANSCRIPT_CHARS ? text.slice(-MAX_TRANSCRIPT_CHARS) : text;
+}
+
+/**
+ * Gemini Flash when Google keys exist, otherwise whatever the chat already uses.
+ * AI Search would swap SUMMARY_PROMPT for its own, so a search chat without
+ * Google keys falls back to a Haiku model, or gets no summary at all (null).
+ */
+function summaryModel(config: AppConfig, chatModel: string): string | null {
+  if (config.googleKeys.length > 0) return 'auto-gemini-flash';
+  if (chatModel !== 'auto-search') return chatModel;
+  if (config.anthropicKeys.length > 0) return config.anthropicModels.find(m => m.includes('haiku')) ?? null;
+  return null;
+}
+
+/**
+ * Brings the summary in line with `omitted`. Reuses it when current, extends
+ * it when only new messages dropped out, rebuilds it otherwise.
+ */
+export async function updateSummary(
+  summary: ChatSummary | undefined,
+  omitted: ChatMessage[],
+  config: AppConfig,
+  chatModel: string,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal
+): Promise<ChatSummary | undefined> {
+  if (omitted.length === 0) return summary;
+  if (isSummaryCurrent(summary, omitted)) return summary;
+  const model = summaryModel(config, chatModel);
+  if (!model) throw new Error('No non-search model available to summarize with');
+
+  const extendable = !!summary && summary.count < omitted.length
+    && summary.fingerprint === summaryFingerprint(omitted.slice(0, summary.count));
+  const previous = extendable ? summary!.text : '';
+  const fresh = extendable ? omitted.slice(summary!.count) : omitted;
+
+  addLog({ timestamp: Date.now(), level: 'info', message: `📝 ${extendable ? 'Extending' : 'Building'} summary (${fresh.length} msgs)` });
+
+  const request: ChatMessage = {
+    id: 'summary-request',
+    role: 'user',
+    content: `${previous ? `Previous summary:\n${previous}\n\n` : ''}Transcript:\n${toTranscript(fresh)}`,
+    timestamp: Date.now(),
+  };
+  const result = await generateResponse(
+    [request], model, { ...config, systemPrompt: SUMMARY_PROMPT },
+    () => {}, () => {}, addLog, signal
+  );
+
+  const text = result.text.trim();
+  if (!text) throw new Error('Empty summary');
+
+  return { text, count: omitted.length, fingerprint: summaryFingerprint(omitted), updatedAt: Date.now() };
+}
+
+/**
+ * The system prompt with the summary appended. A synthetic message would put
+ * two user turns in a row, which providers that require alternation reject.
+ */
+export function withSummary(systemPrompt: string, summary: ChatSummary): string {
+  return [systemPrompt, `${SUMMARY_MARKER}\n${summary.text}`].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,66 @@
+// =============================================================================
+// Chat Titles — short titles written by a cheap model after the first exchange
+// =============================================================================
+// A new chat is titled with its truncated first message right away; once the
+// first reply is in, a cheap model is asked for a proper title in the
+// background. Without a suitable key, or when the call fails, the truncated
+// title simply stays. Chats renamed by hand are never retitled.
+// =============================================================================
+
+import { generateResponse, type AppConfig, type ChatMessage, type LogEntry } from './api';
+import { parseThinkContent } from './content';
+
+const MAX_TITLE_CHARS = 60;
+/** Enough of each message to tell the topic */
+const EXCERPT_CHARS = 1500;
+
+const TITLE_PROMPT = `You write titles for chat conversations.
+Reply with a title of 2 to 6 words that names the topic of the conversation you are given.
+Use the language of the user's message. No quotes, no trailing punctuation, no emoji. Output only the title.`;
+
+export function truncatedTitle(messages: ChatMessage[]): string {
+  const first = messages.find(m => m.role === 'user');
+  if (!first) return 'New Chat';
+  return first.content.slice(0, 50) + (first.content.length > 50 ? '...' : '');
+}
+
+/** Gemini Flash with Google keys, else a Haiku model with Anthropic keys; null = keep the truncated title */
+function titleModel(config: AppConfig): string | null {
+  if (config.googleKeys.length > 0) return 'auto-gemini-flash';
+  if (config.anthropicKeys.length > 0) return config.anthropicModels.find(m => m.includes('haiku')) ?? null;
+  return null;
+}
+
+function cleanTitle(text: string): string {
+  const line = text.trim().split('\n')[0]
+    .replace(/^(title|заголовок)\s*:\s*/i, '')
+    .replace(/^["'«“*#\s]+|["'»”*.!?\s]+$/g, '');
+  return line.length > MAX_TITLE_CHARS ? line.slice(0, MAX_TITLE_CHARS - 1).trimEnd() + '…' : line;
+}
+
+/** Title for a chat from its first prompt and reply; null when no cheap model is available */
+export async function generateChatTitle(
+  prompt: ChatMessage,
+  reply: string,
+  config: AppConfig,
+  addLog: (entry: LogEntry) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const model = titleModel(config);
+  if (!model) return null;
+
+  const request: ChatMessage = {
+    id: 'title-request',
+    role: 'user',
+    content: `User:\n${prompt.content.slice(0, EXCERPT_CHARS)}${prompt.images?.length ? ` [${prompt.images.length} image(s)]` : ''}\n\nAssistant:\n${parseThinkContent(reply).response.slice(0, EXCERPT_CHARS)}`,
+    timestamp: Date.now(),
+  };
+  const result = await generateResponse(
+    [request], model, { ...config, systemPrompt: TITLE_PROMPT },
+    () => {}, () => {}, addLog, signal
+  );
+
+  const title = cleanTitle(parseThinkContent(result.text).response);
+  if (!title) throw new Error('Empty title');
+  return title;
+}
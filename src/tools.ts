@@ -0,0 +1,45 @@
+// =============================================================================
+// Tools — functions the model may call while answering
+// =============================================================================
+// A tool is declared once (name, description, JSON schema for its arguments,
+// executor) and registered here; each provider translates the declarations to
+// its own format (Gemini functionDeclarations, OpenAI tools). The loop that
+// runs calls and feeds results back lives in generateResponse. Tools flagged
+// `sensitive` only run after the user allows the call in the chat.
+// =============================================================================
+
+import type { AppConfig, ToolDeclaration } from './api';
+
+export interface ToolContext {
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition extends ToolDeclaration {
+  /** Short name for Settings and the call card */
+  label: string;
+  /** One line for Settings; defaults to `description`, which is written for the model */
+  summary?: string;
+  /** Asks the user before every run */
+  sensitive?: boolean;
+  /** Returns the text handed back to the model; a thrown error is reported to it as the result */
+  execute: (args: Record<string, unknown>, ctx: ToolContext) => Promise<string> | string;
+}
+
+const tools = new Map<string, ToolDefinition>();
+
+export function registerTool(def: ToolDefinition): void {
+  tools.set(def.name, def);
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(tools.values());
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+/** Registered tools switched on in Settings */
+export function enabledTools(config: AppConfig): ToolDefinition[] {
+  return listTools().filter(t => config.enabledTools.includes(t.name));
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// Trash — soft-deleted chats and their retention
+// =============================================================================
+// Deleting a chat only stamps `deletedAt`; the chat stays in storage, leaves
+// every list except the trash and can be restored until it expires. Expired
+// chats are dropped on load and whenever the retention setting changes.
+// Archived chats are a separate, permanent state and never expire.
+// =============================================================================
+
+import type { ChatSession } from './api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_OPTIONS: [number, string][] = [[7, '7 days'], [30, '30 days'], [90, '90 days'], [0, 'Until emptied']];
+
+export const isTrashed = (s: ChatSession) => s.deletedAt !== undefined;
+
+export function trashSessions(sessions: ChatSession[], ids: Set<string>, now = Date.now()): ChatSession[] {
+  return sessions.map(s => ids.has(s.id) && !isTrashed(s) ? { ...s, deletedAt: now } : s);
+}
+
+export function restoreSessions(sessions: ChatSession[], ids: Set<string>): ChatSession[] {
+  return sessions.map(s => {
+    if (!ids.has(s.id) || !isTrashed(s)) return s;
+    const { deletedAt: _, ...rest } = s;
+    return rest;
+  });
+}
+
+/** Whole days until a trashed chat is purged; null = kept until emptied */
+export function daysLeft(session: ChatSession, retentionDays: number, now = Date.now()): number | null {
+  if (retentionDays <= 0 || session.deletedAt === undefined) return null;
+  return Math.max(0, Math.ceil((session.deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+}
+
+/** Drops trashed chats older than the retention; returns `sessions` itself when nothing expired */
+export function purgeExpired(sessions: ChatSession[], retentionDays: number, now = Date.now()): ChatSession[] {
+  if (retentionDays <= 0) return sessions;
+  const cutoff = now - retentionDays * DAY_MS;
+  const kept = sessions.filter(s => s.deletedAt === undefined || s.deletedAt > cutoff);
+  return kept.length === sessions.length ? sessions : kept;
+}
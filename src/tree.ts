@@ -0,0 +1,102 @@
+// =============================================================================
+// Message Tree — branching conversations stored as a flat list
+// =============================================================================
+// Each message points at the one it answers or follows (`parentId`, null for
+// the first). Editing a past user message adds a sibling instead of replacing
+// it; `leafId` marks the tip of the branch on screen. New messages are always
+// appended, so array order is creation order. Chats saved before branching
+// have no parent links and read as a single branch.
+// =============================================================================
+
+import type { ChatComparison, ChatMessage, ChatSession } from './api';
+
+function parentIdAt(messages: ChatMessage[], index: number): string | null {
+  const msg = messages[index];
+  if (msg.parentId !== undefined) return msg.parentId;
+  return index > 0 ? messages[index - 1].id : null;
+}
+
+export function parentIdOf(session: ChatSession, id: string): string | null {
+  const index = session.messages.findIndex(m => m.id === id);
+  return index === -1 ? null : parentIdAt(session.messages, index);
+}
+
+/** Children per parent id (null = roots), oldest first */
+export function childrenMap(session: ChatSession): Map<string | null, ChatMessage[]> {
+  const map = new Map<string | null, ChatMessage[]>();
+  session.messages.forEach((msg, i) => {
+    const parent = parentIdAt(session.messages, i);
+    const list = map.get(parent);
+    if (list) list.push(msg); else map.set(parent, [msg]);
+  });
+  return map;
+}
+
+/** Messages from the root to the selected leaf */
+export function activePath(session: ChatSession): ChatMessage[] {
+  const { messages } = session;
+  if (messages.length === 0) return [];
+  const index = new Map(messages.map((m, i) => [m.id, i]));
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let id: string | null = session.leafId && index.has(session.leafId) ? session.leafId : messages[messages.length - 1].id;
+  while (id !== null && !seen.has(id)) {
+    const i = index.get(id);
+    if (i === undefined) break;
+    seen.add(id);
+    path.push(messages[i]);
+    id = parentIdAt(messages, i);
+  }
+  return path.reverse();
+}
+
+/** Follows the newest child down from `id` */
+export function latestLeaf(session: ChatSession, id: string): string {
+  const children = childrenMap(session);
+  let leaf = id;
+  for (let next = children.get(leaf); next?.length; next = children.get(leaf)) {
+    leaf = next[next.length - 1].id;
+  }
+  return leaf;
+}
+
+/** Gives every message an explicit `parentId`, so the list can grow or be merged without re-parenting legacy chats */
+export function withParentLinks(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m, i) => m.parentId !== undefined ? m : { ...m, parentId: parentIdAt(messages, i) });
+}
+
+/** Appends `added` as a chain under `parentId` and selects the new tip */
+export function appendToBranch(session: ChatSession, parentId: string | null, added: ChatMessage[]): ChatSession {
+  const messages = withParentLinks(session.messages);
+  let parent = parentId;
+  for (const msg of added) {
+    messages.push({ ...msg, parentId: parent });
+    parent = msg.id;
+  }
+  return { ...session, messages, leafId: parent ?? undefined };
+}
+
+export function updateMessage(session: ChatSession, id: string, update: (msg: ChatMessage) => ChatMessage): ChatSession {
+  return { ...session, messages: session.messages.map(m => m.id === id ? update(m) : m) };
+}
+
+/** Shows the sibling `offset` steps away from `id`, continuing down its newest branch */
+export function switchBranch(session: ChatSession, id: string, offset: number): ChatSession {
+  const siblings = childrenMap(session).get(parentIdOf(session, id)) || [];
+  const target = siblings[siblings.findIndex(m => m.id === id) + offset];
+  return target ? { ...session, leafId: latestLeaf(session, target.id) } : session;
+}
+
+/** Compare-mode turn on the shown branch that still waits for a winner */
+export function pendingComparison(session: ChatSession, path: ChatMessage[]): ChatComparison | undefined {
+  return session.comparisons?.find(c => !c.winnerId && path.some(m => m.id === c.promptId));
+}
+
+/** Records the pick and continues the conversation from it */
+export function pickComparisonWinner(session: ChatSession, promptId: string, winnerId: string): ChatSession {
+  return {
+    ...session,
+    comparisons: session.comparisons?.map(c => c.promptId === promptId ? { ...c, winnerId } : c),
+    leafId: latestLeaf(session, winnerId),
+  };
+}
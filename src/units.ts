@@ -0,0 +1,234 @@
+// =============================================================================
+// Units & Dates — conversions and calendar arithmetic for the built-in tools
+// =============================================================================
+// Every unit is a factor to its dimension's base unit (temperatures carry an
+// offset as well), so converting is one multiply and one divide. Dates are
+// calendar days handled in UTC, which keeps DST shifts out of day counts.
+// =============================================================================
+
+interface Unit { dim: string; factor: number; offset?: number }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** [dimension, [aliases, factor to the base unit][]]; the first alias is the canonical name */
+const UNIT_TABLE: [string, [string[], number, number?][]][] = [
+  ['length', [
+    [['m', 'meter', 'metre', 'meters', 'metres'], 1], [['km', 'kilometer', 'kilometre', 'kilometers'], 1e3],
+    [['cm', 'centimeter', 'centimeters'], 1e-2], [['mm', 'millimeter', 'millimeters'], 1e-3],
+    [['um', 'µm', 'micrometer', 'micron'], 1e-6], [['nm', 'nanometer'], 1e-9],
+    [['in', 'inch', 'inches', '"'], 0.0254], [['ft', 'foot', 'feet', "'"], 0.3048], [['yd', 'yard', 'yards'], 0.9144],
+    [['mi', 'mile', 'miles'], 1609.344], [['nmi', 'nautical mile', 'nautical miles'], 1852],
+    [['au', 'astronomical unit'], 149_597_870_700], [['ly', 'light year', 'light years'], 9_460_730_472_580_800],
+  ]],
+  ['mass', [
+    [['kg', 'kilogram', 'kilograms'], 1], [['g', 'gram', 'grams'], 1e-3], [['mg', 'milligram', 'milligrams'], 1e-6],
+    [['ug', 'µg', 'microgram', 'micrograms'], 1e-9], [['t', 'tonne', 'tonnes', 'metric ton'], 1e3],
+    [['lb', 'lbs', 'pound', 'pounds'], 0.45359237], [['oz', 'ounce', 'ounces'], 0.028349523125],
+    [['st', 'stone'], 6.35029318], [['ct', 'carat', 'carats'], 2e-4],
+  ]],
+  ['time', [
+    [['s', 'sec', 'second', 'seconds'], 1], [['ms', 'millisecond', 'milliseconds'], 1e-3],
+    [['us', 'µs', 'microsecond', 'microseconds'], 1e-6], [['ns', 'nanosecond', 'nanoseconds'], 1e-9],
+    [['min', 'minute', 'minutes'], 60], [['h', 'hr', 'hour', 'hours'], 3600], [['d', 'day', 'days'], 86_400],
+    [['wk', 'week', 'weeks'], 604_800], [['yr', 'year', 'years'], 31_557_600],
+  ]],
+  ['area', [
+    [['m2', 'm²', 'sq m', 'square meter', 'square meters'], 1], [['km2', 'km²', 'square kilometer', 'square kilometers'], 1e6],
+    [['cm2', 'cm²'], 1e-4], [['mm2', 'mm²'], 1e-6], [['ha', 'hectare', 'hectares'], 1e4], [['a', 'are'], 100],
+    [['acre', 'acres', 'ac'], 4046.8564224], [['ft2', 'ft²', 'sq ft', 'square foot', 'square feet'], 0.09290304],
+    [['in2', 'in²', 'sq in'], 0.00064516], [['yd2', 'yd²', 'sq yd'], 0.83612736], [['mi2', 'mi²', 'sq mi', 'square mile', 'square miles'], 2_589_988.110336],
+  ]],
+  ['volume', [
+    [['l', 'L', 'liter', 'litre', 'liters', 'litres'], 1], [['ml', 'mL', 'milliliter', 'millilitre', 'milliliters'], 1e-3],
+    [['cl', 'cL'], 1e-2], [['dl', 'dL'], 0.1], [['m3', 'm³', 'cubic meter', 'cubic meters'], 1e3], [['cm3', 'cm³', 'cc'], 1e-3],
+    [['gal', 'gallon', 'gallons', 'us gal'], 3.785411784], [['imp gal', 'imperial gallon', 'imperial gallons'], 4.54609],
+    [['qt', 'quart', 'quarts'], 0.946352946], [['pt', 'pint', 'pints'], 0.473176473], [['cup', 'cups'], 0.2365882365],
+    [['fl oz', 'floz', 'fluid ounce', 'fluid ounces'], 0.0295735295625], [['tbsp', 'tablespoon', 'tablespoons'], 0.01478676478125],
+    [['tsp', 'teaspoon', 'teaspoons'], 0.00492892159375], [['ft3', 'ft³', 'cu ft', 'cubic foot', 'cubic feet'], 28.316846592],
+    [['in3', 'in³', 'cu in'], 0.016387064], [['bbl', 'barrel', 'barrels'], 158.987294928],
+  ]],
+  ['speed', [
+    [['m/s', 'mps'], 1], [['km/h', 'kmh', 'kph'], 1 / 3.6], [['mph', 'mi/h'], 0.44704], [['kn', 'kt', 'knot', 'knots'], 1852 / 3600],
+    [['ft/s', 'fps'], 0.3048], [['mach'], 340.3], [['speed of light'], 299_792_458],
+  ]],
+  ['data', [
+    [['B', 'byte', 'bytes'], 1], [['bit', 'bits', 'b'], 0.125],
+    [['kB', 'KB', 'kilobyte', 'kilobytes'], 1e3], [['MB', 'megabyte', 'megabytes'], 1e6], [['GB', 'gigabyte', 'gigabytes'], 1e9],
+    [['TB', 'terabyte', 'terabytes'], 1e12], [['PB', 'petabyte', 'petabytes'], 1e15],
+    [['KiB', 'kibibyte'], 1024], [['MiB', 'mebibyte'], 1024 ** 2], [['GiB', 'gibibyte'], 1024 ** 3], [['TiB', 'tebibyte'], 1024 ** 4],
+    [['kbit', 'kb', 'kilobit'], 125], [['Mbit', 'Mb', 'megabit'], 125e3], [['Gbit', 'Gb', 'gigabit'], 125e6],
+  ]],
+  ['energy', [
+    [['J', 'joule', 'joules'], 1], [['kJ', 'kilojoule', 'kilojoules'], 1e3], [['MJ', 'megajoule'], 1e6],
+    [['cal', 'calorie', 'calories'], 4.184], [['kcal', 'Cal', 'kilocalorie', 'kilocalories'], 4184],
+    [['Wh', 'watt hour', 'watt hours'], 3600], [['kWh', 'kilowatt hour', 'kilowatt hours'], 3.6e6],
+    [['eV', 'electronvolt'], 1.602176634e-19], [['BTU', 'btu'], 1055.05585262], [['ft lbf', 'ft·lbf', 'foot pound'], 1.3558179483314004],
+  ]],
+  ['power', [
+    [['W', 'watt', 'watts'], 1], [['kW', 'kilowatt', 'kilowatts'], 1e3], [['MW', 'megawatt', 'megawatts'], 1e6],
+    [['hp', 'horsepower'], 745.69987158227022], [['PS', 'metric horsepower'], 735.49875],
+  ]],
+  ['pressure', [
+    [['Pa', 'pascal', 'pascals'], 1], [['kPa', 'kilopascal'], 1e3], [['MPa', 'megapascal'], 1e6], [['hPa', 'hectopascal', 'mbar'], 100],
+    [['bar'], 1e5], [['atm', 'atmosphere', 'atmospheres'], 101_325], [['psi'], 6894.757293168361],
+    [['mmHg', 'torr', 'Torr'], 133.322387415], [['inHg'], 3386.389],
+  ]],
+  ['angle', [
+    [['rad', 'radian', 'radians'], 1], [['deg', '°', 'degree', 'degrees'], Math.PI / 180],
+    [['grad', 'gon'], Math.PI / 200], [['turn', 'turns', 'rev', 'revolution'], 2 * Math.PI],
+    [['arcmin', "'"], Math.PI / 10_800], [['arcsec', '"'], Math.PI / 648_000],
+  ]],
+  ['fuel economy', [
+    // Stored as km per liter; l/100km is handled as a reciprocal below
+    [['km/l', 'kmpl'], 1], [['mpg', 'mpg us'], 0.425143707], [['mpg imp', 'mpg uk'], 0.354006189],
+  ]],
+  ['temperature', [
+    // Kelvin = value * factor + offset
+    [['K', 'kelvin'], 1, 0], [['C', '°C', 'celsius'], 1, 273.15], [['F', '°F', 'fahrenheit'], 5 / 9, 459.67 * 5 / 9],
+    [['R', '°R', 'rankine'], 5 / 9, 0],
+  ]],
+];
+
+const UNITS = new Map<string, Unit & { name: string }>();
+const FOLDED = new Map<string, Unit & { name: string }>();
+for (const [dim, units] of UNIT_TABLE) {
+  for (const [aliases, factor, offset] of units) {
+    for (const alias of aliases) {
+      const unit = { dim, factor, offset, name: aliases[0] };
+      // Ambiguous symbols (' and " are both feet/inches and arcminutes/seconds) keep their first meaning
+      if (!UNITS.has(alias)) UNITS.set(alias, unit);
+      if (!FOLDED.has(alias.toLowerCase())) FOLDED.set(alias.toLowerCase(), unit);
+    }
+  }
+}
+
+/** Exact spelling first, so MB and Mb or C and c stay apart, then case-insensitive */
+function findUnit(text: string) {
+  const key = text.trim().replace(/\s+/g, ' ').replace(/\^2$/, '2').replace(/\^3$/, '3');
+  const unit = UNITS.get(key) ?? FOLDED.get(key.toLowerCase());
+  if (!unit) throw new Error(`Unknown unit: ${text}`);
+  return unit;
+}
+
+function formatNumber(x: number): string {
+  if (x === 0) return '0';
+  const abs = Math.abs(x);
+  if (abs >= 1e15 || abs < 1e-6) return x.toPrecision(10).replace(/\.?0+e/, 'e');
+  return String(Number(x.toPrecision(12)));
+}
+
+export function convertUnits(value: number, from: string, to: string): string {
+  if (!Number.isFinite(value)) throw new Error('Value must be a number');
+  const per100 = (u: string) => /^l\s*\/\s*100\s*km$/i.test(u.trim());
+  // l/100km is the reciprocal of km/l
+  const a = per100(from) ? { dim: 'fuel economy', factor: 1, offset: 0, name: 'L/100km' } : findUnit(from);
+  const b = per100(to) ? { dim: 'fuel economy', factor: 1, offset: 0, name: 'L/100km' } : findUnit(to);
+  if (a.dim !== b.dim) throw new Error(`Cannot convert ${a.dim} (${a.name}) to ${b.dim} (${b.name})`);
+
+  const base = per100(from) ? 100 / value : value * a.factor + (a.offset ?? 0);
+  if (a.dim === 'temperature' && base < 0) throw new Error('Temperature below absolute zero');
+  const result = per100(to) ? 100 / base : (base - (b.offset ?? 0)) / b.factor;
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return `${formatNumber(value)} ${a.name} = ${formatNumber(result)} ${b.name}`;
+}
+
+// ---- Dates -------------------------------------------------------------------
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** A calendar day as a UTC midnight timestamp; `today` uses the local date */
+function parseDate(text: string, now: Date): number {
+  const t = text.trim().toLowerCase();
+  if (t === 'today' || t === 'now') return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const m = t.match(/^(-?\d{1,6})-(\d{1,2})-(\d{1,2})$/);
+  if (!m) throw new Error(`Use YYYY-MM-DD dates, got "${text}"`);
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const date = new Date(Date.UTC(2000, mo - 1, d));
+  date.setUTCFullYear(y);
+  if (date.getUTCMonth() !== mo - 1 || date.getUTCDate() !== d) throw new Error(`No such date: ${text}`);
+  return date.getTime();
+}
+
+const iso = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+/** "1 day", "2 days" */
+const count = (n: number, singular: string) => `${n} ${singular}${n === 1 ? '' : 's'}`;
+const isWeekend = (ms: number) => { const wd = new Date(ms).getUTCDay(); return wd === 0 || wd === 6; };
+/** Longest business-day step the loop below walks */
+const MAX_BUSINESS_DAYS = 100_000;
+
+/** Mon–Fri days in [a, b) */
+function businessDaysBetween(a: number, b: number): number {
+  const weeks = Math.floor(Math.round((b - a) / DAY_MS) / 7);
+  let count = weeks * 5;
+  for (let t = a + weeks * 7 * DAY_MS; t < b; t += DAY_MS) if (!isWeekend(t)) count++;
+  return count;
+}
+
+/** Adds months and keeps the day, clamped to the last day of a shorter month (Jan 31 + 1 month = Feb 28/29) */
+function addMonths(ms: number, months: number): number {
+  const d = new Date(ms);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const last = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, last));
+  return d.getTime();
+}
+
+function describeDate(ms: number): string {
+  const d = new Date(ms);
+  const y = d.getUTCFullYear();
+  const dayOfYear = Math.round((ms - Date.UTC(y, 0, 1)) / DAY_MS) + 1;
+  // ISO week: the week containing this week's Thursday
+  const thursday = ms + (3 - (d.getUTCDay() + 6) % 7) * DAY_MS;
+  const weekYear = new Date(thursday).getUTCFullYear();
+  const week = Math.floor((thursday - Date.UTC(weekYear, 0, 1)) / DAY_MS / 7) + 1;
+  const leap = new Date(Date.UTC(y, 1, 29)).getUTCDate() === 29;
+  return `${iso(ms)} is a ${WEEKDAYS[d.getUTCDay()]}, day ${dayOfYear} of ${y}${leap ? ' (a leap year)' : ''}, ISO week ${week} of ${weekYear}`;
+}
+
+export type DateOperation = 'difference' | 'add' | 'info';
+export type DateUnit = 'days' | 'weeks' | 'months' | 'years' | 'business days';
+
+export function dateCalc(op: DateOperation, date: string, options: { other?: string; amount?: number; unit?: DateUnit } = {}, now = new Date()): string {
+  const start = parseDate(date, now);
+  switch (op) {
+    case 'info':
+      return describeDate(start);
+
+    case 'add': {
+      const { amount, unit = 'days' } = options;
+      if (amount === undefined || !Number.isInteger(amount)) throw new Error('"amount" must be a whole number');
+      let end: number;
+      if (unit === 'months' || unit === 'years') end = addMonths(start, unit === 'years' ? amount * 12 : amount);
+      else if (unit === 'business days') {
+        if (Math.abs(amount) > MAX_BUSINESS_DAYS) throw new Error(`At most ${MAX_BUSINESS_DAYS} business days`);
+        end = start;
+        for (let left = Math.abs(amount); left > 0;) {
+          end += Math.sign(amount) * DAY_MS;
+          if (!isWeekend(end)) left--;
+        }
+      } else end = start + amount * (unit === 'weeks' ? 7 : 1) * DAY_MS;
+      return `${iso(start)} ${amount < 0 ? '-' : '+'} ${count(Math.abs(amount), unit.replace(/s$/, ''))} = ${describeDate(end)}`;
+    }
+
+    case 'difference': {
+      if (!options.other) throw new Error('"other_date" is required');
+      const end = parseDate(options.other, now);
+      const [a, b] = start <= end ? [start, end] : [end, start];
+      const days = Math.round((b - a) / DAY_MS);
+      // Whole calendar months first, then the remaining days
+      let months = (new Date(b).getUTCFullYear() - new Date(a).getUTCFullYear()) * 12 + new Date(b).getUTCMonth() - new Date(a).getUTCMonth();
+      if (addMonths(a, months) > b) months--;
+      const rest = Math.round((b - addMonths(a, months)) / DAY_MS);
+      const parts = [[Math.floor(months / 12), 'year'], [months % 12, 'month'], [rest, 'day']] as const;
+      const calendar = parts.filter(([n]) => n > 0).map(([n, w]) => count(n, w)).join(', ') || '0 days';
+      return [
+        `From ${iso(start)} to ${iso(end)}${start > end ? ' (backwards)' : ''}:`,
+        `${count(days, 'day')} (${count(Math.floor(days / 7), 'week')} and ${count(days % 7, 'day')})`,
+        calendar,
+        `${count(businessDaysBetween(a, b), 'business day')} (Mon–Fri, holidays not excluded)`,
+      ].join('\n');
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// =============================================================================
+// Token Usage & Cost — estimation fallback, price table and aggregation
+// =============================================================================
+
+import type { AppConfig, ChatMessage, ChatSession, GenerationResult, ModelPrice, TokenUsage } from './api';
+import { splitModelId } from './providers';
+
+/** Public list prices, USD per 1M tokens. Anything not listed counts as unpriced. */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'DeepSeek-R1-0528': { input: 5, output: 7 },
+  'DeepSeek-V3-0324': { input: 3, output: 4.5 },
+  'DeepSeek-V3.1': { input: 3, output: 4.5 },
+  'gpt-oss-120b': { input: 0.22, output: 0.59 },
+};
+
+/** Rough count for providers that report nothing: ~4 characters per token */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Stamps the serving model on a result and fills in estimated counts
+ * when the provider did not report usage.
+ */
+export function withUsage(result: GenerationResult, model: string, messages: ChatMessage[], systemPrompt: string): GenerationResult {
+  if (result.usage) return { ...result, usage: { ...result.usage, model } };
+  const promptText = systemPrompt + messages.map(m => m.content).join('\n');
+  return {
+    ...result,
+    usage: { model, promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(result.text), estimated: true },
+  };
+}
+
+export function getModelPrice(config: AppConfig, model: string): ModelPrice | null {
+  if (config.modelPrices[model]) return config.modelPrices[model];
+  const bare = splitModelId(model).model;
+  if (bare.endsWith(':free')) return { input: 0, output: 0 };
+  return DEFAULT_MODEL_PRICES[bare] || null;
+}
+
+/** Thinking tokens are billed as output. Null when the model has no price. */
+export function usageCost(config: AppConfig, usage: TokenUsage, fallbackModel?: string): number | null {
+  const model = usage.model || fallbackModel;
+  const price = model ? getModelPrice(config, model) : null;
+  if (!price) return null;
+  const output = usage.completionTokens + (usage.thinkingTokens || 0);
+  return (usage.promptTokens * price.input + output * price.output) / 1_000_000;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+  cost: number;
+  /** Responses whose model has no price (not included in `cost`) */
+  unpriced: number;
+  responses: number;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, thinkingTokens: 0, cost: 0, unpriced: 0, responses: 0 };
+}
+
+export function totalTokens(t: UsageTotals): number {
+  return t.promptTokens + t.completionTokens + t.thinkingTokens;
+}
+
+function addMessage(totals: UsageTotals, config: AppConfig, msg: ChatMessage) {
+  if (!msg.usage) return;
+  totals.promptTokens += msg.usage.promptTokens;
+  totals.completionTokens += msg.usage.completionTokens;
+  totals.thinkingTokens += msg.usage.thinkingTokens || 0;
+  totals.responses++;
+  const cost = usageCost(config, msg.usage, msg.model);
+  if (cost === null) totals.unpriced++; else totals.cost += cost;
+}
+
+export function sessionUsage(config: AppConfig, session: ChatSession): UsageTotals {
+  const totals = emptyTotals();
+  for (const msg of session.messages) addMessage(totals, config, msg);
+  return totals;
+}
+
+export function totalUsage(config: AppConfig, sessions: ChatSession[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const s of sessions) for (const msg of s.messages) addMessage(totals, config, msg);
+  return totals;
+}
+
+function dayKey(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Totals for each of the last `days` local calendar days, newest first */
+export function dailyUsage(config: AppConfig, sessions: ChatSession[], days: number): { day: string; totals: UsageTotals }[] {
+  const result: { day: string; totals: UsageTotals }[] = [];
+  const byDay = new Map<string, UsageTotals>();
+  const now = new Date();
+  for (let i = 0; i < days; i++) {
+    const day = dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i).getTime());
+    const totals = emptyTotals();
+    byDay.set(day, totals);
+    result.push({ day, totals });
+  }
+  for (const s of sessions) {
+    for (const msg of s.messages) {
+      const totals = byDay.get(dayKey(msg.timestamp));
+      if (totals) addMessage(totals, config, msg);
+    }
+  }
+  return result;
+}
+
+export function usageByModel(config: AppConfig, sessions: ChatSession[]): Record<string, UsageTotals> {
+  const result: Record<string, UsageTotals> = {};
+  for (const s of sessions) {
+    for (const msg of s.messages) {
+      const model = msg.usage?.model || msg.model;
+      if (!msg.usage || !model) continue;
+      addMessage(result[model] ||= emptyTotals(), config, msg);
+    }
+  }
+  return result;
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}